@@ -1,163 +1,1114 @@
-// SPDX-License-Identifier: MIT
-pragma solidity ^0.8.24;
-
-import { FHE, euint8, ebool } from "@fhevm/solidity/lib/FHE.sol";
-
-contract AnonymousScholarshipApplication {
-    using FHE for ebool;
-
-    struct Application {
-        address applicant;
-        ebool hasFinancialNeed;      // FHE encrypted boolean
-        ebool meetsAcademicCriteria; // FHE encrypted boolean
-        ebool isEligible;            // FHE encrypted boolean
-        uint256 timestamp;
-        bool processed;
-    }
-
-    struct ScholarshipProgram {
-        string name;
-        string description;
-        uint256 maxApplications;
-        uint256 currentApplications;
-        bool isActive;
-        address administrator;
-    }
-
-    uint256 public applicationCount;
-    uint256 public programCount;
-    
-    mapping(uint256 => Application) public applications;
-    mapping(uint256 => ScholarshipProgram) public programs;
-    mapping(address => uint256[]) public applicantApplications;
-    mapping(uint256 => uint256[]) public programApplications; // programId => applicationIds
-
-    event ApplicationSubmitted(uint256 indexed applicationId, uint256 indexed programId, address indexed applicant);
-    event ApplicationProcessed(uint256 indexed applicationId, bool approved);
-    event ProgramCreated(uint256 indexed programId, string name, address administrator);
-
-    modifier onlyProgramAdmin(uint256 _programId) {
-        require(programs[_programId].administrator == msg.sender, "Not program administrator");
-        _;
-    }
-
-    function createProgram(
-        string memory _name,
-        string memory _description,
-        uint256 _maxApplications
-    ) external {
-        programCount++;
-        programs[programCount] = ScholarshipProgram({
-            name: _name,
-            description: _description,
-            maxApplications: _maxApplications,
-            currentApplications: 0,
-            isActive: true,
-            administrator: msg.sender
-        });
-        
-        emit ProgramCreated(programCount, _name, msg.sender);
-    }
-
-    function submitApplication(
-        uint256 _programId,
-        bool _hasFinancialNeed,
-        bool _meetsAcademicCriteria
-    ) external {
-        require(_programId > 0 && _programId <= programCount, "Invalid program ID");
-        require(programs[_programId].isActive, "Program not active");
-        require(programs[_programId].currentApplications < programs[_programId].maxApplications, "Program full");
-
-        // Convert boolean to FHE encrypted boolean using asEbool
-        ebool encryptedFinancialNeed = FHE.asEbool(_hasFinancialNeed);
-        ebool encryptedAcademicCriteria = FHE.asEbool(_meetsAcademicCriteria);
-        
-        // Calculate eligibility: both conditions must be true
-        ebool isEligible = FHE.and(encryptedFinancialNeed, encryptedAcademicCriteria);
-
-        applicationCount++;
-        applications[applicationCount] = Application({
-            applicant: msg.sender,
-            hasFinancialNeed: encryptedFinancialNeed,
-            meetsAcademicCriteria: encryptedAcademicCriteria,
-            isEligible: isEligible,
-            timestamp: block.timestamp,
-            processed: false
-        });
-
-        // Set permissions for FHE data
-        encryptedFinancialNeed.allowThis();
-        encryptedAcademicCriteria.allowThis();
-        isEligible.allowThis();
-        
-        // Allow program administrator to view eligibility
-        isEligible.allow(programs[_programId].administrator);
-
-        // Update mappings
-        applicantApplications[msg.sender].push(applicationCount);
-        programApplications[_programId].push(applicationCount);
-        programs[_programId].currentApplications++;
-
-        emit ApplicationSubmitted(applicationCount, _programId, msg.sender);
-    }
-
-    function processApplication(
-        uint256 _applicationId,
-        uint256 _programId,
-        bool _approved
-    ) external onlyProgramAdmin(_programId) {
-        require(!applications[_applicationId].processed, "Already processed");
-        
-        applications[_applicationId].processed = true;
-        
-        emit ApplicationProcessed(_applicationId, _approved);
-    }
-
-    function getApplicationEligibility(uint256 _applicationId) external view returns (ebool) {
-        require(
-            applications[_applicationId].applicant == msg.sender || 
-            msg.sender == address(this),
-            "Not authorized"
-        );
-        return applications[_applicationId].isEligible;
-    }
-
-    function getMyApplications(address _applicant) external view returns (uint256[] memory) {
-        return applicantApplications[_applicant];
-    }
-
-    function getProgramApplications(uint256 _programId) external view returns (uint256[] memory) {
-        require(programs[_programId].administrator == msg.sender, "Not authorized");
-        return programApplications[_programId];
-    }
-
-    function getProgramInfo(uint256 _programId) external view returns (
-        string memory name,
-        string memory description,
-        uint256 maxApplications,
-        uint256 currentApplications,
-        bool isActive
-    ) {
-        ScholarshipProgram memory program = programs[_programId];
-        return (
-            program.name,
-            program.description,
-            program.maxApplications,
-            program.currentApplications,
-            program.isActive
-        );
-    }
-
-    function toggleProgramStatus(uint256 _programId) external onlyProgramAdmin(_programId) {
-        programs[_programId].isActive = !programs[_programId].isActive;
-    }
-
-    function getApplicationBasicInfo(uint256 _applicationId) external view returns (
-        address applicant,
-        uint256 timestamp,
-        bool processed
-    ) {
-        Application memory app = applications[_applicationId];
-        return (app.applicant, app.timestamp, app.processed);
-    }
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint8, euint16, euint32, euint64, ebool, externalEbool, externalEuint8, externalEuint16, externalEuint32, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { ZamaConfig, ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { ApplicationAccess } from "./libraries/ApplicationAccess.sol";
+import { ApplicationSignatures } from "./libraries/ApplicationSignatures.sol";
+import { AwardDecisions } from "./libraries/AwardDecisions.sol";
+import { AwardDecryption } from "./libraries/AwardDecryption.sol";
+import { EligibilityRules } from "./libraries/EligibilityRules.sol";
+import { ProgramWaitlist } from "./libraries/ProgramWaitlist.sol";
+import { SelectionRanking } from "./libraries/SelectionRanking.sol";
+
+// Deployed behind a transparent proxy. Storage is append-only across upgrades:
+// new state variables go after the existing ones and nothing is removed, retyped
+// or reordered. Encrypted handles and their ACL grants belong to the proxy
+// address, so they survive an upgrade unchanged.
+contract AnonymousScholarshipApplication is ZamaEthereumConfig, Initializable {
+    using FHE for ebool;
+    using FHE for euint16;
+    using FHE for euint32;
+    using FHE for euint64;
+
+    // Eligibility rules are stored as a postfix (RPN) node list: leaves push an
+    // encrypted boolean, groups pop `arity` operands and push their combination.
+    enum RuleOp {
+        Criterion,          // applicant criterion at `index`
+        MinGpa,             // gpa >= program.minGpa
+        MaxHouseholdIncome, // householdIncome <= program.maxHouseholdIncome
+        AllOf,
+        AnyOf,
+        AtLeast             // sum of operand weights >= threshold
+    }
+
+    struct RuleNode {
+        RuleOp op;
+        uint8 index;
+        uint8 arity;
+        uint8 weight;       // contribution to a parent AtLeast group
+        uint16 threshold;
+    }
+
+    uint256 public constant MAX_RULE_NODES = 32;
+    uint8 public constant MAX_CRITERIA = 16;
+    uint8 public constant MAX_REVIEWERS = 32; // 32 * 255 fits the euint16 score total
+
+    bytes32 public constant RELAYED_APPLICATION_TYPEHASH = ApplicationSignatures.RELAYED_APPLICATION_TYPEHASH;
+    bytes32 public constant VIEW_PERMIT_TYPEHASH = ApplicationSignatures.VIEW_PERMIT_TYPEHASH;
+
+    // Applications are accepted in [opensAt, closesAt); decisions until reviewDeadline
+    struct ProgramSchedule {
+        uint64 opensAt;
+        uint64 closesAt;
+        uint64 reviewDeadline;
+    }
+
+    struct Application {
+        address applicant;
+        uint256 programId;
+        ebool[] criteria;            // FHE encrypted booleans, indexed by the program rule
+        euint16 gpa;                 // FHE encrypted GPA scaled by 100 (3.50 => 350)
+        euint32 householdIncome;     // FHE encrypted annual household income
+        ebool isEligible;            // FHE encrypted boolean
+        ebool decision;              // FHE encrypted approval, set when processed
+        euint64 award;               // FHE encrypted amount disbursed, zero unless approved and funded
+        euint16 totalScore;          // FHE encrypted sum of reviewer scores, readable by the administrator only
+        uint8 reviewCount;
+        uint256 timestamp;
+        bool processed;
+        bool withdrawn;              // by the applicant; frees the place and hides it from the administrator
+        bool waitlisted;             // submitted to a full program and waiting for a place
+        bool disqualified;           // by the administrator; frees the place
+    }
+
+    // Open programs take applications. Closed ones do not, but reviews and processing
+    // go on, and they may reopen. Archived programs are frozen for good.
+    enum ProgramStatus {
+        Open,
+        Closed,
+        Archived
+    }
+
+    struct ScholarshipProgram {
+        string name;
+        string description;
+        uint256 maxApplications;
+        uint256 currentApplications;
+        bool isActive;               // Open; kept from before ProgramStatus, together with `archived` it gives the status
+        address administrator;
+        uint8 criteriaCount;         // number of encrypted criteria each application must carry
+        euint16 minGpa;              // FHE encrypted minimum GPA scaled by 100
+        euint32 maxHouseholdIncome;  // FHE encrypted maximum annual household income
+        euint64 remainingBudget;     // FHE encrypted funds left to award
+        ProgramSchedule schedule;
+        uint8 reviewQuorum;          // reviews required before an application can be processed
+        bool archived;
+        bool resubmissionAllowed;    // whether applicants may apply again after withdrawing
+        euint32 awardCount;          // FHE encrypted number of approved, funded applications
+        euint64 awardedAmount;       // FHE encrypted sum of the awards made
+    }
+
+    enum SelectionPhase {
+        None,
+        Keys,               // derive each application's ranking key
+        Compare,            // compare every pair of applications once
+        Finalize,           // mark applications ranked within the top K
+        Completed
+    }
+
+    // Encrypted top-K selection over a frozen application pool. It advances in
+    // bounded batches of steps: one per application to derive keys, one per pair
+    // to rank, and one per application to mark winners.
+    struct TopKSelection {
+        uint16 k;
+        SelectionPhase phase;
+        uint32 poolSize;
+        uint32 cursor;               // application index, or the left side of the current pair
+        uint32 partner;              // right side of the current pair
+        uint64 stepsDone;
+    }
+
+    // An application posted by a relayer. `applicant` is a one-time application key
+    // rather than the applicant's wallet: it signs the submission, is recorded as
+    // the applicant and receives decryption rights, so the wallet never appears
+    // on-chain. Encrypted inputs are bound to the relayer, which is `msg.sender`.
+    struct RelayedApplication {
+        address applicant;
+        uint256 programId;
+        externalEbool[] criteria;
+        externalEuint16 gpa;
+        externalEuint32 householdIncome;
+        bytes inputProof;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    // Lets anyone read `holder`'s applications until `deadline`. Views scoped to
+    // `msg.sender` only bind honest callers, since eth_call accepts any `from`;
+    // a permit proves the holder signed, so a service can read on their behalf.
+    struct ViewPermit {
+        address holder;
+        uint256 deadline;
+    }
+
+    // A request to publicly decrypt a program's award count and amount awarded. Anyone
+    // holding a KMS decryption proof for `handles` may fulfil it, exactly once.
+    struct AwardPublication {
+        uint256 programId;
+        bytes32[] handles;
+        bool fulfilled;
+        uint32 awardCount;           // cleartexts, once fulfilled
+        uint64 awardedAmount;
+    }
+
+    uint256 public applicationCount;
+    uint256 public programCount;
+    uint256 public awardRequestCount;
+    
+    mapping(uint256 => Application) private applications;
+    mapping(uint256 => ScholarshipProgram) public programs;
+    mapping(address => uint256[]) private applicantApplications;
+    mapping(uint256 => uint256[]) private programApplications; // programId => applicationIds
+    mapping(uint256 => RuleNode[]) private programRules;
+    mapping(uint256 => AwardPublication) private awardPublications; // requestId => request
+    mapping(uint256 => uint256) public programAwardRequest;         // programId => latest requestId
+    mapping(uint256 => address[]) private programReviewers;
+    mapping(uint256 => mapping(address => bool)) public isProgramReviewer;
+    mapping(uint256 => mapping(address => bool)) private hasReviewed; // applicationId => reviewer => reviewed
+    mapping(uint256 => TopKSelection) private programSelections;
+    mapping(uint256 => euint16) private selectionKeys;     // applicationId => ranking key
+    mapping(uint256 => euint16) private selectionRanks;    // applicationId => applications ranked above it
+    mapping(uint256 => ebool) private selectionResults;    // applicationId => ranked within the top K
+    mapping(address => uint256) public relayNonces;        // application key => next relayed submission nonce
+    mapping(uint256 => mapping(address => uint64)) private eligibilityDelegations; // applicationId => delegate => claim deadline
+    mapping(uint256 => address) public pendingAdministrators; // programId => administrator nominated, until they accept
+    mapping(uint256 => mapping(address => uint256)) private programApplicants; // programId => applicant => latest applicationId
+    mapping(uint256 => uint256[]) private programWaitlists; // programId => applicationIds waitlisted, oldest first
+    mapping(uint256 => uint256) private waitlistHeads;      // programId => index of the next waitlist entry to promote
+
+    event ApplicationSubmitted(uint256 indexed applicationId, uint256 indexed programId, address indexed applicant);
+    event ApplicationProcessed(uint256 indexed applicationId);
+    event ApplicationWithdrawn(uint256 indexed applicationId, uint256 indexed programId);
+    event ApplicationWaitlisted(uint256 indexed applicationId, uint256 indexed programId);
+    event ApplicationPromoted(uint256 indexed applicationId, uint256 indexed programId);
+    event WaitlistClosed(uint256 indexed programId);
+    event ApplicationDisqualified(uint256 indexed applicationId, uint256 indexed programId);
+    event ProgramCreated(uint256 indexed programId, string name, address administrator);
+    event AwardPublicationRequested(uint256 indexed requestId, uint256 indexed programId, bytes32[] handles);
+    event AwardsPublished(uint256 indexed requestId, uint256 indexed programId, uint32 awardCount, uint64 awardedAmount);
+    event ReviewerAdded(uint256 indexed programId, address indexed reviewer);
+    event ReviewerRemoved(uint256 indexed programId, address indexed reviewer);
+    event ReviewQuorumUpdated(uint256 indexed programId, uint8 quorum);
+    event ReviewSubmitted(uint256 indexed applicationId, address indexed reviewer);
+    event SelectionStarted(uint256 indexed programId, uint16 k, uint32 poolSize);
+    event SelectionCompleted(uint256 indexed programId);
+    event EligibilityAccessGranted(uint256 indexed applicationId, address indexed delegate);
+    event EligibilityDelegated(uint256 indexed applicationId, address indexed delegate, uint64 expiresAt);
+    event EligibilityDelegationRevoked(uint256 indexed applicationId, address indexed delegate);
+    event ProgramUpdated(uint256 indexed programId, string name, string description, uint256 maxApplications);
+    event ProgramStatusChanged(uint256 indexed programId, ProgramStatus status);
+    event ResubmissionPolicyUpdated(uint256 indexed programId, bool allowed);
+    event ProgramAdministrationTransferStarted(
+        uint256 indexed programId,
+        address indexed administrator,
+        address indexed pendingAdministrator
+    );
+    event ProgramAdministrationTransferred(
+        uint256 indexed programId,
+        address indexed previousAdministrator,
+        address indexed administrator
+    );
+
+    modifier onlyProgramAdmin(uint256 _programId) {
+        require(programs[_programId].administrator == msg.sender, "Not program administrator");
+        _;
+    }
+
+    // The implementation is configured by ZamaEthereumConfig's constructor, but
+    // only ever runs behind the proxy, so it must not be initializable itself
+    constructor() {
+        _disableInitializers();
+    }
+
+    // Constructors only set up the implementation's storage; the proxy gets its
+    // FHEVM coprocessor configuration here, exactly once
+    function initialize() external initializer {
+        FHE.setCoprocessor(ZamaConfig.getEthereumCoprocessorConfig());
+    }
+
+    function createProgram(
+        string memory _name,
+        string memory _description,
+        uint256 _maxApplications,
+        uint8 _criteriaCount,
+        RuleNode[] calldata _rule,
+        externalEuint16 _minGpa,
+        externalEuint32 _maxHouseholdIncome,
+        externalEuint64 _budget,
+        ProgramSchedule calldata _schedule,
+        bytes calldata _inputProof
+    ) external {
+        require(_criteriaCount <= MAX_CRITERIA, "Too many criteria");
+        require(
+            _schedule.opensAt < _schedule.closesAt &&
+            _schedule.closesAt <= _schedule.reviewDeadline &&
+            _schedule.closesAt > block.timestamp,
+            "Invalid schedule"
+        );
+        require(_rule.length <= MAX_RULE_NODES, "Invalid rule");
+
+        programCount++;
+        ScholarshipProgram storage program = programs[programCount];
+        program.name = _name;
+        program.description = _description;
+        program.maxApplications = _maxApplications;
+        program.isActive = true;
+        program.administrator = msg.sender;
+        program.criteriaCount = _criteriaCount;
+        program.schedule = _schedule;
+
+        EligibilityRules.configure(
+            program,
+            programRules[programCount],
+            _rule,
+            _minGpa,
+            _maxHouseholdIncome,
+            _inputProof
+        );
+        program.remainingBudget = FHE.fromExternal(_budget, _inputProof);
+        program.remainingBudget.allowThis();
+        program.remainingBudget.allow(msg.sender);
+
+        emit ProgramCreated(programCount, _name, msg.sender);
+        // Gives indexers the details that later edits change, from the start
+        emit ProgramUpdated(programCount, _name, _description, _maxApplications);
+    }
+
+    function submitApplication(
+        uint256 _programId,
+        externalEbool[] calldata _criteria,
+        externalEuint16 _gpa,
+        externalEuint32 _householdIncome,
+        bytes calldata _inputProof
+    ) external {
+        _submitApplication(msg.sender, _programId, _criteria, _gpa, _householdIncome, _inputProof);
+    }
+
+    // Anyone may post a relayed application; it only counts if the application key signed it
+    function submitRelayedApplication(RelayedApplication calldata _application, bytes calldata _signature) external {
+        require(block.timestamp <= _application.deadline, "Signature expired");
+        require(_application.nonce == relayNonces[_application.applicant], "Invalid nonce");
+        ApplicationSignatures.checkRelayedApplication(_application, _signature);
+
+        relayNonces[_application.applicant]++;
+        _submitApplication(
+            _application.applicant,
+            _application.programId,
+            _application.criteria,
+            _application.gpa,
+            _application.householdIncome,
+            _application.inputProof
+        );
+    }
+
+    function domainSeparator() external view returns (bytes32) {
+        return ApplicationSignatures.domainSeparator();
+    }
+
+    function _submitApplication(
+        address _applicant,
+        uint256 _programId,
+        externalEbool[] calldata _criteria,
+        externalEuint16 _gpa,
+        externalEuint32 _householdIncome,
+        bytes calldata _inputProof
+    ) internal {
+        require(_programId > 0 && _programId <= programCount, "Invalid program ID");
+        ScholarshipProgram storage program = programs[_programId];
+        require(program.isActive, "Program not active");
+        require(block.timestamp >= program.schedule.opensAt, "Applications not open");
+        require(block.timestamp < program.schedule.closesAt, "Applications closed");
+        require(programSelections[_programId].phase == SelectionPhase.None, "Selection started");
+        require(programAwardRequest[_programId] == 0, "Publication requested");
+        // One application per applicant and program; after a withdrawal only if the program allows it
+        uint256 previous = programApplicants[_programId][_applicant];
+        if (previous != 0) {
+            require(applications[previous].withdrawn, "Already applied");
+            require(program.resubmissionAllowed, "Resubmission not allowed");
+        }
+        require(_criteria.length == program.criteriaCount, "Criteria count mismatch");
+
+        applicationCount++;
+        Application storage app = applications[applicationCount];
+        app.applicant = _applicant;
+        app.programId = _programId;
+        app.timestamp = block.timestamp;
+
+        // Verify the client-side encrypted inputs, evaluate the program rule over them
+        // and let the applicant, and the administrator for the result, decrypt
+        EligibilityRules.assess(
+            program,
+            programRules[_programId],
+            app,
+            _criteria,
+            _gpa,
+            _householdIncome,
+            _inputProof
+        );
+
+        // Update mappings
+        applicantApplications[_applicant].push(applicationCount);
+        programApplicants[_programId][_applicant] = applicationCount;
+        emit ApplicationSubmitted(applicationCount, _programId, _applicant);
+
+        // A full program waitlists the application until a place frees up
+        if (program.currentApplications < program.maxApplications) {
+            _admitApplication(_programId, applicationCount);
+        } else {
+            app.waitlisted = true;
+            programWaitlists[_programId].push(applicationCount);
+            emit ApplicationWaitlisted(applicationCount, _programId);
+        }
+    }
+
+    // The program is taken from the application itself, so an administrator
+    // can only process applications submitted to their own programs
+    function processApplication(
+        uint256 _applicationId,
+        externalEbool _approved,
+        externalEuint64 _amount,
+        bytes calldata _inputProof
+    ) external onlyProgramAdmin(applications[_applicationId].programId) {
+        Application storage app = applications[_applicationId];
+        ScholarshipProgram storage program = programs[app.programId];
+        require(!app.processed, "Already processed");
+        _requireAdmitted(app);
+        require(!program.archived, "Program archived");
+        require(block.timestamp <= program.schedule.reviewDeadline, "Review closed");
+        require(app.reviewCount >= program.reviewQuorum, "Quorum not reached");
+        SelectionPhase phase = programSelections[app.programId].phase;
+        require(phase == SelectionPhase.None || phase == SelectionPhase.Completed, "Selection in progress");
+
+        // Once a top-K selection completed, only selected applications can be approved
+        ebool selection = phase == SelectionPhase.Completed ? selectionResults[_applicationId] : ebool.wrap(0);
+        AwardDecisions.decide(app, program, selection, _approved, _amount, _inputProof);
+        app.processed = true;
+
+        emit ApplicationProcessed(_applicationId);
+    }
+
+    // Frees the application's place in the program, or takes it off the waitlist. ACL
+    // grants are permanent, so the administrator can still decrypt the eligibility handle
+    // granted at submission, but no getter hands them anything about the application
+    // from now on and it can no longer be reviewed or processed.
+    function withdrawApplication(uint256 _applicationId) external {
+        Application storage app = applications[_applicationId];
+        require(app.applicant == msg.sender, "Not authorized");
+        require(!app.withdrawn, "Application withdrawn");
+        require(!app.disqualified, "Application disqualified");
+
+        _releaseApplication(app);
+        app.withdrawn = true;
+        emit ApplicationWithdrawn(_applicationId, app.programId);
+    }
+
+    // Removes an application from the running, for instance when its claims do not hold
+    // up. Unlike a withdrawal, the administrator keeps reading it.
+    function disqualifyApplication(
+        uint256 _applicationId
+    ) external onlyProgramAdmin(applications[_applicationId].programId) {
+        Application storage app = applications[_applicationId];
+        _requireAdmitted(app);
+
+        _releaseApplication(app);
+        app.disqualified = true;
+        emit ApplicationDisqualified(_applicationId, app.programId);
+    }
+
+    // 1 for the next application to be promoted, 0 once the application is not waitlisted.
+    // Reverts once the waitlist closed, as nobody still waiting will be promoted.
+    // Only the applicant may ask: positions would tell others who applied when.
+    function getWaitlistPosition(uint256 _applicationId) external view returns (uint256) {
+        uint256 programId = applications[_applicationId].programId;
+        return
+            ProgramWaitlist.position(
+                applications,
+                programWaitlists[programId],
+                waitlistHeads[programId],
+                _applicationId,
+                _isWaitlistClosed(programId)
+            );
+    }
+
+    // ACL grants are permanent: the delegate can decrypt the result from now on
+    function grantEligibilityAccess(uint256 _applicationId, address _delegate) external {
+        Application storage app = applications[_applicationId];
+        require(app.applicant == msg.sender, "Not authorized");
+        require(_delegate != address(0) && _delegate != msg.sender, "Invalid delegate");
+
+        app.isEligible.allow(_delegate);
+
+        emit EligibilityAccessGranted(_applicationId, _delegate);
+    }
+
+    // Because an ACL grant cannot be revoked, an expiring delegation is an offer:
+    // the delegate must claim it before `_expiresAt`, and the applicant may revoke
+    // it until then. Claiming calls FHE.allow, after which access is permanent.
+    function delegateEligibilityAccess(uint256 _applicationId, address _delegate, uint64 _expiresAt) external {
+        require(applications[_applicationId].applicant == msg.sender, "Not authorized");
+        require(_delegate != address(0) && _delegate != msg.sender, "Invalid delegate");
+        require(_expiresAt > block.timestamp, "Invalid expiry");
+
+        eligibilityDelegations[_applicationId][_delegate] = _expiresAt;
+
+        emit EligibilityDelegated(_applicationId, _delegate, _expiresAt);
+    }
+
+    function revokeEligibilityDelegation(uint256 _applicationId, address _delegate) external {
+        require(applications[_applicationId].applicant == msg.sender, "Not authorized");
+        require(eligibilityDelegations[_applicationId][_delegate] != 0, "No delegation");
+
+        delete eligibilityDelegations[_applicationId][_delegate];
+
+        emit EligibilityDelegationRevoked(_applicationId, _delegate);
+    }
+
+    function claimEligibilityAccess(uint256 _applicationId) external {
+        uint64 expiresAt = eligibilityDelegations[_applicationId][msg.sender];
+        require(expiresAt != 0, "No delegation");
+        require(block.timestamp < expiresAt, "Delegation expired");
+
+        delete eligibilityDelegations[_applicationId][msg.sender];
+        applications[_applicationId].isEligible.allow(msg.sender);
+
+        emit EligibilityAccessGranted(_applicationId, msg.sender);
+    }
+
+    // Claim deadline of a pending delegation, or zero; visible to the applicant and the delegate
+    function getEligibilityDelegation(uint256 _applicationId, address _delegate) external view returns (uint64) {
+        require(applications[_applicationId].applicant == msg.sender || _delegate == msg.sender, "Not authorized");
+        return eligibilityDelegations[_applicationId][_delegate];
+    }
+
+    function addReviewer(uint256 _programId, address _reviewer) external onlyProgramAdmin(_programId) {
+        require(_reviewer != address(0), "Invalid reviewer");
+        require(!isProgramReviewer[_programId][_reviewer], "Already a reviewer");
+        require(programReviewers[_programId].length < MAX_REVIEWERS, "Too many reviewers");
+
+        isProgramReviewer[_programId][_reviewer] = true;
+        programReviewers[_programId].push(_reviewer);
+
+        emit ReviewerAdded(_programId, _reviewer);
+    }
+
+    // Scores a removed reviewer already submitted stay in the application totals
+    function removeReviewer(uint256 _programId, address _reviewer) external onlyProgramAdmin(_programId) {
+        require(isProgramReviewer[_programId][_reviewer], "Not a reviewer");
+        address[] storage reviewers = programReviewers[_programId];
+        require(reviewers.length > programs[_programId].reviewQuorum, "Quorum exceeds reviewers");
+
+        isProgramReviewer[_programId][_reviewer] = false;
+        for (uint256 i = 0; i < reviewers.length; i++) {
+            if (reviewers[i] == _reviewer) {
+                reviewers[i] = reviewers[reviewers.length - 1];
+                reviewers.pop();
+                break;
+            }
+        }
+
+        emit ReviewerRemoved(_programId, _reviewer);
+    }
+
+    function setReviewQuorum(uint256 _programId, uint8 _quorum) external onlyProgramAdmin(_programId) {
+        require(_quorum <= programReviewers[_programId].length, "Quorum exceeds reviewers");
+        programs[_programId].reviewQuorum = _quorum;
+
+        emit ReviewQuorumUpdated(_programId, _quorum);
+    }
+
+    // Each reviewer scores an application once; only the running total is kept
+    function submitReview(
+        uint256 _applicationId,
+        externalEuint8 _score,
+        bytes calldata _inputProof
+    ) external {
+        Application storage app = applications[_applicationId];
+        ScholarshipProgram storage program = programs[app.programId];
+        require(isProgramReviewer[app.programId][msg.sender], "Not a reviewer");
+        require(!app.processed, "Already processed");
+        _requireAdmitted(app);
+        require(!hasReviewed[_applicationId][msg.sender], "Already reviewed");
+        require(block.timestamp <= program.schedule.reviewDeadline, "Review closed");
+        require(programSelections[app.programId].phase == SelectionPhase.None, "Selection started");
+
+        euint16 score = FHE.asEuint16(FHE.fromExternal(_score, _inputProof));
+        euint16 totalScore = FHE.isInitialized(app.totalScore) ? app.totalScore.add(score) : score;
+
+        totalScore.allowThis();
+        totalScore.allow(program.administrator);
+
+        app.totalScore = totalScore;
+        app.reviewCount++;
+        hasReviewed[_applicationId][msg.sender] = true;
+
+        emit ReviewSubmitted(_applicationId, msg.sender);
+    }
+
+    function getProgramReviewers(uint256 _programId) external view returns (
+        address[] memory reviewers,
+        uint8 quorum
+    ) {
+        return (programReviewers[_programId], programs[_programId].reviewQuorum);
+    }
+
+    function getApplicationScore(uint256 _applicationId) external view returns (
+        euint16 totalScore,
+        uint8 reviewCount
+    ) {
+        Application storage app = applications[_applicationId];
+        require(_isAdministratorOf(app, msg.sender), "Not authorized");
+        return (app.totalScore, app.reviewCount);
+    }
+
+    // Freezes the application pool and ranks it by encrypted review score
+    function startSelection(uint256 _programId, uint16 _k) external onlyProgramAdmin(_programId) {
+        TopKSelection storage selection = programSelections[_programId];
+        require(selection.phase == SelectionPhase.None, "Selection started");
+        require(_k > 0, "Invalid K");
+        require(programs[_programId].currentApplications > 0, "No applications");
+        uint256 poolSize = programApplications[_programId].length;
+        _closeWaitlist(_programId);
+
+        selection.k = _k;
+        selection.phase = SelectionPhase.Keys;
+        selection.poolSize = uint32(poolSize);
+
+        emit SelectionStarted(_programId, _k, uint32(poolSize));
+    }
+
+    // Runs at most `_maxSteps` steps of the selection; returns true once it has completed
+    function advanceSelection(
+        uint256 _programId,
+        uint256 _maxSteps
+    ) external onlyProgramAdmin(_programId) returns (bool) {
+        TopKSelection storage selection = programSelections[_programId];
+        require(selection.phase != SelectionPhase.None, "Selection not started");
+        require(selection.phase != SelectionPhase.Completed, "Selection completed");
+        require(_maxSteps > 0, "Invalid batch size");
+
+        // Withdrawn and disqualified applications keep their slot in the pool and use up
+        // their steps, but are neither ranked nor selected
+        uint256[] storage pool = programApplications[_programId];
+        for (uint256 step = 0; step < _maxSteps && selection.phase != SelectionPhase.Completed; step++) {
+            if (selection.phase == SelectionPhase.Keys) {
+                _deriveSelectionKey(pool[selection.cursor]);
+                if (++selection.cursor == selection.poolSize) {
+                    selection.cursor = 0;
+                    selection.partner = 1;
+                    selection.phase = selection.poolSize > 1 ? SelectionPhase.Compare : SelectionPhase.Finalize;
+                }
+            } else if (selection.phase == SelectionPhase.Compare) {
+                _comparePair(pool[selection.cursor], pool[selection.partner]);
+                if (++selection.partner == selection.poolSize) {
+                    selection.cursor++;
+                    selection.partner = selection.cursor + 1;
+                    if (selection.partner == selection.poolSize) {
+                        selection.cursor = 0;
+                        selection.phase = SelectionPhase.Finalize;
+                    }
+                }
+            } else {
+                _markSelected(pool[selection.cursor], selection.k, programs[_programId].administrator);
+                if (++selection.cursor == selection.poolSize) {
+                    selection.phase = SelectionPhase.Completed;
+                    emit SelectionCompleted(_programId);
+                }
+            }
+            selection.stepsDone++;
+        }
+        return selection.phase == SelectionPhase.Completed;
+    }
+
+    function getSelection(uint256 _programId) external view returns (
+        uint16 k,
+        SelectionPhase phase,
+        uint32 poolSize,
+        uint64 stepsDone,
+        uint64 totalSteps
+    ) {
+        TopKSelection storage selection = programSelections[_programId];
+        uint64 n = selection.poolSize;
+        totalSteps = n == 0 ? 0 : 2 * n + (n * (n - 1)) / 2;
+        return (selection.k, selection.phase, selection.poolSize, selection.stepsDone, totalSteps);
+    }
+
+    function getApplicationSelection(uint256 _applicationId) external view returns (ebool) {
+        Application storage app = applications[_applicationId];
+        require(
+            app.applicant == msg.sender ||
+            programs[app.programId].administrator == msg.sender,
+            "Not authorized"
+        );
+        require(programSelections[app.programId].phase == SelectionPhase.Completed, "Selection not completed");
+        return selectionResults[_applicationId];
+    }
+
+    function getApplicationEligibility(uint256 _applicationId) external view returns (ebool) {
+        Application storage app = applications[_applicationId];
+        // The administrator is on the handle's ACL too, so is checked before delegates
+        bool administrator = programs[app.programId].administrator == msg.sender;
+        require(
+            app.applicant == msg.sender ||
+            msg.sender == address(this) ||
+            (administrator ? !app.withdrawn : FHE.isAllowed(app.isEligible, msg.sender)), // delegates
+            "Not authorized"
+        );
+        return app.isEligible;
+    }
+
+    // Handles of the applicant's own encrypted figures; only the applicant may decrypt them
+    function getApplicationInputs(uint256 _applicationId) external view returns (
+        euint16 gpa,
+        euint32 householdIncome
+    ) {
+        Application storage app = applications[_applicationId];
+        require(app.applicant == msg.sender, "Not authorized");
+        return (app.gpa, app.householdIncome);
+    }
+
+    // Marks the award count and amount awarded of a fully processed program as publicly
+    // decryptable and records which handles the decryption callback must prove.
+    // Individual decisions stay readable by the applicant and administrator only.
+    // Results are published once: from the request on, the program admits no more
+    // applications, so the published figures stay final.
+    function requestAwardPublication(uint256 _programId) external onlyProgramAdmin(_programId) returns (uint256) {
+        uint256 latest = programAwardRequest[_programId];
+        require(latest == 0, awardPublications[latest].fulfilled ? "Awards already published" : "Publication pending");
+
+        require(programs[_programId].currentApplications > 0, "No applications");
+        _closeWaitlist(_programId);
+        bytes32[] memory handles = AwardDecryption.requestResults(
+            programs[_programId],
+            programApplications[_programId],
+            applications
+        );
+
+        awardRequestCount++;
+        AwardPublication storage request = awardPublications[awardRequestCount];
+        request.programId = _programId;
+        request.handles = handles;
+        programAwardRequest[_programId] = awardRequestCount;
+
+        emit AwardPublicationRequested(awardRequestCount, _programId, handles);
+        return awardRequestCount;
+    }
+
+    // Decryption callback: the cleartexts are only accepted with a valid KMS proof
+    // for exactly the requested handles, and each request can be fulfilled once
+    function fulfillAwardPublication(
+        uint256 _requestId,
+        bytes calldata _abiEncodedCleartexts,
+        bytes calldata _decryptionProof
+    ) external {
+        AwardPublication storage request = awardPublications[_requestId];
+        require(request.programId != 0, "Unknown request");
+        require(!request.fulfilled, "Request already fulfilled");
+
+        request.fulfilled = true;
+        AwardDecryption.publishResults(request, _abiEncodedCleartexts, _decryptionProof);
+
+        emit AwardsPublished(_requestId, request.programId, request.awardCount, request.awardedAmount);
+    }
+
+    function getAwardPublication(uint256 _requestId) external view returns (
+        uint256 programId,
+        bytes32[] memory handles,
+        bool fulfilled
+    ) {
+        AwardPublication storage request = awardPublications[_requestId];
+        return (request.programId, request.handles, request.fulfilled);
+    }
+
+    function getAwardResults(uint256 _programId) external view returns (uint32 awardCount, uint64 awardedAmount) {
+        AwardPublication storage request = awardPublications[programAwardRequest[_programId]];
+        require(request.fulfilled, "Awards not published");
+        return (request.awardCount, request.awardedAmount);
+    }
+
+    function getApplicationDecision(uint256 _applicationId) external view returns (ebool) {
+        Application storage app = applications[_applicationId];
+        require(
+            app.applicant == msg.sender ||
+            programs[app.programId].administrator == msg.sender,
+            "Not authorized"
+        );
+        require(app.processed, "Not processed");
+        return app.decision;
+    }
+
+    function getApplicationAward(uint256 _applicationId) external view returns (euint64) {
+        Application storage app = applications[_applicationId];
+        require(
+            app.applicant == msg.sender ||
+            programs[app.programId].administrator == msg.sender,
+            "Not authorized"
+        );
+        require(app.processed, "Not processed");
+        return app.award;
+    }
+
+    function getRemainingBudget(uint256 _programId) external view returns (euint64) {
+        require(programs[_programId].administrator == msg.sender, "Not authorized");
+        return programs[_programId].remainingBudget;
+    }
+
+    function getMyApplications() external view returns (uint256[] memory) {
+        return applicantApplications[msg.sender];
+    }
+
+    function getMyApplicationsWithPermit(
+        ViewPermit calldata _permit,
+        bytes calldata _signature
+    ) external view returns (uint256[] memory) {
+        return applicantApplications[ApplicationSignatures.permitHolder(_permit, _signature)];
+    }
+
+    function getProgramApplications(uint256 _programId) external view returns (uint256[] memory) {
+        require(programs[_programId].administrator == msg.sender, "Not authorized");
+        return _programPage(_programId, 0, programApplications[_programId].length);
+    }
+
+    // Paged variants of the listings above, for callers that cannot read an unbounded array
+    function getMyApplicationCount() external view returns (uint256) {
+        return applicantApplications[msg.sender].length;
+    }
+
+    function getMyApplicationsPage(uint256 _offset, uint256 _limit) external view returns (uint256[] memory) {
+        return _page(applicantApplications[msg.sender], _offset, _limit);
+    }
+
+    // Entries in the program's listing, withdrawn and disqualified ones included: the range
+    // the pages cover. `currentApplications` counts the applications holding a place.
+    function getProgramApplicationCount(uint256 _programId) external view returns (uint256) {
+        require(programs[_programId].administrator == msg.sender, "Not authorized");
+        return programApplications[_programId].length;
+    }
+
+    function getProgramApplicationsPage(
+        uint256 _programId,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (uint256[] memory) {
+        require(programs[_programId].administrator == msg.sender, "Not authorized");
+        return _programPage(_programId, _offset, _limit);
+    }
+
+    function getProgramInfo(uint256 _programId) external view returns (
+        string memory name,
+        string memory description,
+        uint256 maxApplications,
+        uint256 currentApplications,
+        bool isActive,
+        ProgramStatus status,
+        bool resubmissionAllowed
+    ) {
+        ScholarshipProgram storage program = programs[_programId];
+        return (
+            program.name,
+            program.description,
+            program.maxApplications,
+            program.currentApplications,
+            program.isActive,
+            _programStatus(program),
+            program.resubmissionAllowed
+        );
+    }
+
+    function getProgramRule(uint256 _programId) external view returns (
+        uint8 criteriaCount,
+        RuleNode[] memory nodes
+    ) {
+        return (programs[_programId].criteriaCount, programRules[_programId]);
+    }
+
+    function getProgramSchedule(uint256 _programId) external view returns (ProgramSchedule memory) {
+        return programs[_programId].schedule;
+    }
+
+    // Capacity may not drop below the applications already submitted
+    function updateProgram(
+        uint256 _programId,
+        string calldata _name,
+        string calldata _description,
+        uint256 _maxApplications
+    ) external onlyProgramAdmin(_programId) {
+        ScholarshipProgram storage program = programs[_programId];
+        require(!program.archived, "Program archived");
+        require(_maxApplications >= program.currentApplications, "Capacity below applications");
+
+        program.name = _name;
+        program.description = _description;
+        program.maxApplications = _maxApplications;
+        emit ProgramUpdated(_programId, _name, _description, _maxApplications);
+        _promoteWaitlisted(_programId);
+    }
+
+    // Off by default, so withdrawing is final; when on, an applicant whose
+    // application was withdrawn may apply again
+    function setResubmissionPolicy(uint256 _programId, bool _allowed) external onlyProgramAdmin(_programId) {
+        require(!programs[_programId].archived, "Program archived");
+        programs[_programId].resubmissionAllowed = _allowed;
+        emit ResubmissionPolicyUpdated(_programId, _allowed);
+    }
+
+    function closeProgram(uint256 _programId) external {
+        _setProgramStatus(_programId, ProgramStatus.Open, ProgramStatus.Closed);
+    }
+
+    function reopenProgram(uint256 _programId) external {
+        _setProgramStatus(_programId, ProgramStatus.Closed, ProgramStatus.Open);
+    }
+
+    function archiveProgram(uint256 _programId) external {
+        _setProgramStatus(_programId, ProgramStatus.Closed, ProgramStatus.Archived);
+    }
+
+    // Nominating the zero address cancels a pending transfer
+    function transferProgramAdministration(
+        uint256 _programId,
+        address _administrator
+    ) external onlyProgramAdmin(_programId) {
+        require(!programs[_programId].archived, "Program archived");
+        pendingAdministrators[_programId] = _administrator;
+        emit ProgramAdministrationTransferStarted(_programId, msg.sender, _administrator);
+    }
+
+    // The new administrator gets the program's encrypted thresholds and budget, just as the
+    // previous administrator did, and claims its applications so far with
+    // claimApplicationAccess. ACL grants are permanent, so whoever administered the
+    // program before keeps the handles they were granted.
+    function acceptProgramAdministration(uint256 _programId) external {
+        require(pendingAdministrators[_programId] == msg.sender, "Not pending administrator");
+        ScholarshipProgram storage program = programs[_programId];
+        require(!program.archived, "Program archived");
+
+        address previousAdministrator = program.administrator;
+        program.administrator = msg.sender;
+        delete pendingAdministrators[_programId];
+
+        program.minGpa.allow(msg.sender);
+        program.maxHouseholdIncome.allow(msg.sender);
+        program.remainingBudget.allow(msg.sender);
+
+        emit ProgramAdministrationTransferred(_programId, previousAdministrator, msg.sender);
+    }
+
+    // Grants the administrator the eligibility, scores, decisions and selection results of
+    // up to `_limit` applications of the program's listing from `_offset` on. Paged so that
+    // taking over a large program never needs a transaction too big for a block; granting
+    // a page twice is harmless.
+    function claimApplicationAccess(
+        uint256 _programId,
+        uint256 _offset,
+        uint256 _limit
+    ) external onlyProgramAdmin(_programId) {
+        ApplicationAccess.grant(
+            applications,
+            selectionResults,
+            _page(programApplications[_programId], _offset, _limit),
+            msg.sender
+        );
+    }
+
+    function getApplicationBasicInfo(uint256 _applicationId) external view returns (
+        address applicant,
+        uint256 programId,
+        uint256 timestamp,
+        bool processed,
+        bool withdrawn
+    ) {
+        return _applicationBasicInfo(_applicationId, msg.sender);
+    }
+
+    function getApplicationBasicInfoWithPermit(
+        uint256 _applicationId,
+        ViewPermit calldata _permit,
+        bytes calldata _signature
+    ) external view returns (
+        address applicant,
+        uint256 programId,
+        uint256 timestamp,
+        bool processed,
+        bool withdrawn
+    ) {
+        return _applicationBasicInfo(_applicationId, ApplicationSignatures.permitHolder(_permit, _signature));
+    }
+
+    // The applicant and the program administrator may see who applied and when
+    function _applicationBasicInfo(uint256 _applicationId, address _viewer) internal view returns (
+        address,
+        uint256,
+        uint256,
+        bool,
+        bool
+    ) {
+        Application storage app = applications[_applicationId];
+        require(app.applicant == _viewer || _isAdministratorOf(app, _viewer), "Not authorized");
+        return (app.applicant, app.programId, app.timestamp, app.processed, app.withdrawn);
+    }
+
+    // Administrators lose sight of an application once it is withdrawn
+    function _isAdministratorOf(Application storage _app, address _viewer) internal view returns (bool) {
+        return !_app.withdrawn && programs[_app.programId].administrator == _viewer;
+    }
+
+    // Reviews, decisions and disqualification only apply to applications holding a place
+    function _requireAdmitted(Application storage _app) internal view {
+        require(!_app.withdrawn, "Application withdrawn");
+        require(!_app.disqualified, "Application disqualified");
+        require(!_app.waitlisted, "Application waitlisted");
+    }
+
+    // Withdrawn and disqualified applications stay in the program's listing, which only
+    // grows, but no longer hold a place
+    function _isReleased(Application storage _app) internal view returns (bool) {
+        return _app.withdrawn || _app.disqualified;
+    }
+
+    function _admitApplication(uint256 _programId, uint256 _applicationId) internal {
+        programApplications[_programId].push(_applicationId);
+        programs[_programId].currentApplications++;
+    }
+
+    // Takes a waitlisted application off the waitlist, which it may leave at any time, even
+    // once the waitlist closed, or frees an admitted one's place for the next application waiting
+    function _releaseApplication(Application storage _app) internal {
+        if (_app.waitlisted) {
+            _app.waitlisted = false;
+            return;
+        }
+        uint256 programId = _app.programId;
+        require(!_app.processed, "Already processed");
+        require(!programs[programId].archived, "Program archived");
+        require(programSelections[programId].phase == SelectionPhase.None, "Selection started");
+
+        programs[programId].currentApplications--;
+        _promoteWaitlisted(programId);
+    }
+
+    // Admits waitlisted applications while the program has room, until the waitlist closes.
+    // Promoted applications are appended to the program's listing, and submissions only
+    // take a place while nobody is waiting, so the listing stays in submission order.
+    // That is the order selection breaks ties by.
+    function _promoteWaitlisted(uint256 _programId) internal {
+        if (_isWaitlistClosed(_programId)) {
+            return;
+        }
+        waitlistHeads[_programId] = ProgramWaitlist.promote(
+            programs[_programId],
+            programApplications[_programId],
+            programWaitlists[_programId],
+            applications,
+            waitlistHeads[_programId]
+        );
+    }
+
+    // Called before selection starts or award publication is requested, either of which
+    // freezes the pool and with it the waitlist
+    function _closeWaitlist(uint256 _programId) internal {
+        if (!_isWaitlistClosed(_programId)) {
+            emit WaitlistClosed(_programId);
+        }
+    }
+
+    function _isWaitlistClosed(uint256 _programId) internal view returns (bool) {
+        return programSelections[_programId].phase != SelectionPhase.None || programAwardRequest[_programId] != 0;
+    }
+
+    function _programStatus(ScholarshipProgram storage _program) internal view returns (ProgramStatus) {
+        if (_program.archived) {
+            return ProgramStatus.Archived;
+        }
+        return _program.isActive ? ProgramStatus.Open : ProgramStatus.Closed;
+    }
+
+    function _setProgramStatus(
+        uint256 _programId,
+        ProgramStatus _from,
+        ProgramStatus _to
+    ) internal onlyProgramAdmin(_programId) {
+        ScholarshipProgram storage program = programs[_programId];
+        require(_programStatus(program) == _from, "Invalid status transition");
+
+        program.isActive = _to == ProgramStatus.Open;
+        program.archived = _to == ProgramStatus.Archived;
+        emit ProgramStatusChanged(_programId, _to);
+    }
+
+    // Up to `_limit` ids from `_offset` on, in listing order; empty past the end
+    function _page(uint256[] storage _ids, uint256 _offset, uint256 _limit) internal view returns (uint256[] memory page) {
+        if (_offset >= _ids.length) {
+            return page;
+        }
+        uint256 count = _ids.length - _offset;
+        page = new uint256[](_limit < count ? _limit : count);
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = _ids[_offset + i];
+        }
+    }
+
+    // The page of the program's listing from `_offset` on, less withdrawn and disqualified
+    // applications, so it can hold fewer than `_limit` ids before the end of the listing
+    function _programPage(
+        uint256 _programId,
+        uint256 _offset,
+        uint256 _limit
+    ) internal view returns (uint256[] memory page) {
+        uint256[] memory entries = _page(programApplications[_programId], _offset, _limit);
+        uint256 count = 0;
+        for (uint256 i = 0; i < entries.length; i++) {
+            if (!_isReleased(applications[entries[i]])) {
+                entries[count++] = entries[i];
+            }
+        }
+        page = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = entries[i];
+        }
+    }
+
+    function _deriveSelectionKey(uint256 _applicationId) internal {
+        Application storage app = applications[_applicationId];
+        if (_isReleased(app)) {
+            return;
+        }
+        (euint16 key, euint16 rank) = SelectionRanking.deriveKey(app.isEligible, app.totalScore);
+
+        key.allowThis();
+        rank.allowThis();
+        selectionKeys[_applicationId] = key;
+        selectionRanks[_applicationId] = rank;
+    }
+
+    function _comparePair(uint256 _earlier, uint256 _later) internal {
+        if (_isReleased(applications[_earlier]) || _isReleased(applications[_later])) {
+            return;
+        }
+        (euint16 earlierRank, euint16 laterRank) = SelectionRanking.comparePair(
+            selectionKeys[_earlier],
+            selectionKeys[_later],
+            selectionRanks[_earlier],
+            selectionRanks[_later]
+        );
+
+        earlierRank.allowThis();
+        laterRank.allowThis();
+        selectionRanks[_earlier] = earlierRank;
+        selectionRanks[_later] = laterRank;
+    }
+
+    function _markSelected(uint256 _applicationId, uint16 _k, address _administrator) internal {
+        Application storage app = applications[_applicationId];
+        if (_isReleased(app)) {
+            return;
+        }
+        ebool selected = SelectionRanking.isSelected(app.isEligible, selectionRanks[_applicationId], _k);
+
+        selected.allowThis();
+        selected.allow(app.applicant);
+        selected.allow(_administrator);
+        selectionResults[_applicationId] = selected;
+    }
 }
\ No newline at end of file
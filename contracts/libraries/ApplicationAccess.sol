@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint16, euint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { AnonymousScholarshipApplication as Scholarship } from "../ScholarshipApplication.sol";
+
+// Grants behind claimApplicationAccess, linked like EligibilityRules to keep the
+// scholarship contract under the code size limit. The contract checks who may claim
+// which page of a program's listing; this library hands out the handles.
+library ApplicationAccess {
+    using FHE for ebool;
+    using FHE for euint16;
+    using FHE for euint64;
+
+    // Grants `_administrator` the eligibility, score, decision, award and selection result
+    // of each application in `_ids` that has them. Withdrawn applications are skipped, as
+    // administrators no longer see them.
+    function grant(
+        mapping(uint256 => Scholarship.Application) storage _applications,
+        mapping(uint256 => ebool) storage _selectionResults,
+        uint256[] memory _ids,
+        address _administrator
+    ) public {
+        for (uint256 i = 0; i < _ids.length; i++) {
+            Scholarship.Application storage app = _applications[_ids[i]];
+            if (app.withdrawn) {
+                continue;
+            }
+            app.isEligible.allow(_administrator);
+            if (FHE.isInitialized(app.totalScore)) {
+                app.totalScore.allow(_administrator);
+            }
+            if (app.processed) {
+                app.decision.allow(_administrator);
+                app.award.allow(_administrator);
+            }
+            if (FHE.isInitialized(_selectionResults[_ids[i]])) {
+                _selectionResults[_ids[i]].allow(_administrator);
+            }
+        }
+    }
+}
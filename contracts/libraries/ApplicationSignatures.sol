@@ -0,0 +1,77 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { AnonymousScholarshipApplication as Scholarship } from "../ScholarshipApplication.sol";
+
+// EIP-712 signatures over relayed applications and view permits, linked like
+// EligibilityRules to keep the scholarship contract under the code size limit. It runs
+// by DELEGATECALL, so the domain's verifying contract is the scholarship contract.
+library ApplicationSignatures {
+    bytes32 internal constant EIP712_DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 internal constant RELAYED_APPLICATION_TYPEHASH = keccak256(
+        "RelayedApplication(address applicant,uint256 programId,bytes32[] criteria,bytes32 gpa,bytes32 householdIncome,bytes inputProof,uint256 nonce,uint256 deadline)"
+    );
+    bytes32 internal constant VIEW_PERMIT_TYPEHASH = keccak256("ViewPermit(address holder,uint256 deadline)");
+
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(abi.encode(
+            EIP712_DOMAIN_TYPEHASH,
+            keccak256("AnonymousScholarshipApplication"),
+            keccak256("1"),
+            block.chainid,
+            address(this)
+        ));
+    }
+
+    // Returns the permit's holder; reverts when it expired or the holder did not sign it
+    function permitHolder(
+        Scholarship.ViewPermit calldata _permit,
+        bytes calldata _signature
+    ) public view returns (address) {
+        require(block.timestamp <= _permit.deadline, "Permit expired");
+        bytes32 structHash = keccak256(abi.encode(VIEW_PERMIT_TYPEHASH, _permit.holder, _permit.deadline));
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+        require(_isSignedBy(digest, _signature, _permit.holder), "Invalid permit");
+        return _permit.holder;
+    }
+
+    // Reverts unless the application key signed the application
+    function checkRelayedApplication(
+        Scholarship.RelayedApplication calldata _application,
+        bytes calldata _signature
+    ) public view {
+        bytes32 structHash = keccak256(abi.encode(
+            RELAYED_APPLICATION_TYPEHASH,
+            _application.applicant,
+            _application.programId,
+            keccak256(abi.encodePacked(_application.criteria)),
+            _application.gpa,
+            _application.householdIncome,
+            keccak256(_application.inputProof),
+            _application.nonce,
+            _application.deadline
+        ));
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+        require(_isSignedBy(digest, _signature, _application.applicant), "Invalid signature");
+    }
+
+    // ecrecover yields address(0) for garbage signatures, so the zero address never signs
+    function _isSignedBy(bytes32 _digest, bytes calldata _signature, address _signer) private pure returns (bool) {
+        return _signer != address(0) && _recoverSigner(_digest, _signature) == _signer;
+    }
+
+    // Rejects malleable (high-s) signatures so each submission has exactly one valid signature
+    function _recoverSigner(bytes32 _digest, bytes calldata _signature) private pure returns (address) {
+        if (_signature.length != 65) {
+            return address(0);
+        }
+        bytes32 r = bytes32(_signature[0:32]);
+        bytes32 s = bytes32(_signature[32:64]);
+        uint8 v = uint8(_signature[64]);
+        if (uint256(s) > 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0) {
+            return address(0);
+        }
+        return ecrecover(_digest, v, r, s);
+    }
+}
@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64, ebool, externalEbool, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { AnonymousScholarshipApplication as Scholarship } from "../ScholarshipApplication.sol";
+
+// Encrypted decisions and awards behind processApplication, linked like EligibilityRules
+// to keep the scholarship contract under the code size limit. The contract checks who
+// may process which application and when; this library computes and stores the outcome.
+library AwardDecisions {
+    using FHE for ebool;
+    using FHE for euint32;
+    using FHE for euint64;
+
+    // An approval only takes effect for eligible applicants, and for applications within
+    // the top K when `_selection` is set; nobody else learns the outcome. The applicant
+    // and the administrator (`msg.sender`) may decrypt the decision and the award; the
+    // program's award count and amount awarded only become readable once published.
+    function decide(
+        Scholarship.Application storage _app,
+        Scholarship.ScholarshipProgram storage _program,
+        ebool _selection,
+        externalEbool _approved,
+        externalEuint64 _amount,
+        bytes calldata _inputProof
+    ) public {
+        ebool approved = FHE.fromExternal(_approved, _inputProof);
+        euint64 amount = FHE.fromExternal(_amount, _inputProof);
+        if (FHE.isInitialized(_selection)) {
+            approved = FHE.and(approved, _selection);
+        }
+
+        // An award that would overspend becomes zero instead of reverting, which
+        // would reveal that the remaining budget is smaller than the amount
+        ebool funded = FHE.le(amount, _program.remainingBudget);
+        ebool decision = FHE.and(FHE.select(_app.isEligible, approved, FHE.asEbool(false)), funded);
+        euint64 award = FHE.select(decision, amount, FHE.asEuint64(0));
+        euint64 remainingBudget = FHE.sub(_program.remainingBudget, award);
+        euint32 awardCount = FHE.add(_program.awardCount, FHE.asEuint32(decision));
+        euint64 awardedAmount = FHE.add(_program.awardedAmount, award);
+
+        decision.allowThis();
+        decision.allow(_app.applicant);
+        decision.allow(msg.sender);
+        award.allowThis();
+        award.allow(_app.applicant);
+        award.allow(msg.sender);
+        remainingBudget.allowThis();
+        remainingBudget.allow(msg.sender);
+        awardCount.allowThis();
+        awardedAmount.allowThis();
+
+        _app.decision = decision;
+        _app.award = award;
+        _program.remainingBudget = remainingBudget;
+        _program.awardCount = awardCount;
+        _program.awardedAmount = awardedAmount;
+    }
+}
@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE } from "@fhevm/solidity/lib/FHE.sol";
+import { AnonymousScholarshipApplication as Scholarship } from "../ScholarshipApplication.sol";
+
+// Public decryption of a program's award results, linked like EligibilityRules to keep the
+// scholarship contract under the code size limit. The contract checks who may call and
+// when; this library only touches the handles and cleartexts.
+library AwardDecryption {
+    // Checks that every application still in the running was processed, then marks the program's award count
+    // and amount awarded publicly decryptable and returns their handles. Decisions are
+    // left alone: the aggregates reveal nobody's individual outcome.
+    function requestResults(
+        Scholarship.ScholarshipProgram storage _program,
+        uint256[] storage _applicationIds,
+        mapping(uint256 => Scholarship.Application) storage _applications
+    ) public returns (bytes32[] memory handles) {
+        for (uint256 i = 0; i < _applicationIds.length; i++) {
+            Scholarship.Application storage app = _applications[_applicationIds[i]];
+            require(app.processed || app.withdrawn || app.disqualified, "Unprocessed applications");
+        }
+        FHE.makePubliclyDecryptable(_program.awardCount);
+        FHE.makePubliclyDecryptable(_program.awardedAmount);
+
+        handles = new bytes32[](2);
+        handles[0] = FHE.toBytes32(_program.awardCount);
+        handles[1] = FHE.toBytes32(_program.awardedAmount);
+    }
+
+    // Reverts unless the KMS proof covers exactly the requested handles, then records
+    // the cleartexts on the request
+    function publishResults(
+        Scholarship.AwardPublication storage _request,
+        bytes calldata _abiEncodedCleartexts,
+        bytes calldata _decryptionProof
+    ) public {
+        require(_abiEncodedCleartexts.length == _request.handles.length * 32, "Invalid cleartexts");
+        FHE.checkSignatures(_request.handles, _abiEncodedCleartexts, _decryptionProof);
+
+        (_request.awardCount, _request.awardedAmount) = abi.decode(_abiEncodedCleartexts, (uint32, uint64));
+    }
+}
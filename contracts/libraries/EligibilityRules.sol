@@ -0,0 +1,142 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint16, euint32, ebool, externalEbool, externalEuint16, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { AnonymousScholarshipApplication as Scholarship } from "../ScholarshipApplication.sol";
+
+// Program eligibility rules and the encrypted thresholds and application inputs they
+// are evaluated over: validation, storage and homomorphic evaluation. The functions
+// are public, so the library is deployed once and linked instead of being inlined,
+// which keeps the scholarship contract under the 24 KiB code size limit. It runs by
+// DELEGATECALL: results belong to, and are allowed for, the calling contract.
+library EligibilityRules {
+    // Validates a new program's rule and stores it with the encrypted thresholds, which
+    // stay encrypted so applicants cannot tune their inputs to them. The administrator
+    // (`msg.sender`) may decrypt the thresholds.
+    function configure(
+        Scholarship.ScholarshipProgram storage _program,
+        Scholarship.RuleNode[] storage _stored,
+        Scholarship.RuleNode[] calldata _rule,
+        externalEuint16 _minGpa,
+        externalEuint32 _maxHouseholdIncome,
+        bytes calldata _inputProof
+    ) public {
+        _validate(_rule, _program.criteriaCount);
+        for (uint256 i = 0; i < _rule.length; i++) {
+            _stored.push(_rule[i]);
+        }
+
+        euint16 minGpa = FHE.fromExternal(_minGpa, _inputProof);
+        euint32 maxHouseholdIncome = FHE.fromExternal(_maxHouseholdIncome, _inputProof);
+        FHE.allowThis(minGpa);
+        FHE.allowThis(maxHouseholdIncome);
+        FHE.allow(minGpa, msg.sender);
+        FHE.allow(maxHouseholdIncome, msg.sender);
+        _program.minGpa = minGpa;
+        _program.maxHouseholdIncome = maxHouseholdIncome;
+    }
+
+    function _validate(Scholarship.RuleNode[] calldata _rule, uint8 _criteriaCount) private pure {
+        // Replay the postfix evaluation on operand counts only; an empty rule ends at depth zero
+        uint256 depth = 0;
+        for (uint256 i = 0; i < _rule.length; i++) {
+            Scholarship.RuleNode calldata node = _rule[i];
+            if (node.op == Scholarship.RuleOp.Criterion) {
+                require(node.index < _criteriaCount, "Invalid rule");
+                depth++;
+            } else if (node.op == Scholarship.RuleOp.MinGpa || node.op == Scholarship.RuleOp.MaxHouseholdIncome) {
+                depth++;
+            } else {
+                require(node.arity > 0 && node.arity <= depth, "Invalid rule");
+                require(node.op != Scholarship.RuleOp.AtLeast || node.threshold > 0, "Invalid rule");
+                depth = depth - node.arity + 1;
+            }
+        }
+        require(depth == 1, "Invalid rule");
+    }
+
+    // Verifies the encrypted inputs against their shared proof, stores them on the
+    // application and evaluates the program rule over them. The applicant may decrypt
+    // their inputs and the result; the administrator only the result.
+    function assess(
+        Scholarship.ScholarshipProgram storage _program,
+        Scholarship.RuleNode[] storage _rule,
+        Scholarship.Application storage _app,
+        externalEbool[] calldata _criteria,
+        externalEuint16 _gpa,
+        externalEuint32 _householdIncome,
+        bytes calldata _inputProof
+    ) public {
+        for (uint256 i = 0; i < _criteria.length; i++) {
+            ebool criterion = FHE.fromExternal(_criteria[i], _inputProof);
+            FHE.allowThis(criterion);
+            _app.criteria.push(criterion);
+        }
+        _app.gpa = FHE.fromExternal(_gpa, _inputProof);
+        _app.householdIncome = FHE.fromExternal(_householdIncome, _inputProof);
+        ebool isEligible = _evaluate(_program, _rule, _app);
+        _app.isEligible = isEligible;
+
+        FHE.allowThis(_app.gpa);
+        FHE.allowThis(_app.householdIncome);
+        FHE.allowThis(isEligible);
+        FHE.allow(_app.gpa, _app.applicant);
+        FHE.allow(_app.householdIncome, _app.applicant);
+        FHE.allow(isEligible, _app.applicant);
+        FHE.allow(isEligible, _program.administrator);
+    }
+
+    function _evaluate(
+        Scholarship.ScholarshipProgram storage _program,
+        Scholarship.RuleNode[] storage _rule,
+        Scholarship.Application storage _app
+    ) private returns (ebool) {
+        ebool[] memory stack = new ebool[](_rule.length);
+        uint8[] memory weights = new uint8[](_rule.length);
+        uint256 top = 0;
+
+        for (uint256 i = 0; i < _rule.length; i++) {
+            Scholarship.RuleNode memory node = _rule[i];
+            ebool value;
+            if (node.op == Scholarship.RuleOp.Criterion) {
+                value = _app.criteria[node.index];
+            } else if (node.op == Scholarship.RuleOp.MinGpa) {
+                value = FHE.ge(_app.gpa, _program.minGpa);
+            } else if (node.op == Scholarship.RuleOp.MaxHouseholdIncome) {
+                value = FHE.le(_app.householdIncome, _program.maxHouseholdIncome);
+            } else {
+                top -= node.arity;
+                value = _combine(node, stack, weights, top);
+            }
+            stack[top] = value;
+            weights[top] = node.weight;
+            top++;
+        }
+
+        return stack[0];
+    }
+
+    function _combine(
+        Scholarship.RuleNode memory _node,
+        ebool[] memory _operands,
+        uint8[] memory _weights,
+        uint256 _start
+    ) private returns (ebool result) {
+        uint256 end = _start + _node.arity;
+
+        if (_node.op == Scholarship.RuleOp.AtLeast) {
+            // Weighted count without branching on encrypted values
+            euint16 zero = FHE.asEuint16(0);
+            euint16 total = zero;
+            for (uint256 i = _start; i < end; i++) {
+                total = FHE.add(total, FHE.select(_operands[i], FHE.asEuint16(_weights[i]), zero));
+            }
+            return FHE.ge(total, _node.threshold);
+        }
+
+        result = _operands[_start];
+        for (uint256 i = _start + 1; i < end; i++) {
+            result = _node.op == Scholarship.RuleOp.AllOf ? FHE.and(result, _operands[i]) : FHE.or(result, _operands[i]);
+        }
+    }
+}
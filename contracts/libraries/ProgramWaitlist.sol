@@ -0,0 +1,63 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { AnonymousScholarshipApplication as Scholarship } from "../ScholarshipApplication.sol";
+
+// Waitlist promotion and positions, linked like EligibilityRules to keep the scholarship
+// contract under the code size limit. The contract decides whether the waitlist is still
+// open; this library walks it from its head.
+library ProgramWaitlist {
+    using FHE for ebool;
+
+    // Admits entries from `_head` on, oldest first, while the program has room, and returns
+    // the new head. Entries withdrawn while waiting are skipped.
+    // The eligibility result is granted to the administrator again on promotion, as the
+    // program may have changed hands since the application was submitted.
+    function promote(
+        Scholarship.ScholarshipProgram storage _program,
+        uint256[] storage _listing,
+        uint256[] storage _waitlist,
+        mapping(uint256 => Scholarship.Application) storage _applications,
+        uint256 _head
+    ) public returns (uint256 head) {
+        head = _head;
+        while (head < _waitlist.length && _program.currentApplications < _program.maxApplications) {
+            uint256 applicationId = _waitlist[head++];
+            Scholarship.Application storage app = _applications[applicationId];
+            if (app.waitlisted) {
+                app.waitlisted = false;
+                app.isEligible.allow(_program.administrator);
+                _listing.push(applicationId);
+                _program.currentApplications++;
+                emit Scholarship.ApplicationPromoted(applicationId, app.programId);
+            }
+        }
+    }
+
+    // Backs getWaitlistPosition: the 1-based place of `_applicationId` among the entries
+    // still waiting from `_head` on, asked by its applicant. `_closed` is whether the
+    // waitlist closed.
+    function position(
+        mapping(uint256 => Scholarship.Application) storage _applications,
+        uint256[] storage _waitlist,
+        uint256 _head,
+        uint256 _applicationId,
+        bool _closed
+    ) public view returns (uint256 place) {
+        Scholarship.Application storage app = _applications[_applicationId];
+        require(app.applicant == msg.sender, "Not authorized");
+        if (!app.waitlisted) {
+            return 0;
+        }
+        require(!_closed, "Waitlist closed");
+        for (uint256 i = _head; ; i++) {
+            if (_applications[_waitlist[i]].waitlisted) {
+                place++;
+            }
+            if (_waitlist[i] == _applicationId) {
+                return place;
+            }
+        }
+    }
+}
@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint16, ebool } from "@fhevm/solidity/lib/FHE.sol";
+
+// Encrypted arithmetic behind top-K selection, linked like EligibilityRules to keep
+// the scholarship contract under the code size limit. The contract keeps the
+// handles and grants access to them; results here are only allowed transiently.
+library SelectionRanking {
+    using FHE for euint16;
+    using FHE for ebool;
+
+    // Ineligible applications rank below every eligible one: their key is zero,
+    // while eligible applications rank by total score plus one
+    function deriveKey(ebool _isEligible, euint16 _totalScore) public returns (euint16 key, euint16 rank) {
+        euint16 score = FHE.isInitialized(_totalScore) ? _totalScore : FHE.asEuint16(0);
+        key = FHE.select(_isEligible, score.add(FHE.asEuint16(1)), FHE.asEuint16(0));
+        rank = FHE.asEuint16(0);
+    }
+
+    // The earlier application in the program's listing, which is the earlier submission,
+    // wins ties, so ranks are a strict order
+    function comparePair(
+        euint16 _earlierKey,
+        euint16 _laterKey,
+        euint16 _earlierRank,
+        euint16 _laterRank
+    ) public returns (euint16 earlierRank, euint16 laterRank) {
+        ebool earlierWins = _earlierKey.ge(_laterKey);
+        earlierRank = _earlierRank.add(FHE.asEuint16(earlierWins.not()));
+        laterRank = _laterRank.add(FHE.asEuint16(earlierWins));
+    }
+
+    function isSelected(ebool _isEligible, euint16 _rank, uint16 _k) public returns (ebool) {
+        return FHE.and(_isEligible, _rank.lt(FHE.asEuint16(_k)));
+    }
+}
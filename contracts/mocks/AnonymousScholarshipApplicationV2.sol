@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { AnonymousScholarshipApplication } from "../ScholarshipApplication.sol";
+
+// Upgrade target for the proxy tests: appends state after the existing layout
+// and sets it in a reinitializer run by the upgrade
+contract AnonymousScholarshipApplicationV2 is AnonymousScholarshipApplication {
+    uint256 public upgradedAt;
+
+    function initializeV2() external reinitializer(2) {
+        upgradedAt = block.timestamp;
+    }
+}
@@ -0,0 +1,8 @@
+import { deployExamples } from "../utils/deployExamples";
+
+const func = deployExamples("Access Control", [{ name: "AccessControl", view: "recordCount" }]);
+
+func.tags = ["access-control", "examples", "AccessControl"];
+func.id = "deploy_access_control";
+
+export default func;
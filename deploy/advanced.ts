@@ -0,0 +1,8 @@
+import { deployExamples } from "../utils/deployExamples";
+
+const func = deployExamples("Advanced", [{ name: "BlindAuction", view: "auctionCount" }]);
+
+func.tags = ["advanced", "examples", "BlindAuction"];
+func.id = "deploy_advanced";
+
+export default func;
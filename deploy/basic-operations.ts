@@ -0,0 +1,12 @@
+import { deployExamples } from "../utils/deployExamples";
+
+const func = deployExamples("Basic Operations", [
+  { name: "FHECounter", view: "getCount" },
+  { name: "Arithmetic" },
+  { name: "Equality" },
+]);
+
+func.tags = ["basic-operations", "examples", "FHECounter", "Arithmetic", "Equality"];
+func.id = "deploy_basic_operations";
+
+export default func;
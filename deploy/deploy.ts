@@ -1,64 +1,89 @@
-import { DeployFunction } from "hardhat-deploy/types";
-import type { HardhatRuntimeEnvironment } from "hardhat/types";
-
-const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
-  const { deployer } = await hre.getNamedAccounts();
-  const { deploy } = hre.deployments;
-
-  console.log("\n" + "=".repeat(60));
-  console.log("Deploying AnonymousScholarshipApplication Contract");
-  console.log("=".repeat(60) + "\n");
-
-  console.log(`Deployer address: ${deployer}`);
-  console.log(`Network: ${hre.network.name}`);
-
-  const deployment = await deploy("AnonymousScholarshipApplication", {
-    from: deployer,
-    args: [],
-    log: true,
-    waitConfirmations: hre.network.name === "sepolia" ? 6 : 1,
-  });
-
-  console.log("\n" + "✅ ".repeat(30));
-  console.log(`✅ Contract deployed successfully!`);
-  console.log(`✅ Address: ${deployment.address}`);
-  console.log(`✅ Transaction: ${deployment.transactionHash}`);
-  console.log("✅ ".repeat(30) + "\n");
-
-  // Verify on Etherscan if on Sepolia
-  if (hre.network.name === "sepolia") {
-    console.log("Waiting for block confirmations before verification...");
-
-    try {
-      await hre.run("verify:verify", {
-        address: deployment.address,
-        constructorArguments: [],
-      });
-      console.log("✅ Contract verified on Etherscan");
-    } catch (error) {
-      console.log("Note: Contract verification skipped or failed");
-      console.log("You can verify manually with:");
-      console.log(`npx hardhat verify --network sepolia ${deployment.address}`);
-    }
-  }
-
-  console.log("\nDeployment Summary:");
-  console.log("━".repeat(60));
-  console.log(`Contract Name: AnonymousScholarshipApplication`);
-  console.log(`Contract Address: ${deployment.address}`);
-  console.log(`Network: ${hre.network.name}`);
-  console.log(`Deployer: ${deployer}`);
-  console.log(`Gas Used: ${deployment.receipt?.gasUsed?.toString() || "N/A"}`);
-  console.log("━".repeat(60) + "\n");
-
-  console.log("Next steps:");
-  console.log("1. Save the contract address for your frontend");
-  console.log("2. Create scholarship programs using createProgram()");
-  console.log("3. Test application submission with submitApplication()");
-  console.log("4. Monitor events for ApplicationSubmitted\n");
-};
-
-func.tags = ["AnonymousScholarshipApplication", "scholarship"];
-func.id = "deploy_scholarship_application";
-
-export default func;
+import { DeployFunction } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { manifestPath, writeDeploymentManifest } from "../tasks/manifest";
+import { SCHOLARSHIP_PROXY, checkUpgrade, deployScholarshipLibraries } from "../tasks/upgrade";
+import { smokeCheck } from "../utils/deployExamples";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  console.log("\n" + "=".repeat(60));
+  console.log("Deploying AnonymousScholarshipApplication Contract");
+  console.log("=".repeat(60) + "\n");
+
+  console.log(`Deployer address: ${deployer}`);
+  console.log(`Network: ${hre.network.name}`);
+
+  // Redeploying changed code upgrades the proxy, so refuse layouts that would corrupt its storage
+  const previous = await checkUpgrade(hre, "AnonymousScholarshipApplication");
+  if (previous) {
+    console.log(`Upgrading from the implementation at ${previous.implementation}`);
+  }
+
+  // Rule evaluation, selection ranking and award decryption live in linked libraries
+  // to keep the contract under the 24 KiB code size limit
+  const libraries = await deployScholarshipLibraries(hre, deployer);
+  const deployment = await deploy("AnonymousScholarshipApplication", {
+    from: deployer,
+    args: [],
+    log: true,
+    waitConfirmations: hre.network.name === "sepolia" ? 6 : 1,
+    proxy: SCHOLARSHIP_PROXY,
+    libraries,
+  });
+
+  console.log("\n" + "✅ ".repeat(30));
+  console.log(`✅ Contract deployed successfully!`);
+  console.log(`✅ Address: ${deployment.address}`);
+  console.log(`✅ Implementation: ${deployment.implementation}`);
+  console.log(`✅ Transaction: ${deployment.transactionHash}`);
+  console.log("✅ ".repeat(30) + "\n");
+
+  console.log(`✅ ${await smokeCheck(hre, "AnonymousScholarshipApplication", "programCount")}\n`);
+
+  // The in-process network's deployments vanish with it, so only real networks get a manifest
+  if (hre.network.name !== "hardhat") {
+    await writeDeploymentManifest(hre, ["AnonymousScholarshipApplication"]);
+    console.log(`Manifest: ${manifestPath(hre.network.name)}\n`);
+  }
+
+  // Verify on Etherscan if on Sepolia
+  if (hre.network.name === "sepolia") {
+    console.log("Waiting for block confirmations before verification...");
+
+    try {
+      await hre.run("verify:verify", {
+        address: deployment.implementation,
+        constructorArguments: [],
+        libraries,
+      });
+      console.log("✅ Contract verified on Etherscan");
+    } catch (error) {
+      console.log("Note: Contract verification skipped or failed");
+      console.log("You can verify manually with:");
+      console.log(`npx hardhat verify --network sepolia ${deployment.implementation}`);
+    }
+  }
+
+  console.log("\nDeployment Summary:");
+  console.log("━".repeat(60));
+  console.log(`Contract Name: AnonymousScholarshipApplication`);
+  console.log(`Contract Address: ${deployment.address}`);
+  console.log(`Implementation: ${deployment.implementation}`);
+  console.log(`Network: ${hre.network.name}`);
+  console.log(`Deployer: ${deployer}`);
+  console.log(`Gas Used: ${deployment.receipt?.gasUsed?.toString() || "N/A"}`);
+  console.log("━".repeat(60) + "\n");
+
+  console.log("Next steps:");
+  console.log("1. Commit the manifest; the frontend and tasks load the address and ABI from it");
+  console.log("2. Create scholarship programs using createProgram()");
+  console.log("3. Test application submission with submitApplication()");
+  console.log("4. Monitor events for ApplicationSubmitted\n");
+};
+
+func.tags = ["AnonymousScholarshipApplication", "scholarship"];
+func.id = "deploy_scholarship_application";
+
+export default func;
@@ -0,0 +1,11 @@
+import { deployExamples } from "../utils/deployExamples";
+
+const func = deployExamples("Encryption", [
+  { name: "EncryptSingleValue", view: "getEncryptedValue" },
+  { name: "EncryptMultipleValues", view: "recordCount" },
+]);
+
+func.tags = ["encryption", "examples", "EncryptSingleValue", "EncryptMultipleValues"];
+func.id = "deploy_encryption";
+
+export default func;
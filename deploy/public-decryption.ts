@@ -0,0 +1,11 @@
+import { deployExamples } from "../utils/deployExamples";
+
+const func = deployExamples("Public Decryption", [
+  { name: "PublicDecryptSingleValue", view: "resultCount" },
+  { name: "PublicDecryptMultipleValues", view: "taxRecords", args: ["0x0000000000000000000000000000000000000000"] },
+]);
+
+func.tags = ["public-decryption", "decryption", "examples", "PublicDecryptSingleValue", "PublicDecryptMultipleValues"];
+func.id = "deploy_public_decryption";
+
+export default func;
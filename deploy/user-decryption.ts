@@ -0,0 +1,11 @@
+import { deployExamples } from "../utils/deployExamples";
+
+const func = deployExamples("User Decryption", [
+  { name: "UserDecryptSingleValue", view: "recordCount" },
+  { name: "UserDecryptMultipleValues", view: "profileExists" },
+]);
+
+func.tags = ["user-decryption", "decryption", "examples", "UserDecryptSingleValue", "UserDecryptMultipleValues"];
+func.id = "deploy_user_decryption";
+
+export default func;
@@ -0,0 +1,378 @@
+import { createServer } from "node:http";
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Block, Log, Provider } from "ethers";
+import { AnonymousScholarshipApplication } from "../types";
+import type { IndexedProgram, IndexerStatus, ProcessingRecord, ProgramStatus } from "../sdk";
+import { IndexerStore } from "./IndexerStore";
+import type { IndexedEvent } from "./IndexerStore";
+
+export interface EventIndexerOptions {
+  /** Interface to listen on. Defaults to 127.0.0.1; the indexer is meant to stay local. */
+  host?: string;
+  /** Port to listen on. Defaults to 0, which picks a free port. */
+  port?: number;
+  /** JSON file the index is kept in, so a restart resumes where it stopped. Defaults to memory only. */
+  storePath?: string;
+  /** First block to index, normally the contract's deploy block. Defaults to 0. */
+  startBlock?: number;
+  /** Blocks read per `eth_getLogs` call. Defaults to 2000. */
+  batchSize?: number;
+  /** Delay between polls for new blocks. Defaults to 1000 ms. */
+  pollIntervalMs?: number;
+}
+
+const EVENTS = [
+  "ProgramCreated",
+  "ProgramUpdated",
+  "ProgramStatusChanged",
+  "ProgramAdministrationTransferred",
+  "ApplicationSubmitted",
+  "ApplicationWithdrawn",
+  "ApplicationWaitlisted",
+  "ApplicationPromoted",
+  "ApplicationDisqualified",
+  "ApplicationProcessed",
+] as const;
+
+/**
+ * @title EventIndexer
+ * @notice Follows program creation, edits, status changes and administrator transfers, and
+ * applications being submitted, waitlisted, promoted, withdrawn, disqualified and
+ * processed, into an `IndexerStore` and serves them over a local HTTP JSON API
+ * @dev Endpoints:
+ *   GET /status                 contract, chain id and last indexed block
+ *   GET /programs               every program with its application, waitlist and processed counts
+ *   GET /programs/:id           one program
+ *   GET /programs/:id/history   the program's processed applications, oldest first
+ *
+ * Every sync first checks the hash of the last indexed block. When it left the chain,
+ * the store is rolled back to the most recent block still on it and re-indexed from there.
+ * Applicant addresses are not served: the contract only shows them to the applicant
+ * and the program administrator.
+ */
+export class EventIndexer {
+  private readonly contract: AnonymousScholarshipApplication;
+  private readonly provider: Provider;
+  private readonly options: EventIndexerOptions;
+  private store?: IndexerStore;
+  private queue: Promise<unknown> = Promise.resolve();
+  private lastError?: string;
+  private server?: Server;
+  private timer?: NodeJS.Timeout;
+
+  constructor(contract: AnonymousScholarshipApplication, options: EventIndexerOptions = {}) {
+    if (!contract.runner?.provider) {
+      throw new Error("EventIndexer needs a contract connected to a provider");
+    }
+    this.contract = contract;
+    this.provider = contract.runner.provider;
+    this.options = options;
+  }
+
+  /**
+   * Catches up with the chain, starts polling for new blocks and starts listening.
+   * Returns the base URL.
+   */
+  async start(): Promise<string> {
+    await this.sync();
+
+    const server = createServer((request, response) => {
+      this.handle(request, response).catch((error: unknown) => {
+        this.reply(response, 500, { error: error instanceof Error ? error.message : String(error) });
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port ?? 0, this.options.host ?? "127.0.0.1", () => resolve());
+    });
+    this.server = server;
+    this.schedule();
+
+    const { address, port } = server.address() as AddressInfo;
+    return `http://${address}:${port}`;
+  }
+
+  /**
+   * Stops polling and listening, and waits for a sync in progress to finish.
+   */
+  async stop(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      const closed = new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+      server.closeIdleConnections();
+      await closed;
+    }
+    await this.queue.catch(() => undefined);
+  }
+
+  /**
+   * Undoes blocks that left the chain, then indexes every block up to the latest.
+   * Returns the last indexed block. Calls are serialized.
+   */
+  async sync(): Promise<number> {
+    const run = this.queue.catch(() => undefined).then(() => this.catchUp());
+    this.queue = run;
+    try {
+      const head = await run;
+      this.lastError = undefined;
+      return head;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    }
+  }
+
+  async status(): Promise<IndexerStatus> {
+    const store = await this.open();
+    return {
+      contract: store.contract,
+      chainId: store.chainId,
+      block: store.head,
+      ...(this.lastError ? { error: this.lastError } : {}),
+    };
+  }
+
+  async listPrograms(): Promise<IndexedProgram[]> {
+    return (await this.open()).programs();
+  }
+
+  async getProgram(programId: string): Promise<IndexedProgram | undefined> {
+    return (await this.open()).program(programId);
+  }
+
+  async getProcessingHistory(programId: string): Promise<ProcessingRecord[] | undefined> {
+    const store = await this.open();
+    return store.program(programId) && store.history(programId);
+  }
+
+  private async open(): Promise<IndexerStore> {
+    if (!this.store) {
+      const [network, address] = await Promise.all([this.provider.getNetwork(), this.contract.getAddress()]);
+      this.store = IndexerStore.open(
+        this.options.storePath,
+        network.chainId.toString(),
+        address,
+        this.options.startBlock ?? 0
+      );
+    }
+    return this.store;
+  }
+
+  private schedule() {
+    this.timer = setTimeout(() => {
+      this.sync()
+        .catch(() => undefined)
+        .finally(() => {
+          if (this.server) {
+            this.schedule();
+          }
+        });
+    }, this.options.pollIntervalMs ?? 1000);
+  }
+
+  private async catchUp(): Promise<number> {
+    const store = await this.open();
+    await this.unwind(store);
+
+    const latest = await this.provider.getBlockNumber();
+    const batchSize = this.options.batchSize ?? 2000;
+    while (store.head < latest) {
+      const fromBlock = store.head + 1;
+      const toBlock = Math.min(latest, fromBlock + batchSize - 1);
+      if (!(await this.indexRange(store, fromBlock, toBlock))) {
+        // The chain changed under this batch; the next sync unwinds it
+        break;
+      }
+    }
+    return store.head;
+  }
+
+  /**
+   * Rolls the store back to the most recent tracked block still on the chain. When none
+   * of them is, everything is re-indexed.
+   */
+  private async unwind(store: IndexerStore) {
+    const tracked = store.trackedBlocks();
+    for (const blockNumber of tracked) {
+      const block = await this.provider.getBlock(blockNumber);
+      if (block?.hash === store.blockHash(blockNumber)) {
+        if (blockNumber < store.head) {
+          store.rollback(blockNumber);
+        }
+        return;
+      }
+    }
+    if (tracked.length > 0) {
+      store.rollback(-1);
+    }
+  }
+
+  /**
+   * Indexes `[fromBlock, toBlock]` in one step. Returns false, storing nothing, when a
+   * log's block is no longer on the chain by the time its header is read.
+   */
+  private async indexRange(store: IndexerStore, fromBlock: number, toBlock: number): Promise<boolean> {
+    const headers = new Map<number, Block>();
+    const header = async (blockNumber: number) => {
+      if (!headers.has(blockNumber)) {
+        const block = await this.provider.getBlock(blockNumber);
+        if (!block?.hash) {
+          return undefined;
+        }
+        headers.set(blockNumber, block);
+      }
+      return headers.get(blockNumber);
+    };
+
+    if (!(await header(toBlock))) {
+      return false;
+    }
+    const topics = EVENTS.map((name) => this.contract.interface.getEvent(name).topicHash);
+    const logs = await this.provider.getLogs({
+      address: await this.contract.getAddress(),
+      fromBlock,
+      toBlock,
+      topics: [topics],
+    });
+
+    const programs = new Map<string, string>();
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      const block = await header(log.blockNumber);
+      if (block?.hash !== log.blockHash) {
+        return false;
+      }
+      const event = this.toEvent(
+        log,
+        block.timestamp,
+        (applicationId) => programs.get(applicationId) ?? store.programOf(applicationId)
+      );
+      if (event.name === "ApplicationSubmitted") {
+        programs.set(event.applicationId, event.programId);
+      }
+      events.push(event);
+    }
+
+    const hashes = new Map([...headers].map(([blockNumber, block]) => [blockNumber, block.hash!]));
+    store.append(events, hashes, toBlock);
+    return true;
+  }
+
+  private toEvent(log: Log, timestamp: number, programOf: (applicationId: string) => string | undefined): IndexedEvent {
+    const parsed = this.contract.interface.parseLog(log)!;
+    const position = {
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      timestamp,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+    };
+
+    switch (parsed.name) {
+      case "ProgramCreated":
+        return {
+          ...position,
+          name: "ProgramCreated",
+          programId: parsed.args.programId.toString(),
+          programName: parsed.args.name,
+          administrator: parsed.args.administrator,
+        };
+      case "ProgramUpdated":
+        return {
+          ...position,
+          name: "ProgramUpdated",
+          programId: parsed.args.programId.toString(),
+          programName: parsed.args.name,
+          description: parsed.args.description,
+          maxApplications: parsed.args.maxApplications.toString(),
+        };
+      case "ProgramStatusChanged":
+        return {
+          ...position,
+          name: "ProgramStatusChanged",
+          programId: parsed.args.programId.toString(),
+          status: Number(parsed.args.status) as ProgramStatus,
+        };
+      case "ProgramAdministrationTransferred":
+        return {
+          ...position,
+          name: "ProgramAdministrationTransferred",
+          programId: parsed.args.programId.toString(),
+          administrator: parsed.args.administrator,
+        };
+      case "ApplicationSubmitted":
+        return {
+          ...position,
+          name: "ApplicationSubmitted",
+          programId: parsed.args.programId.toString(),
+          applicationId: parsed.args.applicationId.toString(),
+        };
+      case "ApplicationWithdrawn":
+        return {
+          ...position,
+          name: "ApplicationWithdrawn",
+          programId: parsed.args.programId.toString(),
+          applicationId: parsed.args.applicationId.toString(),
+        };
+      case "ApplicationWaitlisted":
+        return {
+          ...position,
+          name: "ApplicationWaitlisted",
+          programId: parsed.args.programId.toString(),
+          applicationId: parsed.args.applicationId.toString(),
+        };
+      case "ApplicationPromoted":
+        return {
+          ...position,
+          name: "ApplicationPromoted",
+          programId: parsed.args.programId.toString(),
+          applicationId: parsed.args.applicationId.toString(),
+        };
+      case "ApplicationDisqualified":
+        return {
+          ...position,
+          name: "ApplicationDisqualified",
+          programId: parsed.args.programId.toString(),
+          applicationId: parsed.args.applicationId.toString(),
+        };
+      default: {
+        const applicationId = parsed.args.applicationId.toString();
+        return { ...position, name: "ApplicationProcessed", programId: programOf(applicationId) ?? "0", applicationId };
+      }
+    }
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse) {
+    const path = (request.url ?? "/").split("?")[0];
+    if (request.method !== "GET") {
+      return this.reply(response, 405, { error: "Method not allowed" });
+    }
+
+    if (path === "/status") {
+      return this.reply(response, 200, await this.status());
+    }
+    if (path === "/programs") {
+      return this.reply(response, 200, await this.listPrograms());
+    }
+
+    const match = path.match(/^\/programs\/([^/]+)(\/history)?$/);
+    if (match) {
+      const programId = decodeURIComponent(match[1]);
+      const body = match[2] ? await this.getProcessingHistory(programId) : await this.getProgram(programId);
+      return body ? this.reply(response, 200, body) : this.reply(response, 404, { error: "Unknown program" });
+    }
+
+    return this.reply(response, 404, { error: "Not found" });
+  }
+
+  private reply(response: ServerResponse, statusCode: number, body: unknown) {
+    response.writeHead(statusCode, { "content-type": "application/json" });
+    response.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,243 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { ProgramStatus } from "../sdk";
+import type { IndexedProgram, ProcessingRecord } from "../sdk";
+
+/** Bumped whenever the stored layout changes; a store of another version is rebuilt. */
+export const STORE_VERSION = 5;
+
+/** How many of the most recent indexed blocks keep their hash for reorg detection. */
+export const TRACKED_BLOCKS = 256;
+
+export type IndexedEvent =
+  | (EventPosition & { name: "ProgramCreated"; programId: string; programName: string; administrator: string })
+  | (EventPosition & {
+      name: "ProgramUpdated";
+      programId: string;
+      programName: string;
+      description: string;
+      maxApplications: string;
+    })
+  | (EventPosition & { name: "ProgramStatusChanged"; programId: string; status: ProgramStatus })
+  | (EventPosition & { name: "ProgramAdministrationTransferred"; programId: string; administrator: string })
+  | (EventPosition & { name: "ApplicationSubmitted"; programId: string; applicationId: string })
+  | (EventPosition & { name: "ApplicationWithdrawn"; programId: string; applicationId: string })
+  | (EventPosition & { name: "ApplicationWaitlisted"; programId: string; applicationId: string })
+  | (EventPosition & { name: "ApplicationPromoted"; programId: string; applicationId: string })
+  | (EventPosition & { name: "ApplicationDisqualified"; programId: string; applicationId: string })
+  | (EventPosition & { name: "ApplicationProcessed"; programId: string; applicationId: string });
+
+export interface EventPosition {
+  blockNumber: number;
+  blockHash: string;
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+interface StoreState {
+  version: number;
+  chainId: string;
+  contract: string;
+  /** Last block indexed. */
+  head: number;
+  /** Block number => hash, for the most recent blocks indexed. */
+  blocks: Record<string, string>;
+  events: IndexedEvent[];
+}
+
+/**
+ * @title IndexerStore
+ * @notice Embedded store of the events an `EventIndexer` has followed, kept in one JSON
+ * file that is rewritten atomically after every change
+ * @dev The store only holds events and the hashes of recent blocks; programs, counts
+ * and histories are derived from the events when queried. A file written for another
+ * chain, contract or store version is discarded and indexing starts over.
+ */
+export class IndexerStore {
+  private readonly file?: string;
+  private readonly startBlock: number;
+  private state: StoreState;
+
+  private constructor(file: string | undefined, startBlock: number, state: StoreState) {
+    this.file = file;
+    this.startBlock = startBlock;
+    this.state = state;
+  }
+
+  /**
+   * Loads the store kept in `file`, or starts an empty one indexing from `startBlock`.
+   * Without a file the store lives in memory only.
+   */
+  static open(file: string | undefined, chainId: string, contract: string, startBlock: number): IndexerStore {
+    const empty: StoreState = {
+      version: STORE_VERSION,
+      chainId,
+      contract: contract.toLowerCase(),
+      head: startBlock - 1,
+      blocks: {},
+      events: [],
+    };
+    if (!file || !existsSync(file)) {
+      return new IndexerStore(file, startBlock, empty);
+    }
+
+    const stored = JSON.parse(readFileSync(file, "utf8")) as StoreState;
+    const matches =
+      stored.version === STORE_VERSION && stored.chainId === chainId && stored.contract === empty.contract;
+    return new IndexerStore(file, startBlock, matches ? stored : empty);
+  }
+
+  get chainId(): string {
+    return this.state.chainId;
+  }
+
+  get contract(): string {
+    return this.state.contract;
+  }
+
+  /** Last block indexed, or one before the start block when nothing has been indexed. */
+  get head(): number {
+    return this.state.head;
+  }
+
+  blockHash(blockNumber: number): string | undefined {
+    return this.state.blocks[blockNumber];
+  }
+
+  /** Block numbers with a known hash, most recent first. */
+  trackedBlocks(): number[] {
+    return Object.keys(this.state.blocks)
+      .map(Number)
+      .sort((a, b) => b - a);
+  }
+
+  /**
+   * Adds the events of the blocks up to `head` and the hashes of the blocks they were
+   * read from, then saves.
+   */
+  append(events: IndexedEvent[], blocks: Map<number, string>, head: number) {
+    this.state.events.push(...events);
+    for (const [blockNumber, hash] of blocks) {
+      this.state.blocks[blockNumber] = hash;
+    }
+    for (const blockNumber of this.trackedBlocks().slice(TRACKED_BLOCKS)) {
+      delete this.state.blocks[blockNumber];
+    }
+    this.state.head = head;
+    this.save();
+  }
+
+  /**
+   * Forgets everything after `blockNumber`, which left the canonical chain, then saves.
+   * Rolling back past the start block empties the store.
+   */
+  rollback(blockNumber: number) {
+    const head = Math.max(blockNumber, this.startBlock - 1);
+    this.state.events = this.state.events.filter((event) => event.blockNumber <= head);
+    for (const tracked of this.trackedBlocks()) {
+      if (tracked > head) {
+        delete this.state.blocks[tracked];
+      }
+    }
+    this.state.head = head;
+    this.save();
+  }
+
+  /** Program an already indexed application was submitted to. */
+  programOf(applicationId: string): string | undefined {
+    const submitted = this.state.events.find(
+      (event) => event.name === "ApplicationSubmitted" && event.applicationId === applicationId
+    );
+    return submitted?.programId;
+  }
+
+  programs(): IndexedProgram[] {
+    const programs = new Map<string, IndexedProgram>();
+    // Applications still waiting; leaving the waitlist does not free a place
+    const waiting = new Set<string>();
+    for (const event of this.state.events) {
+      if (event.name === "ProgramCreated") {
+        programs.set(event.programId, {
+          programId: event.programId,
+          name: event.programName,
+          // Set by the ProgramUpdated event createProgram emits next
+          description: "",
+          maxApplications: "0",
+          status: ProgramStatus.Open,
+          administrator: event.administrator,
+          blockNumber: event.blockNumber,
+          createdAt: event.timestamp,
+          transactionHash: event.transactionHash,
+          applicationCount: 0,
+          waitlistCount: 0,
+          processedCount: 0,
+        });
+      }
+      const program = programs.get(event.programId);
+      if (program && event.name === "ProgramUpdated") {
+        program.name = event.programName;
+        program.description = event.description;
+        program.maxApplications = event.maxApplications;
+      }
+      if (program && event.name === "ProgramStatusChanged") {
+        program.status = event.status;
+      }
+      if (program && event.name === "ProgramAdministrationTransferred") {
+        program.administrator = event.administrator;
+      }
+      if (program && event.name === "ApplicationSubmitted") {
+        program.applicationCount++;
+      }
+      if (program && event.name === "ApplicationWaitlisted") {
+        waiting.add(event.applicationId);
+        program.applicationCount--;
+        program.waitlistCount++;
+      }
+      if (program && event.name === "ApplicationPromoted") {
+        waiting.delete(event.applicationId);
+        program.applicationCount++;
+        program.waitlistCount--;
+      }
+      if (program && (event.name === "ApplicationWithdrawn" || event.name === "ApplicationDisqualified")) {
+        if (waiting.delete(event.applicationId)) {
+          program.waitlistCount--;
+        } else {
+          program.applicationCount--;
+        }
+      }
+      if (program && event.name === "ApplicationProcessed") {
+        program.processedCount++;
+      }
+    }
+    return [...programs.values()];
+  }
+
+  program(programId: string): IndexedProgram | undefined {
+    return this.programs().find((program) => program.programId === programId);
+  }
+
+  history(programId: string): ProcessingRecord[] {
+    return this.state.events
+      .filter(
+        (event): event is Extract<IndexedEvent, { name: "ApplicationProcessed" }> =>
+          event.name === "ApplicationProcessed" && event.programId === programId
+      )
+      .map((event) => ({
+        applicationId: event.applicationId,
+        blockNumber: event.blockNumber,
+        processedAt: event.timestamp,
+        transactionHash: event.transactionHash,
+      }));
+  }
+
+  private save() {
+    if (!this.file) {
+      return;
+    }
+    mkdirSync(path.dirname(this.file), { recursive: true });
+    const temporary = `${this.file}.tmp`;
+    writeFileSync(temporary, JSON.stringify(this.state));
+    renameSync(temporary, this.file);
+  }
+}
@@ -0,0 +1,41 @@
+import path from "node:path";
+import hre, { ethers } from "hardhat";
+import { resolveDeployment } from "../tasks/manifest";
+import { AnonymousScholarshipApplication__factory } from "../types";
+import { EventIndexer } from "./EventIndexer";
+
+/**
+ * Runs the local event indexer against a deployed contract:
+ *
+ *   npx hardhat run indexer/index.ts --network localhost
+ *
+ * The contract address and first block come from CONTRACT_ADDRESS and INDEXER_START_BLOCK
+ * or the network's deployment manifest, the port from INDEXER_PORT (default 8788). The
+ * index is kept in INDEXER_STORE (default cache/indexer/<network>.json), so a restart
+ * resumes from the last indexed block.
+ */
+async function main() {
+  const deployment = await resolveDeployment(hre, "AnonymousScholarshipApplication");
+  const address = process.env.CONTRACT_ADDRESS ?? deployment?.address;
+  if (!address) {
+    throw new Error(`AnonymousScholarshipApplication is not deployed on ${hre.network.name}; set CONTRACT_ADDRESS`);
+  }
+  const startBlock = Number(process.env.INDEXER_START_BLOCK ?? deployment?.deployBlock ?? 0);
+  const storePath =
+    process.env.INDEXER_STORE ?? path.join(hre.config.paths.cache, "indexer", `${hre.network.name}.json`);
+  const contract = AnonymousScholarshipApplication__factory.connect(address, ethers.provider);
+
+  const indexer = new EventIndexer(contract, { port: Number(process.env.INDEXER_PORT ?? 8788), storePath, startBlock });
+  const url = await indexer.start();
+  console.log(`Indexing ${address} from block ${startBlock} into ${storePath}`);
+  console.log(`Indexed up to block ${(await indexer.status()).block}`);
+  console.log(`Listening on ${url}`);
+
+  await new Promise<void>((resolve) => process.once("SIGINT", () => resolve()));
+  await indexer.stop();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,241 @@
+import { createServer } from "node:http";
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { ContractTransactionReceipt, ContractTransactionResponse, LogDescription, Signer } from "ethers";
+import { AnonymousScholarshipApplication } from "../types";
+import { toRelayedApplicationArgs, toScholarshipClientError } from "../sdk";
+import type { RelayedApplicationStatus, RelayerInfo, SignedRelayedApplication } from "../sdk";
+
+export interface ApplicationRelayerOptions {
+  /** Interface to listen on. Defaults to 127.0.0.1; the relayer is meant to stay local. */
+  host?: string;
+  /** Port to listen on. Defaults to 0, which picks a free port. */
+  port?: number;
+}
+
+type Job = {
+  status: RelayedApplicationStatus;
+  application: SignedRelayedApplication;
+};
+
+const MAX_BODY_BYTES = 256 * 1024;
+const STRING_FIELDS = [
+  "applicant",
+  "programId",
+  "gpa",
+  "householdIncome",
+  "inputProof",
+  "nonce",
+  "deadline",
+  "signature",
+];
+
+/**
+ * @title ApplicationRelayer
+ * @notice Local HTTP relayer that queues EIP-712 signed applications and posts them
+ * through `submitRelayedApplication`, paying the gas with its own signer
+ * @dev Endpoints:
+ *   GET  /info              relayer address, contract address and chain id
+ *   POST /applications      queue a `SignedRelayedApplication`; responds 202 with its status
+ *   GET  /applications/:id  status of a queued application
+ *
+ * Applications are posted one at a time in arrival order. A revert marks the
+ * application `failed` with the contract's error code; the relayer keeps going.
+ * A signature is refused while its application is queued or once it was posted,
+ * but may be sent again after a failure.
+ */
+export class ApplicationRelayer {
+  private readonly contract: AnonymousScholarshipApplication;
+  private readonly signer: Signer;
+  private readonly options: ApplicationRelayerOptions;
+  private readonly jobs = new Map<string, Job>();
+  private readonly signatures = new Set<string>();
+  private queue: Promise<void> = Promise.resolve();
+  private server?: Server;
+
+  constructor(contract: AnonymousScholarshipApplication, signer: Signer, options: ApplicationRelayerOptions = {}) {
+    this.contract = contract.connect(signer) as AnonymousScholarshipApplication;
+    this.signer = signer;
+    this.options = options;
+  }
+
+  /**
+   * Starts listening and returns the base URL.
+   */
+  async start(): Promise<string> {
+    const server = createServer((request, response) => {
+      this.handle(request, response).catch((error: unknown) => {
+        this.reply(response, 500, { error: error instanceof Error ? error.message : String(error) });
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port ?? 0, this.options.host ?? "127.0.0.1", () => resolve());
+    });
+    this.server = server;
+
+    const { address, port } = server.address() as AddressInfo;
+    return `http://${address}:${port}`;
+  }
+
+  /**
+   * Stops accepting requests and waits for queued applications to be posted.
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      const closed = new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+      server.closeIdleConnections();
+      await closed;
+    }
+    await this.idle();
+  }
+
+  /**
+   * Resolves once every application queued so far has been posted or has failed.
+   */
+  async idle(): Promise<void> {
+    await this.queue;
+  }
+
+  async info(): Promise<RelayerInfo> {
+    const [relayer, contract, network] = await Promise.all([
+      this.signer.getAddress(),
+      this.contract.getAddress(),
+      this.signer.provider!.getNetwork(),
+    ]);
+    return { relayer, contract, chainId: network.chainId.toString() };
+  }
+
+  /**
+   * Queues a signed application and returns its initial status.
+   */
+  enqueue(application: SignedRelayedApplication): RelayedApplicationStatus {
+    const id = String(this.jobs.size + 1);
+    const job: Job = { status: { id, state: "queued" }, application };
+    this.jobs.set(id, job);
+    this.signatures.add(application.signature.toLowerCase());
+    this.queue = this.queue.then(() => this.post(job));
+    return { ...job.status };
+  }
+
+  getStatus(id: string): RelayedApplicationStatus | undefined {
+    const job = this.jobs.get(id);
+    return job && { ...job.status };
+  }
+
+  private async post(job: Job) {
+    const { struct, signature } = toRelayedApplicationArgs(job.application);
+    let tx: ContractTransactionResponse;
+    let receipt: ContractTransactionReceipt | null;
+    try {
+      tx = await this.contract.submitRelayedApplication(struct, signature);
+      receipt = await tx.wait();
+    } catch (error) {
+      // Nothing was recorded on-chain, so the same signed application may be sent again
+      this.signatures.delete(job.application.signature.toLowerCase());
+      const { code, message } = toScholarshipClientError(error, "submitRelayedApplication");
+      job.status = { ...job.status, state: "failed", error: { code, message } };
+      return;
+    }
+
+    // The transaction went through, so the signature stays used even if the event is missing
+    const submitted = receipt ? this.findSubmittedEvent(receipt) : undefined;
+    if (!receipt || !submitted) {
+      job.status = {
+        ...job.status,
+        state: "failed",
+        transactionHash: tx.hash,
+        error: { code: "EVENT_NOT_FOUND", message: `ApplicationSubmitted event missing from transaction ${tx.hash}` },
+      };
+      return;
+    }
+    job.status = {
+      ...job.status,
+      state: "submitted",
+      applicationId: submitted.args.applicationId.toString(),
+      transactionHash: receipt.hash,
+    };
+  }
+
+  private findSubmittedEvent(receipt: ContractTransactionReceipt): LogDescription | undefined {
+    const address = String(this.contract.target).toLowerCase();
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== address) {
+        continue;
+      }
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === "ApplicationSubmitted") {
+        return parsed;
+      }
+    }
+    return undefined;
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse) {
+    const path = (request.url ?? "/").split("?")[0];
+
+    if (request.method === "GET" && path === "/info") {
+      return this.reply(response, 200, await this.info());
+    }
+
+    if (request.method === "POST" && path === "/applications") {
+      let application: SignedRelayedApplication;
+      try {
+        application = validateApplication(JSON.parse(await readBody(request)));
+      } catch (error) {
+        return this.reply(response, 400, { error: error instanceof Error ? error.message : String(error) });
+      }
+      if (this.signatures.has(application.signature.toLowerCase())) {
+        return this.reply(response, 409, { error: "Application already queued" });
+      }
+      return this.reply(response, 202, this.enqueue(application));
+    }
+
+    const match = path.match(/^\/applications\/([^/]+)$/);
+    if (request.method === "GET" && match) {
+      const status = this.getStatus(decodeURIComponent(match[1]));
+      return status ? this.reply(response, 200, status) : this.reply(response, 404, { error: "Unknown application" });
+    }
+
+    return this.reply(response, 404, { error: "Not found" });
+  }
+
+  private reply(response: ServerResponse, statusCode: number, body: unknown) {
+    response.writeHead(statusCode, { "content-type": "application/json" });
+    response.end(JSON.stringify(body));
+  }
+}
+
+async function readBody(request: IncomingMessage): Promise<string> {
+  let body = "";
+  for await (const chunk of request) {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) {
+      throw new Error("Request body too large");
+    }
+  }
+  return body;
+}
+
+/**
+ * Checks the shape of a posted application; the contract checks everything else.
+ */
+function validateApplication(body: unknown): SignedRelayedApplication {
+  if (typeof body !== "object" || body === null) {
+    throw new Error("Expected a JSON object");
+  }
+  const fields = body as Record<string, unknown>;
+  for (const field of STRING_FIELDS) {
+    if (typeof fields[field] !== "string") {
+      throw new Error(`Missing or invalid field: ${field}`);
+    }
+  }
+  if (!Array.isArray(fields.criteria) || !fields.criteria.every((handle) => typeof handle === "string")) {
+    throw new Error("Missing or invalid field: criteria");
+  }
+  return fields as unknown as SignedRelayedApplication;
+}
@@ -0,0 +1,36 @@
+import hre, { ethers } from "hardhat";
+import { resolveDeployment } from "../tasks/manifest";
+import { AnonymousScholarshipApplication__factory } from "../types";
+import { ApplicationRelayer } from "./ApplicationRelayer";
+
+/**
+ * Runs a local application relayer against a deployed contract:
+ *
+ *   npx hardhat run relayer/index.ts --network localhost
+ *
+ * The contract address comes from CONTRACT_ADDRESS or the network's deployment manifest,
+ * the port from RELAYER_PORT (default 8787). The first account pays for submissions.
+ */
+async function main() {
+  const [relayerSigner] = await ethers.getSigners();
+  const address =
+    process.env.CONTRACT_ADDRESS ?? (await resolveDeployment(hre, "AnonymousScholarshipApplication"))?.address;
+  if (!address) {
+    throw new Error(`AnonymousScholarshipApplication is not deployed on ${hre.network.name}; set CONTRACT_ADDRESS`);
+  }
+  const contract = AnonymousScholarshipApplication__factory.connect(address, relayerSigner);
+
+  const relayer = new ApplicationRelayer(contract, relayerSigner, { port: Number(process.env.RELAYER_PORT ?? 8787) });
+  const url = await relayer.start();
+  console.log(`Relaying applications to ${address} from ${relayerSigner.address}`);
+  console.log(`Listening on ${url}`);
+
+  await new Promise<void>((resolve) => process.once("SIGINT", () => resolve()));
+  console.log("Waiting for queued applications...");
+  await relayer.stop();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
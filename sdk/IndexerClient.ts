@@ -0,0 +1,56 @@
+import { ScholarshipClientError } from "./errors";
+import type { IndexedProgram, IndexerStatus, ProcessingRecord } from "./types";
+
+/**
+ * @title IndexerClient
+ * @notice HTTP client for an `EventIndexer` (see indexer/EventIndexer.ts)
+ * @dev Transport failures and non-2xx responses, including unknown programs, are
+ * raised as `ScholarshipClientError` with code `INDEXER_ERROR`.
+ */
+export class IndexerClient {
+  readonly url: string;
+
+  constructor(url: string) {
+    this.url = url.replace(/\/+$/, "");
+  }
+
+  async getStatus(): Promise<IndexerStatus> {
+    return this.request<IndexerStatus>("/status");
+  }
+
+  /**
+   * Every indexed program in creation order, with its application counts.
+   */
+  async listPrograms(): Promise<IndexedProgram[]> {
+    return this.request<IndexedProgram[]>("/programs");
+  }
+
+  async getProgram(programId: bigint | number | string): Promise<IndexedProgram> {
+    return this.request<IndexedProgram>(`/programs/${encodeURIComponent(String(programId))}`);
+  }
+
+  /**
+   * The program's processed applications, oldest first.
+   */
+  async getProcessingHistory(programId: bigint | number | string): Promise<ProcessingRecord[]> {
+    return this.request<ProcessingRecord[]>(`/programs/${encodeURIComponent(String(programId))}/history`);
+  }
+
+  private async request<T>(path: string): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.url}${path}`);
+    } catch (error) {
+      throw new ScholarshipClientError("INDEXER_ERROR", `GET ${path} failed: indexer unreachable`, { cause: error });
+    }
+
+    const payload = (await response.json().catch(() => ({}))) as T & { error?: string };
+    if (!response.ok) {
+      throw new ScholarshipClientError(
+        "INDEXER_ERROR",
+        `GET ${path} failed: ${payload.error ?? `HTTP ${response.status}`}`
+      );
+    }
+    return payload;
+  }
+}
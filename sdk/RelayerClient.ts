@@ -0,0 +1,88 @@
+import { ScholarshipClientError } from "./errors";
+import type { ScholarshipErrorCode } from "./errors";
+import type { RelayedApplicationStatus, RelayerInfo, SignedRelayedApplication } from "./types";
+
+export interface WaitForSubmissionOptions {
+  /** Delay between status polls. Defaults to 250 ms. */
+  intervalMs?: number;
+  /** Gives up after this long. Defaults to 30 s. */
+  timeoutMs?: number;
+}
+
+/**
+ * @title RelayerClient
+ * @notice HTTP client for an `ApplicationRelayer` (see relayer/ApplicationRelayer.ts)
+ * @dev Transport failures and non-2xx responses are raised as `ScholarshipClientError`
+ * with code `RELAYER_ERROR`; a failed submission carries the contract's error code.
+ */
+export class RelayerClient {
+  readonly url: string;
+
+  constructor(url: string) {
+    this.url = url.replace(/\/+$/, "");
+  }
+
+  async getInfo(): Promise<RelayerInfo> {
+    return this.request<RelayerInfo>("GET", "/info");
+  }
+
+  /**
+   * Queues a signed application. The returned status is `queued`; poll it with
+   * `getStatus` or `waitForSubmission`.
+   */
+  async submit(application: SignedRelayedApplication): Promise<RelayedApplicationStatus> {
+    return this.request<RelayedApplicationStatus>("POST", "/applications", application);
+  }
+
+  async getStatus(id: string): Promise<RelayedApplicationStatus> {
+    return this.request<RelayedApplicationStatus>("GET", `/applications/${encodeURIComponent(id)}`);
+  }
+
+  /**
+   * Polls until the relayer has posted the application, and rethrows the contract
+   * error if the transaction failed.
+   */
+  async waitForSubmission(id: string, options: WaitForSubmissionOptions = {}): Promise<RelayedApplicationStatus> {
+    const intervalMs = options.intervalMs ?? 250;
+    const deadline = Date.now() + (options.timeoutMs ?? 30_000);
+
+    for (;;) {
+      const status = await this.getStatus(id);
+      if (status.state === "submitted") {
+        return status;
+      }
+      if (status.state === "failed") {
+        const code = (status.error?.code ?? "UNKNOWN") as ScholarshipErrorCode;
+        throw new ScholarshipClientError(code, status.error?.message ?? `Relayed application ${id} failed`);
+      }
+      if (Date.now() >= deadline) {
+        throw new ScholarshipClientError("RELAYER_ERROR", `Relayed application ${id} still queued after timeout`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.url}${path}`, {
+        method,
+        headers: body === undefined ? undefined : { "content-type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new ScholarshipClientError("RELAYER_ERROR", `${method} ${path} failed: relayer unreachable`, {
+        cause: error,
+      });
+    }
+
+    const payload = (await response.json().catch(() => ({}))) as T & { error?: string };
+    if (!response.ok) {
+      throw new ScholarshipClientError(
+        "RELAYER_ERROR",
+        `${method} ${path} failed: ${payload.error ?? `HTTP ${response.status}`}`
+      );
+    }
+    return payload;
+  }
+}
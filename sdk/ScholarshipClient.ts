@@ -0,0 +1,1033 @@
+import { ZeroAddress, hexlify } from "ethers";
+import type { ContractTransactionReceipt, ContractTransactionResponse, LogDescription, Signer } from "ethers";
+import { AnonymousScholarshipApplication, AnonymousScholarshipApplication__factory } from "../types";
+import type {
+  ApplicationProcessedEvent,
+  ApplicationSubmittedEvent,
+  AwardPublicationRequestedEvent,
+  AwardsPublishedEvent,
+  ProgramCreatedEvent,
+} from "../types/contracts/ScholarshipApplication.sol/AnonymousScholarshipApplication";
+import { ScholarshipClientError, toScholarshipClientError } from "./errors";
+import { VIEW_PERMIT_TYPES, toViewPermitArgs } from "./permit";
+import { RELAYED_APPLICATION_TYPES, relayDomain } from "./relay";
+import type { RelayerClient } from "./RelayerClient";
+import { deserializeRule, serializeRule } from "./rules";
+import { FHEVM_TYPE_EUINT16, FHEVM_TYPE_EUINT64, ProgramStatus, SelectionPhase } from "./types";
+import type {
+  ApplicationProcessedEventData,
+  ApplicationProcessedResult,
+  ApplicationPromotedEventData,
+  ApplicationScore,
+  ApplicationSubmittedEventData,
+  ApplicationSubmittedResult,
+  ApplicationSummary,
+  AwardPublication,
+  AwardPublicationRequestedEventData,
+  AwardPublicationRequestedResult,
+  AwardResults,
+  AwardsPublishedResult,
+  ClaimApplicationAccessOptions,
+  CreateProgramParams,
+  EncryptedInputBuilder,
+  PageOptions,
+  ProgramCreatedEventData,
+  ProgramCreatedResult,
+  ProgramInfo,
+  ProgramRule,
+  ProgramSchedule,
+  ReviewCommittee,
+  RunSelectionOptions,
+  ScholarshipFhevm,
+  SelectionProgress,
+  SelectionResult,
+  SignedRelayedApplication,
+  SignedViewPermit,
+  SubmitApplicationParams,
+  Unsubscribe,
+  UpdateProgramParams,
+} from "./types";
+
+type ScholarshipEventName =
+  | "ProgramCreated"
+  | "ApplicationSubmitted"
+  | "ApplicationProcessed"
+  | "AwardPublicationRequested"
+  | "AwardsPublished";
+
+/**
+ * @title ScholarshipClient
+ * @notice Typed client for AnonymousScholarshipApplication built on the typechain bindings
+ * @dev Encryption and user decryption go through a `ScholarshipFhevm` implementation:
+ * the Hardhat `fhevm` runtime in tests, or a relayer SDK instance in production.
+ * Every contract revert is rethrown as a `ScholarshipClientError`.
+ */
+export class ScholarshipClient {
+  readonly contract: AnonymousScholarshipApplication;
+  readonly signer: Signer;
+  private readonly fhevm: ScholarshipFhevm;
+
+  constructor(contract: AnonymousScholarshipApplication, signer: Signer, fhevm: ScholarshipFhevm) {
+    this.contract = contract.connect(signer) as AnonymousScholarshipApplication;
+    this.signer = signer;
+    this.fhevm = fhevm;
+  }
+
+  /**
+   * Creates a client for the contract deployed at `address`.
+   */
+  static at(address: string, signer: Signer, fhevm: ScholarshipFhevm): ScholarshipClient {
+    return new ScholarshipClient(AnonymousScholarshipApplication__factory.connect(address, signer), signer, fhevm);
+  }
+
+  /**
+   * Returns a client for the same contract acting as another signer.
+   */
+  connect(signer: Signer): ScholarshipClient {
+    return new ScholarshipClient(this.contract, signer, this.fhevm);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  /**
+   * Serializes the eligibility rule, encrypts the program's numeric thresholds and
+   * budget for the connected signer and creates the program. The administrator can
+   * later user-decrypt the stored thresholds and the remaining budget.
+   */
+  async createProgram(params: CreateProgramParams): Promise<ProgramCreatedResult> {
+    const { criteriaCount, nodes } = serializeRule(params.rule);
+    const input = await this.createEncryptedInput();
+    const encryptedInput = await input
+      .add16(params.minGpa)
+      .add32(params.maxHouseholdIncome)
+      .add64(params.budget)
+      .encrypt();
+
+    const receipt = await this.send("createProgram", () =>
+      this.contract.createProgram(
+        params.name,
+        params.description,
+        params.maxApplications,
+        criteriaCount,
+        nodes,
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        params.schedule,
+        encryptedInput.inputProof
+      )
+    );
+    const [programId] = this.findEvent(receipt, "ProgramCreated").args as unknown as ProgramCreatedEvent.OutputTuple;
+
+    return { programId, transactionHash: receipt.hash };
+  }
+
+  async getProgram(programId: bigint | number): Promise<ProgramInfo> {
+    try {
+      const info = await this.contract.getProgramInfo(programId);
+      return {
+        programId: BigInt(programId),
+        name: info.name,
+        description: info.description,
+        maxApplications: info.maxApplications,
+        currentApplications: info.currentApplications,
+        isActive: info.isActive,
+        status: Number(info.status) as ProgramStatus,
+        resubmissionAllowed: info.resubmissionAllowed,
+      };
+    } catch (error) {
+      throw toScholarshipClientError(error, "getProgram");
+    }
+  }
+
+  /**
+   * Renames a program, rewrites its description or changes its capacity, which may not
+   * drop below the applications already submitted. Only callable by the program administrator.
+   */
+  async updateProgram(programId: bigint | number, params: UpdateProgramParams): Promise<string> {
+    const receipt = await this.send("updateProgram", () =>
+      this.contract.updateProgram(programId, params.name, params.description, params.maxApplications)
+    );
+    return receipt.hash;
+  }
+
+  /**
+   * Stops an open program from taking applications; reviews and processing go on.
+   */
+  async closeProgram(programId: bigint | number): Promise<string> {
+    const receipt = await this.send("closeProgram", () => this.contract.closeProgram(programId));
+    return receipt.hash;
+  }
+
+  /**
+   * Lets a closed program take applications again.
+   */
+  async reopenProgram(programId: bigint | number): Promise<string> {
+    const receipt = await this.send("reopenProgram", () => this.contract.reopenProgram(programId));
+    return receipt.hash;
+  }
+
+  /**
+   * Freezes a closed program for good: no edits, applications, processing or transfers.
+   */
+  async archiveProgram(programId: bigint | number): Promise<string> {
+    const receipt = await this.send("archiveProgram", () => this.contract.archiveProgram(programId));
+    return receipt.hash;
+  }
+
+  /**
+   * Nominates the next administrator, who takes over once they call
+   * `acceptProgramAdministration()`. Nominating the zero address cancels a pending transfer.
+   */
+  async transferProgramAdministration(programId: bigint | number, administrator: string): Promise<string> {
+    const receipt = await this.send("transferProgramAdministration", () =>
+      this.contract.transferProgramAdministration(programId, administrator)
+    );
+    return receipt.hash;
+  }
+
+  /**
+   * Takes over a program the signer was nominated for, with access to its encrypted
+   * thresholds and budget. The applications received so far follow with
+   * `claimApplicationAccess()`.
+   */
+  async acceptProgramAdministration(programId: bigint | number): Promise<string> {
+    const receipt = await this.send("acceptProgramAdministration", () =>
+      this.contract.acceptProgramAdministration(programId)
+    );
+    return receipt.hash;
+  }
+
+  /**
+   * Grants the administrator the eligibility, scores, decisions and selection results of
+   * every application in a program's listing, `batchSize` applications per transaction, as
+   * a new administrator does after taking over. Returns one hash per transaction sent.
+   */
+  async claimApplicationAccess(
+    programId: bigint | number,
+    options: ClaimApplicationAccessOptions = {}
+  ): Promise<string[]> {
+    const batchSize = options.batchSize ?? 20;
+    if (!Number.isInteger(batchSize) || batchSize <= 0) {
+      throw new ScholarshipClientError(
+        "INVALID_ARGUMENT",
+        "claimApplicationAccess failed: batchSize must be a positive integer"
+      );
+    }
+
+    const count = await this.countProgramApplications(programId);
+    const transactionHashes: string[] = [];
+    for (let offset = 0n; offset < count; offset += BigInt(batchSize)) {
+      const receipt = await this.send("claimApplicationAccess", () =>
+        this.contract.claimApplicationAccess(programId, offset, batchSize)
+      );
+      transactionHashes.push(receipt.hash);
+    }
+    return transactionHashes;
+  }
+
+  /**
+   * Lets applicants apply again to a program after withdrawing, or stops them. Off by default.
+   */
+  async setResubmissionPolicy(programId: bigint | number, allowed: boolean): Promise<string> {
+    const receipt = await this.send("setResubmissionPolicy", () =>
+      this.contract.setResubmissionPolicy(programId, allowed)
+    );
+    return receipt.hash;
+  }
+
+  /**
+   * Returns the administrator nominated for a program, or null when no transfer is pending.
+   */
+  async getPendingAdministrator(programId: bigint | number): Promise<string | null> {
+    try {
+      const administrator = await this.contract.pendingAdministrators(programId);
+      return administrator === ZeroAddress ? null : administrator;
+    } catch (error) {
+      throw toScholarshipClientError(error, "getPendingAdministrator");
+    }
+  }
+
+  async getProgramSchedule(programId: bigint | number): Promise<ProgramSchedule> {
+    try {
+      const { opensAt, closesAt, reviewDeadline } = await this.contract.getProgramSchedule(programId);
+      return { opensAt, closesAt, reviewDeadline };
+    } catch (error) {
+      throw toScholarshipClientError(error, "getProgramSchedule");
+    }
+  }
+
+  async getProgramRule(programId: bigint | number): Promise<ProgramRule> {
+    try {
+      const { criteriaCount, nodes } = await this.contract.getProgramRule(programId);
+      return { criteriaCount: Number(criteriaCount), rule: deserializeRule(nodes) };
+    } catch (error) {
+      throw toScholarshipClientError(error, "getProgramRule");
+    }
+  }
+
+  /**
+   * Encrypts every eligibility criterion for the connected signer and submits them
+   * with a single input proof. Plaintext criteria never leave this process.
+   */
+  async submitApplication(params: SubmitApplicationParams): Promise<ApplicationSubmittedResult> {
+    const input = await this.createEncryptedInput();
+    for (const criterion of params.criteria) {
+      input.addBool(criterion);
+    }
+    const encryptedInput = await input.add16(params.gpa).add32(params.householdIncome).encrypt();
+    const criteriaCount = params.criteria.length;
+
+    const receipt = await this.send("submitApplication", () =>
+      this.contract.submitApplication(
+        params.programId,
+        encryptedInput.handles.slice(0, criteriaCount),
+        encryptedInput.handles[criteriaCount],
+        encryptedInput.handles[criteriaCount + 1],
+        encryptedInput.inputProof
+      )
+    );
+    const [applicationId, programId] = this.findEvent(receipt, "ApplicationSubmitted")
+      .args as unknown as ApplicationSubmittedEvent.OutputTuple;
+
+    return { applicationId, programId, transactionHash: receipt.hash };
+  }
+
+  /**
+   * Withdraws one of the signer's unprocessed applications, freeing its place in the
+   * program for the next waitlisted application, or taking it off the waitlist. The
+   * program administrator can no longer read it, and the signer may only
+   * apply to the program again if it allows resubmission.
+   */
+  async withdrawApplication(applicationId: bigint | number): Promise<string> {
+    const receipt = await this.send("withdrawApplication", () => this.contract.withdrawApplication(applicationId));
+    return receipt.hash;
+  }
+
+  /**
+   * Returns the position of one of the signer's own applications on its program's
+   * waitlist, 1 being the next to be admitted, or null when it is not waitlisted.
+   * Only the applicant may read it. Once selection started or award publication was
+   * requested nobody waiting is admitted any more, and this fails with WAITLIST_CLOSED.
+   */
+  async getWaitlistPosition(applicationId: bigint | number): Promise<bigint | null> {
+    try {
+      const position = await this.contract.getWaitlistPosition(applicationId);
+      return position === 0n ? null : position;
+    } catch (error) {
+      throw toScholarshipClientError(error, "getWaitlistPosition");
+    }
+  }
+
+  /**
+   * Encrypts an application for `relayerAddress` and signs it with the connected
+   * signer, which should be a fresh application key rather than the applicant's
+   * wallet: its address becomes the on-chain applicant, and the same key later
+   * decrypts the results. The key needs a provider but no funds.
+   */
+  async signRelayedApplication(
+    params: SubmitApplicationParams,
+    relayerAddress: string,
+    deadline: bigint | number
+  ): Promise<SignedRelayedApplication> {
+    const [contractAddress, applicant] = await Promise.all([this.getAddress(), this.signer.getAddress()]);
+    const input = this.fhevm.createEncryptedInput(contractAddress, relayerAddress);
+    for (const criterion of params.criteria) {
+      input.addBool(criterion);
+    }
+    const encryptedInput = await input.add16(params.gpa).add32(params.householdIncome).encrypt();
+    const handles = encryptedInput.handles.map((handle) => hexlify(handle));
+    const criteriaCount = params.criteria.length;
+
+    const provider = this.signer.provider;
+    if (!provider) {
+      throw new ScholarshipClientError("UNKNOWN", "signRelayedApplication failed: the application key has no provider");
+    }
+    let nonce: bigint;
+    let chainId: bigint;
+    try {
+      nonce = await this.contract.relayNonces(applicant);
+      chainId = (await provider.getNetwork()).chainId;
+    } catch (error) {
+      throw toScholarshipClientError(error, "signRelayedApplication");
+    }
+
+    const application = {
+      applicant,
+      programId: BigInt(params.programId).toString(),
+      criteria: handles.slice(0, criteriaCount),
+      gpa: handles[criteriaCount],
+      householdIncome: handles[criteriaCount + 1],
+      inputProof: hexlify(encryptedInput.inputProof),
+      nonce: nonce.toString(),
+      deadline: BigInt(deadline).toString(),
+    };
+    const signature = await this.signer.signTypedData(
+      relayDomain(contractAddress, chainId),
+      RELAYED_APPLICATION_TYPES,
+      application
+    );
+
+    return { ...application, signature };
+  }
+
+  /**
+   * Signs an application with the connected application key, hands it to the
+   * relayer and waits until the relayer has posted it.
+   */
+  async submitApplicationViaRelayer(
+    relayer: RelayerClient,
+    params: SubmitApplicationParams,
+    deadline: bigint | number
+  ): Promise<ApplicationSubmittedResult> {
+    const info = await relayer.getInfo();
+    const signed = await this.signRelayedApplication(params, info.relayer, deadline);
+    const { id } = await relayer.submit(signed);
+    const { applicationId, transactionHash } = await relayer.waitForSubmission(id);
+    if (applicationId === undefined || transactionHash === undefined) {
+      throw new ScholarshipClientError(
+        "RELAYER_ERROR",
+        `submitApplicationViaRelayer failed: relayed application ${id} was submitted without an application id`
+      );
+    }
+
+    return {
+      applicationId: BigInt(applicationId),
+      programId: BigInt(params.programId),
+      transactionHash,
+    };
+  }
+
+  /**
+   * User-decrypts the eligibility result of one of the signer's own applications, or of
+   * an application shared with the signer through `grantEligibilityAccess` or a claimed
+   * delegation.
+   */
+  async decryptMyEligibility(applicationId: bigint | number): Promise<boolean> {
+    let handle: string;
+    try {
+      handle = await this.contract.getApplicationEligibility(applicationId);
+    } catch (error) {
+      throw toScholarshipClientError(error, "decryptMyEligibility");
+    }
+
+    return this.fhevm.userDecryptEbool(handle, await this.getAddress(), this.signer);
+  }
+
+  /**
+   * Lets `delegate` decrypt the eligibility of one of the signer's applications.
+   * FHEVM permissions cannot be revoked, so this access is permanent.
+   */
+  async grantEligibilityAccess(applicationId: bigint | number, delegate: string): Promise<string> {
+    const receipt = await this.send("grantEligibilityAccess", () =>
+      this.contract.grantEligibilityAccess(applicationId, delegate)
+    );
+    return receipt.hash;
+  }
+
+  /**
+   * Offers `delegate` access to the eligibility of one of the signer's applications.
+   * The delegate must claim it with `claimEligibilityAccess` before `expiresAt`;
+   * until then the signer may revoke it.
+   */
+  async delegateEligibilityAccess(
+    applicationId: bigint | number,
+    delegate: string,
+    expiresAt: bigint | number
+  ): Promise<string> {
+    const receipt = await this.send("delegateEligibilityAccess", () =>
+      this.contract.delegateEligibilityAccess(applicationId, delegate, expiresAt)
+    );
+    return receipt.hash;
+  }
+
+  async revokeEligibilityDelegation(applicationId: bigint | number, delegate: string): Promise<string> {
+    const receipt = await this.send("revokeEligibilityDelegation", () =>
+      this.contract.revokeEligibilityDelegation(applicationId, delegate)
+    );
+    return receipt.hash;
+  }
+
+  async claimEligibilityAccess(applicationId: bigint | number): Promise<string> {
+    const receipt = await this.send("claimEligibilityAccess", () =>
+      this.contract.claimEligibilityAccess(applicationId)
+    );
+    return receipt.hash;
+  }
+
+  /**
+   * Claim deadline of a pending delegation, or `null` if there is none.
+   */
+  async getEligibilityDelegation(applicationId: bigint | number, delegate: string): Promise<bigint | null> {
+    try {
+      const expiresAt = await this.contract.getEligibilityDelegation(applicationId, delegate);
+      return expiresAt === 0n ? null : expiresAt;
+    } catch (error) {
+      throw toScholarshipClientError(error, "getEligibilityDelegation");
+    }
+  }
+
+  /**
+   * Reads one application. Only the applicant and the program administrator may call this.
+   */
+  async getApplication(applicationId: bigint | number): Promise<ApplicationSummary> {
+    try {
+      const info = await this.contract.getApplicationBasicInfo(applicationId);
+      return toApplicationSummary(applicationId, info);
+    } catch (error) {
+      throw toScholarshipClientError(error, "getApplication");
+    }
+  }
+
+  /**
+   * Lists the signer's own applications.
+   */
+  async listMyApplications(): Promise<ApplicationSummary[]> {
+    let applicationIds: bigint[];
+    try {
+      applicationIds = await this.contract.getMyApplications();
+    } catch (error) {
+      throw toScholarshipClientError(error, "listMyApplications");
+    }
+
+    return Promise.all(applicationIds.map((applicationId) => this.getApplication(applicationId)));
+  }
+
+  /**
+   * Counts the signer's own applications.
+   */
+  async countMyApplications(): Promise<bigint> {
+    try {
+      return await this.contract.getMyApplicationCount();
+    } catch (error) {
+      throw toScholarshipClientError(error, "countMyApplications");
+    }
+  }
+
+  /**
+   * Walks the signer's own applications in submission order, withdrawn ones included,
+   * one page of ids per call, so the listing stays bounded however many there are.
+   */
+  iterateMyApplications(options: PageOptions = {}): AsyncGenerator<ApplicationSummary> {
+    return this.paginate(
+      "iterateMyApplications",
+      options,
+      () => this.contract.getMyApplicationCount(),
+      (offset, limit) => this.contract.getMyApplicationsPage(offset, limit)
+    );
+  }
+
+  /**
+   * Signs a view permit that lets whoever holds it list the signer's applications
+   * until `deadline`, e.g. a backend reading on the applicant's behalf.
+   */
+  async signViewPermit(deadline: bigint | number): Promise<SignedViewPermit> {
+    const provider = this.signer.provider;
+    if (!provider) {
+      throw new ScholarshipClientError("UNKNOWN", "signViewPermit failed: the signer has no provider");
+    }
+    const [contractAddress, holder] = await Promise.all([this.getAddress(), this.signer.getAddress()]);
+    let chainId: bigint;
+    try {
+      chainId = (await provider.getNetwork()).chainId;
+    } catch (error) {
+      throw toScholarshipClientError(error, "signViewPermit");
+    }
+
+    const permit = { holder, deadline: BigInt(deadline).toString() };
+    const signature = await this.signer.signTypedData(relayDomain(contractAddress, chainId), VIEW_PERMIT_TYPES, permit);
+    return { ...permit, signature };
+  }
+
+  /**
+   * Lists the applications of a permit's holder. Works from any signer.
+   */
+  async listApplicationsWithPermit(permit: SignedViewPermit): Promise<ApplicationSummary[]> {
+    const { struct, signature } = toViewPermitArgs(permit);
+    try {
+      const applicationIds = await this.contract.getMyApplicationsWithPermit(struct, signature);
+      return await Promise.all(
+        applicationIds.map(async (applicationId) =>
+          toApplicationSummary(
+            applicationId,
+            await this.contract.getApplicationBasicInfoWithPermit(applicationId, struct, signature)
+          )
+        )
+      );
+    } catch (error) {
+      throw toScholarshipClientError(error, "listApplicationsWithPermit");
+    }
+  }
+
+  /**
+   * Lists the applications holding a place in a program, in the order they were
+   * admitted. Only callable by the program administrator.
+   */
+  async listProgramApplications(programId: bigint | number): Promise<ApplicationSummary[]> {
+    let applicationIds: bigint[];
+    try {
+      applicationIds = await this.contract.getProgramApplications(programId);
+    } catch (error) {
+      throw toScholarshipClientError(error, "listProgramApplications");
+    }
+
+    return Promise.all(applicationIds.map((applicationId) => this.getApplication(applicationId)));
+  }
+
+  /**
+   * Counts the entries of a program's listing, withdrawn and disqualified applications
+   * included; `getProgram().currentApplications` counts those holding a place. Only
+   * callable by the program administrator.
+   */
+  async countProgramApplications(programId: bigint | number): Promise<bigint> {
+    try {
+      return await this.contract.getProgramApplicationCount(programId);
+    } catch (error) {
+      throw toScholarshipClientError(error, "countProgramApplications");
+    }
+  }
+
+  /**
+   * Walks the applications holding a place in a program, in the order they were admitted,
+   * one page of listing entries per call. Withdrawn and disqualified applications are left
+   * out, so pages can come back short. Only callable by the program administrator.
+   */
+  iterateProgramApplications(
+    programId: bigint | number,
+    options: PageOptions = {}
+  ): AsyncGenerator<ApplicationSummary> {
+    return this.paginate(
+      "iterateProgramApplications",
+      options,
+      () => this.contract.getProgramApplicationCount(programId),
+      (offset, limit) => this.contract.getProgramApplicationsPage(programId, offset, limit)
+    );
+  }
+
+  /**
+   * Processes an application with an encrypted decision and award amount. The
+   * contract derives the program from the application, so only the administrator
+   * of the program it was submitted to may call this. Approvals only take effect
+   * for eligible applicants whose award still fits the remaining budget, and the
+   * outcome is readable by the applicant and administrator alone.
+   */
+  async processApplication(
+    applicationId: bigint | number,
+    approved: boolean,
+    amount: bigint | number
+  ): Promise<ApplicationProcessedResult> {
+    const input = await this.createEncryptedInput();
+    const encryptedInput = await input.addBool(approved).add64(amount).encrypt();
+
+    const receipt = await this.send("processApplication", () =>
+      this.contract.processApplication(
+        applicationId,
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.inputProof
+      )
+    );
+    const [processedId] = this.findEvent(receipt, "ApplicationProcessed")
+      .args as unknown as ApplicationProcessedEvent.OutputTuple;
+
+    return { applicationId: processedId, transactionHash: receipt.hash };
+  }
+
+  /**
+   * Takes an unprocessed application out of its program, freeing its place for the next
+   * waitlisted application. Only callable by the program administrator.
+   */
+  async disqualifyApplication(applicationId: bigint | number): Promise<string> {
+    const receipt = await this.send("disqualifyApplication", () => this.contract.disqualifyApplication(applicationId));
+    return receipt.hash;
+  }
+
+  /**
+   * Adds a reviewer to the program's committee. Only callable by the program administrator.
+   */
+  async addReviewer(programId: bigint | number, reviewer: string): Promise<string> {
+    const receipt = await this.send("addReviewer", () => this.contract.addReviewer(programId, reviewer));
+    return receipt.hash;
+  }
+
+  /**
+   * Removes a reviewer. Scores they already submitted stay in the application totals.
+   */
+  async removeReviewer(programId: bigint | number, reviewer: string): Promise<string> {
+    const receipt = await this.send("removeReviewer", () => this.contract.removeReviewer(programId, reviewer));
+    return receipt.hash;
+  }
+
+  /**
+   * Sets how many reviews an application needs before it can be processed.
+   */
+  async setReviewQuorum(programId: bigint | number, quorum: number): Promise<string> {
+    const receipt = await this.send("setReviewQuorum", () => this.contract.setReviewQuorum(programId, quorum));
+    return receipt.hash;
+  }
+
+  async getReviewCommittee(programId: bigint | number): Promise<ReviewCommittee> {
+    try {
+      const [reviewers, quorum] = await this.contract.getProgramReviewers(programId);
+      return { reviewers: [...reviewers], quorum: Number(quorum) };
+    } catch (error) {
+      throw toScholarshipClientError(error, "getReviewCommittee");
+    }
+  }
+
+  /**
+   * Encrypts a 0-255 score for the connected reviewer and adds it to the
+   * application's encrypted total. Each reviewer scores an application once.
+   */
+  async submitReview(applicationId: bigint | number, score: number): Promise<string> {
+    const input = await this.createEncryptedInput();
+    const encryptedInput = await input.add8(score).encrypt();
+
+    const receipt = await this.send("submitReview", () =>
+      this.contract.submitReview(applicationId, encryptedInput.handles[0], encryptedInput.inputProof)
+    );
+    return receipt.hash;
+  }
+
+  /**
+   * User-decrypts the summed reviewer scores of an application. Only callable by
+   * the program administrator; individual scores are never stored.
+   */
+  async decryptApplicationScore(applicationId: bigint | number): Promise<ApplicationScore> {
+    let handle: string;
+    let reviewCount: bigint;
+    try {
+      [handle, reviewCount] = await this.contract.getApplicationScore(applicationId);
+    } catch (error) {
+      throw toScholarshipClientError(error, "decryptApplicationScore");
+    }
+
+    if (reviewCount === 0n) {
+      return { totalScore: 0n, reviewCount: 0 };
+    }
+    const totalScore = await this.fhevm.userDecryptEuint(
+      FHEVM_TYPE_EUINT16,
+      handle,
+      await this.getAddress(),
+      this.signer
+    );
+    return { totalScore, reviewCount: Number(reviewCount) };
+  }
+
+  /**
+   * Freezes the program's application pool and starts ranking it by encrypted
+   * review score. Only callable by the program administrator.
+   */
+  async startSelection(programId: bigint | number, k: number): Promise<string> {
+    const receipt = await this.send("startSelection", () => this.contract.startSelection(programId, k));
+    return receipt.hash;
+  }
+
+  /**
+   * Runs one batch of at most `maxSteps` selection steps.
+   */
+  async advanceSelection(programId: bigint | number, maxSteps: number): Promise<string> {
+    const receipt = await this.send("advanceSelection", () => this.contract.advanceSelection(programId, maxSteps));
+    return receipt.hash;
+  }
+
+  async getSelection(programId: bigint | number): Promise<SelectionProgress> {
+    try {
+      const selection = await this.contract.getSelection(programId);
+      return {
+        k: Number(selection.k),
+        phase: Number(selection.phase) as SelectionPhase,
+        poolSize: Number(selection.poolSize),
+        stepsDone: selection.stepsDone,
+        totalSteps: selection.totalSteps,
+      };
+    } catch (error) {
+      throw toScholarshipClientError(error, "getSelection");
+    }
+  }
+
+  /**
+   * Selects the top `k` eligible applications of a program, paging through
+   * `advanceSelection` batches until the selection completes. Resumes a selection
+   * that was already started, whatever its `k`.
+   */
+  async runSelection(
+    programId: bigint | number,
+    k: number,
+    options: RunSelectionOptions = {}
+  ): Promise<SelectionResult> {
+    const batchSize = options.batchSize ?? 8;
+    const transactionHashes: string[] = [];
+
+    let progress = await this.getSelection(programId);
+    if (progress.phase === SelectionPhase.None) {
+      transactionHashes.push(await this.startSelection(programId, k));
+      progress = await this.getSelection(programId);
+    }
+    while (progress.phase !== SelectionPhase.Completed) {
+      transactionHashes.push(await this.advanceSelection(programId, batchSize));
+      progress = await this.getSelection(programId);
+      options.onProgress?.(progress);
+    }
+
+    return { programId: BigInt(programId), transactionHashes };
+  }
+
+  /**
+   * User-decrypts whether an application ranked within the top K. Callable by the
+   * applicant and by the program administrator once the selection has completed.
+   */
+  async decryptSelection(applicationId: bigint | number): Promise<boolean> {
+    let handle: string;
+    try {
+      handle = await this.contract.getApplicationSelection(applicationId);
+    } catch (error) {
+      throw toScholarshipClientError(error, "decryptSelection");
+    }
+
+    return this.fhevm.userDecryptEbool(handle, await this.getAddress(), this.signer);
+  }
+
+  /**
+   * User-decrypts the decision on a processed application. Callable by the
+   * applicant and by the program administrator.
+   */
+  async decryptDecision(applicationId: bigint | number): Promise<boolean> {
+    let handle: string;
+    try {
+      handle = await this.contract.getApplicationDecision(applicationId);
+    } catch (error) {
+      throw toScholarshipClientError(error, "decryptDecision");
+    }
+
+    return this.fhevm.userDecryptEbool(handle, await this.getAddress(), this.signer);
+  }
+
+  /**
+   * User-decrypts the amount awarded on a processed application: zero when it was
+   * rejected, ineligible or would have overspent the budget. Callable by the
+   * applicant and by the program administrator.
+   */
+  async decryptAward(applicationId: bigint | number): Promise<bigint> {
+    let handle: string;
+    try {
+      handle = await this.contract.getApplicationAward(applicationId);
+    } catch (error) {
+      throw toScholarshipClientError(error, "decryptAward");
+    }
+
+    return this.fhevm.userDecryptEuint(FHEVM_TYPE_EUINT64, handle, await this.getAddress(), this.signer);
+  }
+
+  /**
+   * User-decrypts the funds a program has left to award. Only callable by the
+   * program administrator.
+   */
+  async decryptRemainingBudget(programId: bigint | number): Promise<bigint> {
+    let handle: string;
+    try {
+      handle = await this.contract.getRemainingBudget(programId);
+    } catch (error) {
+      throw toScholarshipClientError(error, "decryptRemainingBudget");
+    }
+
+    return this.fhevm.userDecryptEuint(FHEVM_TYPE_EUINT64, handle, await this.getAddress(), this.signer);
+  }
+
+  /**
+   * Asks for the program's award count and amount awarded to be publicly decrypted.
+   * Every application must be processed first; only the program administrator may
+   * call this. Individual decisions are not published, and the program admits no
+   * applications afterwards.
+   */
+  async requestAwardPublication(programId: bigint | number): Promise<AwardPublicationRequestedResult> {
+    const receipt = await this.send("requestAwardPublication", () => this.contract.requestAwardPublication(programId));
+    const [requestId, requestedProgramId, handles] = this.findEvent(receipt, "AwardPublicationRequested")
+      .args as unknown as AwardPublicationRequestedEvent.OutputTuple;
+
+    return { requestId, programId: requestedProgramId, handles: [...handles], transactionHash: receipt.hash };
+  }
+
+  /**
+   * Acts as the decryption oracle for a request: publicly decrypts its handles and
+   * submits the cleartexts with the KMS proof. Any signer may fulfil a request.
+   */
+  async fulfillAwardPublication(requestId: bigint | number): Promise<AwardsPublishedResult> {
+    const publication = await this.getAwardPublication(requestId);
+    if (publication.fulfilled) {
+      throw new ScholarshipClientError("REQUEST_FULFILLED", `Award publication ${requestId} is already fulfilled`);
+    }
+    const { abiEncodedClearValues, decryptionProof } = await this.fhevm.publicDecrypt(publication.handles);
+
+    const receipt = await this.send("fulfillAwardPublication", () =>
+      this.contract.fulfillAwardPublication(requestId, abiEncodedClearValues, decryptionProof)
+    );
+    const [publishedId, programId, awardCount, awardedAmount] = this.findEvent(receipt, "AwardsPublished")
+      .args as unknown as AwardsPublishedEvent.OutputTuple;
+
+    return { requestId: publishedId, programId, awardCount, awardedAmount, transactionHash: receipt.hash };
+  }
+
+  async getAwardPublication(requestId: bigint | number): Promise<AwardPublication> {
+    try {
+      const [programId, handles, fulfilled] = await this.contract.getAwardPublication(requestId);
+      if (programId === 0n) {
+        throw new ScholarshipClientError("UNKNOWN_REQUEST", `Award publication ${requestId} does not exist`);
+      }
+      return { requestId: BigInt(requestId), programId, handles: [...handles], fulfilled };
+    } catch (error) {
+      throw toScholarshipClientError(error, "getAwardPublication");
+    }
+  }
+
+  /**
+   * How many awards a program made and their total, available once its publication is fulfilled.
+   */
+  async getAwardResults(programId: bigint | number): Promise<AwardResults> {
+    try {
+      const [awardCount, awardedAmount] = await this.contract.getAwardResults(programId);
+      return { awardCount, awardedAmount };
+    } catch (error) {
+      throw toScholarshipClientError(error, "getAwardResults");
+    }
+  }
+
+  async onProgramCreated(listener: (event: ProgramCreatedEventData) => void): Promise<Unsubscribe> {
+    const filter = this.contract.filters.ProgramCreated;
+    const handler = (programId: bigint, name: string, administrator: string) =>
+      listener({ programId, name, administrator });
+
+    await this.contract.on(filter, handler);
+    return async () => {
+      await this.contract.off(filter, handler);
+    };
+  }
+
+  async onApplicationSubmitted(listener: (event: ApplicationSubmittedEventData) => void): Promise<Unsubscribe> {
+    const filter = this.contract.filters.ApplicationSubmitted;
+    const handler = (applicationId: bigint, programId: bigint, applicant: string) =>
+      listener({ applicationId, programId, applicant });
+
+    await this.contract.on(filter, handler);
+    return async () => {
+      await this.contract.off(filter, handler);
+    };
+  }
+
+  async onApplicationProcessed(listener: (event: ApplicationProcessedEventData) => void): Promise<Unsubscribe> {
+    const filter = this.contract.filters.ApplicationProcessed;
+    const handler = (applicationId: bigint) => listener({ applicationId });
+
+    await this.contract.on(filter, handler);
+    return async () => {
+      await this.contract.off(filter, handler);
+    };
+  }
+
+  async onApplicationPromoted(listener: (event: ApplicationPromotedEventData) => void): Promise<Unsubscribe> {
+    const filter = this.contract.filters.ApplicationPromoted;
+    const handler = (applicationId: bigint, programId: bigint) => listener({ applicationId, programId });
+
+    await this.contract.on(filter, handler);
+    return async () => {
+      await this.contract.off(filter, handler);
+    };
+  }
+
+  async onAwardPublicationRequested(
+    listener: (event: AwardPublicationRequestedEventData) => void
+  ): Promise<Unsubscribe> {
+    const filter = this.contract.filters.AwardPublicationRequested;
+    const handler = (requestId: bigint, programId: bigint, handles: string[]) =>
+      listener({ requestId, programId, handles: [...handles] });
+
+    await this.contract.on(filter, handler);
+    return async () => {
+      await this.contract.off(filter, handler);
+    };
+  }
+
+  private async createEncryptedInput(): Promise<EncryptedInputBuilder> {
+    const [contractAddress, userAddress] = await Promise.all([this.getAddress(), this.signer.getAddress()]);
+    return this.fhevm.createEncryptedInput(contractAddress, userAddress);
+  }
+
+  private async send(
+    action: string,
+    submit: () => Promise<ContractTransactionResponse>
+  ): Promise<ContractTransactionReceipt> {
+    try {
+      const tx = await submit();
+      const receipt = await tx.wait();
+      if (!receipt) {
+        throw new ScholarshipClientError("UNKNOWN", `${action} failed: transaction was dropped`);
+      }
+      return receipt;
+    } catch (error) {
+      throw toScholarshipClientError(error, action);
+    }
+  }
+
+  /**
+   * Reads a listing a page of entries at a time and yields the summaries of the ids each
+   * page holds. Listings are only ever appended to, so offsets stay valid between pages.
+   * A short page does not mean the end, as left-out entries shorten pages too: the walk
+   * ends once the offset reaches the listing's length, read again before every page so
+   * entries appended meanwhile are included.
+   */
+  private async *paginate(
+    action: string,
+    options: PageOptions,
+    readCount: () => Promise<bigint>,
+    readPage: (offset: number, limit: number) => Promise<bigint[]>
+  ): AsyncGenerator<ApplicationSummary> {
+    const pageSize = options.pageSize ?? 100;
+    if (!Number.isInteger(pageSize) || pageSize <= 0) {
+      throw new ScholarshipClientError("INVALID_ARGUMENT", `${action} failed: pageSize must be a positive integer`);
+    }
+
+    for (let offset = 0; ; offset += pageSize) {
+      let applicationIds: bigint[];
+      try {
+        if (BigInt(offset) >= (await readCount())) {
+          return;
+        }
+        applicationIds = await readPage(offset, pageSize);
+      } catch (error) {
+        throw toScholarshipClientError(error, action);
+      }
+      yield* await Promise.all(applicationIds.map((applicationId) => this.getApplication(applicationId)));
+    }
+  }
+
+  private findEvent(receipt: ContractTransactionReceipt, eventName: ScholarshipEventName): LogDescription {
+    const address = String(this.contract.target).toLowerCase();
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== address) {
+        continue;
+      }
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === eventName) {
+        return parsed;
+      }
+    }
+
+    throw new ScholarshipClientError("EVENT_NOT_FOUND", `${eventName} event missing from transaction ${receipt.hash}`);
+  }
+}
+
+function toApplicationSummary(
+  applicationId: bigint | number,
+  info: { applicant: string; programId: bigint; timestamp: bigint; processed: boolean; withdrawn: boolean }
+): ApplicationSummary {
+  return {
+    applicationId: BigInt(applicationId),
+    applicant: info.applicant,
+    programId: info.programId,
+    timestamp: info.timestamp,
+    processed: info.processed,
+    withdrawn: info.withdrawn,
+  };
+}
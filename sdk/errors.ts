@@ -0,0 +1,197 @@
+import { AbiCoder, dataSlice } from "ethers";
+
+/**
+ * Typed errors raised by the ScholarshipClient.
+ *
+ * Contract reverts are mapped from their revert reason string to a stable
+ * `ScholarshipErrorCode`, so callers can branch on `error.code` instead of
+ * matching on provider-specific error messages.
+ */
+
+export type ScholarshipErrorCode =
+  | "INVALID_PROGRAM"
+  | "PROGRAM_NOT_ACTIVE"
+  | "PROGRAM_ARCHIVED"
+  | "INVALID_STATUS_TRANSITION"
+  | "CAPACITY_BELOW_APPLICATIONS"
+  | "NOT_PROGRAM_ADMIN"
+  | "NOT_PENDING_ADMIN"
+  | "NOT_AUTHORIZED"
+  | "ALREADY_PROCESSED"
+  | "ALREADY_APPLIED"
+  | "RESUBMISSION_NOT_ALLOWED"
+  | "APPLICATION_WITHDRAWN"
+  | "APPLICATION_WAITLISTED"
+  | "WAITLIST_CLOSED"
+  | "APPLICATION_DISQUALIFIED"
+  | "NOT_PROCESSED"
+  | "INVALID_RULE"
+  | "CRITERIA_MISMATCH"
+  | "INVALID_SCHEDULE"
+  | "APPLICATIONS_NOT_OPEN"
+  | "APPLICATIONS_CLOSED"
+  | "REVIEW_CLOSED"
+  | "INVALID_REVIEWER"
+  | "NOT_REVIEWER"
+  | "ALREADY_REVIEWED"
+  | "INVALID_QUORUM"
+  | "QUORUM_NOT_REACHED"
+  | "INVALID_SELECTION"
+  | "SELECTION_STARTED"
+  | "SELECTION_NOT_STARTED"
+  | "SELECTION_IN_PROGRESS"
+  | "SELECTION_COMPLETED"
+  | "SELECTION_NOT_COMPLETED"
+  | "NO_APPLICATIONS"
+  | "UNPROCESSED_APPLICATIONS"
+  | "PUBLICATION_REQUESTED"
+  | "PUBLICATION_PENDING"
+  | "AWARDS_PUBLISHED"
+  | "AWARDS_NOT_PUBLISHED"
+  | "UNKNOWN_REQUEST"
+  | "REQUEST_FULFILLED"
+  | "INVALID_DECRYPTION_PROOF"
+  | "INVALID_SIGNATURE"
+  | "SIGNATURE_EXPIRED"
+  | "INVALID_NONCE"
+  | "INVALID_PERMIT"
+  | "INVALID_DELEGATION"
+  | "NO_DELEGATION"
+  | "DELEGATION_EXPIRED"
+  | "PERMIT_EXPIRED"
+  | "RELAYER_ERROR"
+  | "INDEXER_ERROR"
+  | "INVALID_MANIFEST"
+  | "EVENT_NOT_FOUND"
+  | "INVALID_ARGUMENT"
+  | "UNKNOWN";
+
+const REVERT_REASONS: Record<string, ScholarshipErrorCode> = {
+  "Invalid program ID": "INVALID_PROGRAM",
+  "Program not active": "PROGRAM_NOT_ACTIVE",
+  "Program archived": "PROGRAM_ARCHIVED",
+  "Invalid status transition": "INVALID_STATUS_TRANSITION",
+  "Capacity below applications": "CAPACITY_BELOW_APPLICATIONS",
+  "Not program administrator": "NOT_PROGRAM_ADMIN",
+  "Not pending administrator": "NOT_PENDING_ADMIN",
+  "Not authorized": "NOT_AUTHORIZED",
+  "Already processed": "ALREADY_PROCESSED",
+  "Already applied": "ALREADY_APPLIED",
+  "Resubmission not allowed": "RESUBMISSION_NOT_ALLOWED",
+  "Application withdrawn": "APPLICATION_WITHDRAWN",
+  "Application waitlisted": "APPLICATION_WAITLISTED",
+  "Waitlist closed": "WAITLIST_CLOSED",
+  "Application disqualified": "APPLICATION_DISQUALIFIED",
+  "Not processed": "NOT_PROCESSED",
+  "Invalid rule": "INVALID_RULE",
+  "Too many criteria": "INVALID_RULE",
+  "Criteria count mismatch": "CRITERIA_MISMATCH",
+  "Invalid schedule": "INVALID_SCHEDULE",
+  "Applications not open": "APPLICATIONS_NOT_OPEN",
+  "Applications closed": "APPLICATIONS_CLOSED",
+  "Review closed": "REVIEW_CLOSED",
+  "Invalid reviewer": "INVALID_REVIEWER",
+  "Already a reviewer": "INVALID_REVIEWER",
+  "Too many reviewers": "INVALID_REVIEWER",
+  "Not a reviewer": "NOT_REVIEWER",
+  "Already reviewed": "ALREADY_REVIEWED",
+  "Quorum exceeds reviewers": "INVALID_QUORUM",
+  "Quorum not reached": "QUORUM_NOT_REACHED",
+  "Invalid K": "INVALID_SELECTION",
+  "Invalid batch size": "INVALID_SELECTION",
+  "Selection started": "SELECTION_STARTED",
+  "Selection not started": "SELECTION_NOT_STARTED",
+  "Selection in progress": "SELECTION_IN_PROGRESS",
+  "Selection completed": "SELECTION_COMPLETED",
+  "Selection not completed": "SELECTION_NOT_COMPLETED",
+  "No applications": "NO_APPLICATIONS",
+  "Unprocessed applications": "UNPROCESSED_APPLICATIONS",
+  "Publication requested": "PUBLICATION_REQUESTED",
+  "Publication pending": "PUBLICATION_PENDING",
+  "Awards already published": "AWARDS_PUBLISHED",
+  "Awards not published": "AWARDS_NOT_PUBLISHED",
+  "Unknown request": "UNKNOWN_REQUEST",
+  "Request already fulfilled": "REQUEST_FULFILLED",
+  "Invalid signature": "INVALID_SIGNATURE",
+  "Signature expired": "SIGNATURE_EXPIRED",
+  "Invalid nonce": "INVALID_NONCE",
+  "Invalid permit": "INVALID_PERMIT",
+  "Permit expired": "PERMIT_EXPIRED",
+  "Invalid delegate": "INVALID_DELEGATION",
+  "Invalid expiry": "INVALID_DELEGATION",
+  "No delegation": "NO_DELEGATION",
+  "Delegation expired": "DELEGATION_EXPIRED",
+  "Invalid cleartexts": "INVALID_DECRYPTION_PROOF",
+  InvalidKMSSignatures: "INVALID_DECRYPTION_PROOF",
+  KMSInvalidSigner: "INVALID_DECRYPTION_PROOF",
+};
+
+/** Selector of `Error(string)`, the ABI encoding of a require message. */
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+
+export class ScholarshipClientError extends Error {
+  readonly code: ScholarshipErrorCode;
+  readonly reason?: string;
+
+  constructor(code: ScholarshipErrorCode, message: string, options: { reason?: string; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = "ScholarshipClientError";
+    this.code = code;
+    this.reason = options.reason;
+  }
+}
+
+/**
+ * Extracts the revert reason string, or the custom error name, from an ethers or Hardhat error.
+ */
+function extractRevertReason(error: unknown): string | undefined {
+  if (typeof error !== "object" || error === null) {
+    return undefined;
+  }
+
+  const reason = (error as { reason?: unknown }).reason;
+  if (typeof reason === "string" && reason.length > 0) {
+    return reason;
+  }
+
+  // Hardhat cannot always map a revert back to its source line, and then only
+  // the raw revert data carries the message
+  const data = (error as { data?: unknown }).data;
+  if (typeof data === "string" && data.startsWith(ERROR_STRING_SELECTOR)) {
+    try {
+      return AbiCoder.defaultAbiCoder().decode(["string"], dataSlice(data, 4))[0] as string;
+    } catch {
+      // Malformed revert data; fall through to the other sources
+    }
+  }
+
+  const revert = (error as { revert?: { name?: unknown } }).revert;
+  if (typeof revert?.name === "string") {
+    return revert.name;
+  }
+
+  const message = (error as { message?: unknown }).message;
+  if (typeof message === "string") {
+    const match = message.match(/reverted with reason string '([^']*)'/) ?? message.match(/custom error '(\w+)\(/);
+    if (match) {
+      return match[1];
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Wraps any error thrown while talking to the contract into a ScholarshipClientError.
+ */
+export function toScholarshipClientError(error: unknown, action: string): ScholarshipClientError {
+  if (error instanceof ScholarshipClientError) {
+    return error;
+  }
+
+  const reason = extractRevertReason(error);
+  const code = (reason && REVERT_REASONS[reason]) || "UNKNOWN";
+  const detail = reason ?? (error instanceof Error ? error.message : String(error));
+
+  return new ScholarshipClientError(code, `${action} failed: ${detail}`, { reason, cause: error });
+}
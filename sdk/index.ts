@@ -0,0 +1,27 @@
+export { ScholarshipClient } from "./ScholarshipClient";
+export { RelayerClient } from "./RelayerClient";
+export type { WaitForSubmissionOptions } from "./RelayerClient";
+export { IndexerClient } from "./IndexerClient";
+export { ScholarshipClientError, toScholarshipClientError } from "./errors";
+export type { ScholarshipErrorCode } from "./errors";
+export { DEFAULT_RULE, MAX_CRITERIA, MAX_RULE_NODES, Rule, RuleOp, deserializeRule, serializeRule } from "./rules";
+export type { EligibilityRule, RuleNode, SerializedRule } from "./rules";
+export {
+  RELAYED_APPLICATION_TYPES,
+  RELAY_DOMAIN_NAME,
+  RELAY_DOMAIN_VERSION,
+  relayDomain,
+  toRelayedApplicationArgs,
+} from "./relay";
+export { VIEW_PERMIT_TYPES, toViewPermitArgs } from "./permit";
+export { parseProgramManifest, planProgramSeed, seedPrograms } from "./seed";
+export type {
+  ProgramDrift,
+  ProgramField,
+  ProgramManifest,
+  ProgramManifestEntry,
+  SeedAction,
+  SeedOptions,
+  SeedStep,
+} from "./seed";
+export * from "./types";
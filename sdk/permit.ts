@@ -0,0 +1,30 @@
+import type { TypedDataField } from "ethers";
+import type { SignedViewPermit } from "./types";
+
+/**
+ * EIP-712 definitions for view permits.
+ *
+ * Applicant reads are scoped to `msg.sender`, which an `eth_call` does not
+ * authenticate. A permit signed by the applicant lets a service read their
+ * applications until the deadline, and proves the applicant asked it to.
+ * Permits share the contract's domain (see `relayDomain`) and must match
+ * `VIEW_PERMIT_TYPEHASH`. Anyone holding a permit can use it, so keep deadlines short.
+ */
+
+export const VIEW_PERMIT_TYPES: Record<string, TypedDataField[]> = {
+  ViewPermit: [
+    { name: "holder", type: "address" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/**
+ * Splits a signed permit into the `ViewPermit` struct and the signature the
+ * `...WithPermit` views take.
+ */
+export function toViewPermitArgs(permit: SignedViewPermit) {
+  return {
+    struct: { holder: permit.holder, deadline: BigInt(permit.deadline) },
+    signature: permit.signature,
+  };
+}
@@ -0,0 +1,52 @@
+import type { TypedDataDomain, TypedDataField } from "ethers";
+import type { SignedRelayedApplication } from "./types";
+
+/**
+ * EIP-712 definitions for relayed application submission.
+ *
+ * The applicant signs with a one-time application key whose address is recorded
+ * as the applicant, so their wallet never appears on-chain and the relayer pays the gas.
+ * Must match `RELAYED_APPLICATION_TYPEHASH` and `domainSeparator()` in the contract.
+ */
+
+export const RELAY_DOMAIN_NAME = "AnonymousScholarshipApplication";
+export const RELAY_DOMAIN_VERSION = "1";
+
+export const RELAYED_APPLICATION_TYPES: Record<string, TypedDataField[]> = {
+  RelayedApplication: [
+    { name: "applicant", type: "address" },
+    { name: "programId", type: "uint256" },
+    { name: "criteria", type: "bytes32[]" },
+    { name: "gpa", type: "bytes32" },
+    { name: "householdIncome", type: "bytes32" },
+    { name: "inputProof", type: "bytes" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export function relayDomain(contractAddress: string, chainId: bigint | number): TypedDataDomain {
+  return {
+    name: RELAY_DOMAIN_NAME,
+    version: RELAY_DOMAIN_VERSION,
+    chainId,
+    verifyingContract: contractAddress,
+  };
+}
+
+/**
+ * Splits a signed application into the `RelayedApplication` struct and the signature
+ * `submitRelayedApplication` takes.
+ */
+export function toRelayedApplicationArgs(application: SignedRelayedApplication) {
+  const { signature, ...fields } = application;
+  return {
+    struct: {
+      ...fields,
+      programId: BigInt(fields.programId),
+      nonce: BigInt(fields.nonce),
+      deadline: BigInt(fields.deadline),
+    },
+    signature,
+  };
+}
@@ -0,0 +1,216 @@
+import { ScholarshipClientError } from "./errors";
+
+/**
+ * Eligibility rule builder for AnonymousScholarshipApplication programs.
+ *
+ * A rule is a tree of groups over leaves. On-chain it is stored as a postfix
+ * node list: leaves push an encrypted boolean, groups pop `arity` operands and
+ * push their combination. `serializeRule` produces that list for `createProgram`
+ * and `deserializeRule` turns `getProgramRule` output back into a tree.
+ *
+ *   const rule = Rule.allOf(
+ *     Rule.minGpa(),
+ *     Rule.atLeast(2, Rule.criterion(0), Rule.criterion(1), Rule.criterion(2), Rule.criterion(3))
+ *   );
+ */
+
+/** Mirrors `AnonymousScholarshipApplication.RuleOp`. */
+export enum RuleOp {
+  Criterion = 0,
+  MinGpa = 1,
+  MaxHouseholdIncome = 2,
+  AllOf = 3,
+  AnyOf = 4,
+  AtLeast = 5,
+}
+
+/** Mirrors `MAX_RULE_NODES` and `MAX_CRITERIA` in the contract. */
+export const MAX_RULE_NODES = 32;
+export const MAX_CRITERIA = 16;
+
+export type EligibilityRule =
+  | { kind: "criterion"; index: number; weight: number }
+  | { kind: "minGpa"; weight: number }
+  | { kind: "maxHouseholdIncome"; weight: number }
+  | { kind: "allOf"; rules: EligibilityRule[]; weight: number }
+  | { kind: "anyOf"; rules: EligibilityRule[]; weight: number }
+  | { kind: "atLeast"; threshold: number; rules: EligibilityRule[]; weight: number };
+
+/** One entry of the postfix list, shaped like the contract's `RuleNode` struct. */
+export interface RuleNode {
+  op: RuleOp;
+  index: number;
+  arity: number;
+  weight: number;
+  threshold: number;
+}
+
+export interface SerializedRule {
+  /** Number of encrypted boolean criteria each application must carry. */
+  criteriaCount: number;
+  nodes: RuleNode[];
+}
+
+export const Rule = {
+  /** The applicant's encrypted boolean criterion at `index`. */
+  criterion(index: number): EligibilityRule {
+    return { kind: "criterion", index, weight: 1 };
+  },
+
+  /** Applicant GPA is at least the program's encrypted minimum. */
+  minGpa(): EligibilityRule {
+    return { kind: "minGpa", weight: 1 };
+  },
+
+  /** Applicant household income is at most the program's encrypted maximum. */
+  maxHouseholdIncome(): EligibilityRule {
+    return { kind: "maxHouseholdIncome", weight: 1 };
+  },
+
+  allOf(...rules: EligibilityRule[]): EligibilityRule {
+    return { kind: "allOf", rules, weight: 1 };
+  },
+
+  anyOf(...rules: EligibilityRule[]): EligibilityRule {
+    return { kind: "anyOf", rules, weight: 1 };
+  },
+
+  /** Satisfied when the weights of the satisfied operands add up to `threshold`. */
+  atLeast(threshold: number, ...rules: EligibilityRule[]): EligibilityRule {
+    return { kind: "atLeast", threshold, rules, weight: 1 };
+  },
+
+  /** Sets the weight `rule` contributes to an enclosing `atLeast` group. */
+  weighted(weight: number, rule: EligibilityRule): EligibilityRule {
+    return { ...rule, weight };
+  },
+};
+
+/**
+ * The rule every program used before rules were configurable: financial need
+ * (criterion 0), academic criteria (criterion 1) and both numeric thresholds.
+ */
+export const DEFAULT_RULE: EligibilityRule = Rule.allOf(
+  Rule.criterion(0),
+  Rule.criterion(1),
+  Rule.minGpa(),
+  Rule.maxHouseholdIncome()
+);
+
+function invalidRule(message: string): ScholarshipClientError {
+  return new ScholarshipClientError("INVALID_RULE", `Invalid rule: ${message}`);
+}
+
+function assertUint(value: number, max: number, what: string): void {
+  if (!Number.isInteger(value) || value < 0 || value > max) {
+    throw invalidRule(`${what} must be an integer between 0 and ${max}, got ${value}`);
+  }
+}
+
+/**
+ * Flattens a rule tree into the postfix node list accepted by `createProgram`.
+ * Performs the same structural checks as the contract so bad rules fail before
+ * a transaction is sent.
+ */
+export function serializeRule(rule: EligibilityRule): SerializedRule {
+  const nodes: RuleNode[] = [];
+  let criteriaCount = 0;
+
+  const visit = (node: EligibilityRule): void => {
+    assertUint(node.weight, 0xff, "weight");
+    const leaf = { index: 0, arity: 0, weight: node.weight, threshold: 0 };
+
+    switch (node.kind) {
+      case "criterion":
+        assertUint(node.index, MAX_CRITERIA - 1, "criterion index");
+        criteriaCount = Math.max(criteriaCount, node.index + 1);
+        nodes.push({ ...leaf, op: RuleOp.Criterion, index: node.index });
+        return;
+      case "minGpa":
+        nodes.push({ ...leaf, op: RuleOp.MinGpa });
+        return;
+      case "maxHouseholdIncome":
+        nodes.push({ ...leaf, op: RuleOp.MaxHouseholdIncome });
+        return;
+      default: {
+        if (node.rules.length === 0) {
+          throw invalidRule(`${node.kind} group has no operands`);
+        }
+        assertUint(node.rules.length, 0xff, "group size");
+        node.rules.forEach(visit);
+
+        const group = { ...leaf, arity: node.rules.length };
+        if (node.kind === "atLeast") {
+          assertUint(node.threshold, 0xffff, "threshold");
+          if (node.threshold === 0) {
+            throw invalidRule("atLeast threshold must be positive");
+          }
+          nodes.push({ ...group, op: RuleOp.AtLeast, threshold: node.threshold });
+        } else {
+          nodes.push({ ...group, op: node.kind === "allOf" ? RuleOp.AllOf : RuleOp.AnyOf });
+        }
+      }
+    }
+  };
+
+  visit(rule);
+  if (nodes.length > MAX_RULE_NODES) {
+    throw invalidRule(`rule has ${nodes.length} nodes, the contract accepts at most ${MAX_RULE_NODES}`);
+  }
+
+  return { criteriaCount, nodes };
+}
+
+/**
+ * Rebuilds a rule tree from the postfix node list returned by `getProgramRule`.
+ */
+export function deserializeRule(
+  nodes: ReadonlyArray<{
+    op: bigint | number;
+    index: bigint | number;
+    arity: bigint | number;
+    weight: bigint | number;
+    threshold: bigint | number;
+  }>
+): EligibilityRule {
+  const stack: EligibilityRule[] = [];
+
+  for (const node of nodes) {
+    const weight = Number(node.weight);
+    const op = Number(node.op) as RuleOp;
+
+    switch (op) {
+      case RuleOp.Criterion:
+        stack.push({ kind: "criterion", index: Number(node.index), weight });
+        break;
+      case RuleOp.MinGpa:
+        stack.push({ kind: "minGpa", weight });
+        break;
+      case RuleOp.MaxHouseholdIncome:
+        stack.push({ kind: "maxHouseholdIncome", weight });
+        break;
+      case RuleOp.AllOf:
+      case RuleOp.AnyOf:
+      case RuleOp.AtLeast: {
+        const arity = Number(node.arity);
+        if (arity === 0 || arity > stack.length) {
+          throw invalidRule("malformed node list");
+        }
+        const rules = stack.splice(stack.length - arity, arity);
+        if (op === RuleOp.AtLeast) {
+          stack.push({ kind: "atLeast", threshold: Number(node.threshold), rules, weight });
+        } else {
+          stack.push({ kind: op === RuleOp.AllOf ? "allOf" : "anyOf", rules, weight });
+        }
+        break;
+      }
+      default:
+        throw invalidRule(`unknown rule op ${op}`);
+    }
+  }
+
+  if (stack.length !== 1) {
+    throw invalidRule("malformed node list");
+  }
+  return stack[0];
+}
@@ -0,0 +1,226 @@
+import { ScholarshipClientError } from "./errors";
+import type { ScholarshipClient } from "./ScholarshipClient";
+import { DEFAULT_RULE, serializeRule } from "./rules";
+import type { EligibilityRule } from "./rules";
+
+/**
+ * Declarative program seeding from a manifest.
+ *
+ * A manifest lists the programs an administrator wants to exist. Each entry is
+ * matched by name against the programs the connected signer administers: missing
+ * programs are created, matching ones are compared field by field and any drift
+ * is reported. Seeding never edits or duplicates an existing program, so running
+ * it again with the same manifest is a no-op.
+ *
+ * The thresholds and budget are encrypted on-chain and cannot be compared without
+ * decrypting them; they only take effect when a program is created.
+ */
+
+const DAY = 24 * 60 * 60;
+
+export interface ProgramManifestEntry {
+  name: string;
+  description: string;
+  maxApplications: number;
+  /** Minimum GPA scaled by 100 (3.50 => 350). */
+  minGpa: number;
+  maxHouseholdIncome: number;
+  budget: number;
+  /** Defaults to `DEFAULT_RULE`. */
+  rule?: EligibilityRule;
+  /**
+   * Absolute Unix timestamps, as numbers or decimal strings. Without one, a new
+   * program opens at seeding time, closes 90 days later and is reviewed within 30 more,
+   * and the schedule of an existing program is not compared.
+   */
+  schedule?: { opensAt: number | string; closesAt: number | string; reviewDeadline: number | string };
+}
+
+export interface ProgramManifest {
+  programs: ProgramManifestEntry[];
+}
+
+export type ProgramField = "description" | "maxApplications" | "rule" | "opensAt" | "closesAt" | "reviewDeadline";
+
+export interface ProgramDrift {
+  field: ProgramField;
+  manifest: string;
+  onChain: string;
+}
+
+export type SeedAction = "create" | "created" | "unchanged" | "drift";
+
+export interface SeedStep {
+  name: string;
+  /** `create` in a plan, `created` once `seedPrograms` has sent the transaction. */
+  action: SeedAction;
+  /** Matching program on-chain; null until a missing program is created. */
+  programId: bigint | null;
+  drift: ProgramDrift[];
+  transactionHash?: string;
+}
+
+export interface SeedOptions {
+  /** Plan only: report what would be created without sending any transaction. */
+  dryRun?: boolean;
+}
+
+function invalidManifest(message: string): ScholarshipClientError {
+  return new ScholarshipClientError("INVALID_MANIFEST", `Invalid manifest: ${message}`);
+}
+
+/**
+ * Checks a parsed JSON or YAML document against the manifest shape, including
+ * each rule, so a bad entry fails before anything is sent.
+ */
+export function parseProgramManifest(document: unknown): ProgramManifest {
+  const programs = (document as { programs?: unknown } | null)?.programs;
+  if (!Array.isArray(programs)) {
+    throw invalidManifest("expected a `programs` list");
+  }
+
+  const names = new Set<string>();
+  for (const [i, entry] of programs.entries()) {
+    const where = `programs[${i}]`;
+    if (typeof entry?.name !== "string" || entry.name.length === 0) {
+      throw invalidManifest(`${where}.name must be a non-empty string`);
+    }
+    if (names.has(entry.name)) {
+      throw invalidManifest(`duplicate program name "${entry.name}"`);
+    }
+    names.add(entry.name);
+
+    if (typeof entry.description !== "string") {
+      throw invalidManifest(`${where}.description must be a string`);
+    }
+    for (const field of ["maxApplications", "minGpa", "maxHouseholdIncome", "budget"]) {
+      if (!Number.isSafeInteger(entry[field]) || entry[field] < 0) {
+        throw invalidManifest(`${where}.${field} must be a non-negative integer`);
+      }
+    }
+    if (entry.rule !== undefined) {
+      serializeRule(entry.rule);
+    }
+    if (entry.schedule !== undefined) {
+      for (const field of ["opensAt", "closesAt", "reviewDeadline"]) {
+        if (!/^\d+$/.test(String(entry.schedule?.[field]))) {
+          throw invalidManifest(`${where}.schedule.${field} must be a Unix timestamp`);
+        }
+      }
+    }
+  }
+
+  return { programs };
+}
+
+/**
+ * Matches manifest entries by name to programs administered by the connected signer
+ * and reports the step `seedPrograms` would take for each. When several programs share
+ * a name, the oldest one is the match.
+ */
+export async function planProgramSeed(client: ScholarshipClient, manifest: ProgramManifest): Promise<SeedStep[]> {
+  const administrator = await client.signer.getAddress();
+  const count = await client.contract.programCount();
+
+  const existing = new Map<string, bigint>();
+  for (let programId = 1n; programId <= count; programId++) {
+    const program = await client.contract.programs(programId);
+    if (program.administrator === administrator && !existing.has(program.name)) {
+      existing.set(program.name, programId);
+    }
+  }
+
+  const steps: SeedStep[] = [];
+  for (const entry of manifest.programs) {
+    const programId = existing.get(entry.name);
+    if (programId === undefined) {
+      steps.push({ name: entry.name, action: "create", programId: null, drift: [] });
+      continue;
+    }
+    const drift = await compareProgram(client, programId, entry);
+    steps.push({ name: entry.name, action: drift.length > 0 ? "drift" : "unchanged", programId, drift });
+  }
+  return steps;
+}
+
+/**
+ * Creates every manifest program the signer does not administer yet and reports drift
+ * on the others. With `dryRun`, returns the plan without sending anything.
+ */
+export async function seedPrograms(
+  client: ScholarshipClient,
+  manifest: ProgramManifest,
+  options: SeedOptions = {}
+): Promise<SeedStep[]> {
+  const steps = await planProgramSeed(client, manifest);
+  if (options.dryRun) {
+    return steps;
+  }
+
+  const now = await latestTimestamp(client);
+  for (const [i, step] of steps.entries()) {
+    if (step.action !== "create") {
+      continue;
+    }
+    const entry = manifest.programs[i];
+    const { programId, transactionHash } = await client.createProgram({
+      name: entry.name,
+      description: entry.description,
+      maxApplications: entry.maxApplications,
+      minGpa: entry.minGpa,
+      maxHouseholdIncome: entry.maxHouseholdIncome,
+      budget: entry.budget,
+      rule: entry.rule ?? DEFAULT_RULE,
+      schedule: entry.schedule
+        ? {
+            opensAt: BigInt(entry.schedule.opensAt),
+            closesAt: BigInt(entry.schedule.closesAt),
+            reviewDeadline: BigInt(entry.schedule.reviewDeadline),
+          }
+        : { opensAt: now, closesAt: now + BigInt(90 * DAY), reviewDeadline: now + BigInt(120 * DAY) },
+    });
+    steps[i] = { ...step, action: "created", programId, transactionHash };
+  }
+  return steps;
+}
+
+async function compareProgram(
+  client: ScholarshipClient,
+  programId: bigint,
+  entry: ProgramManifestEntry
+): Promise<ProgramDrift[]> {
+  const [program, { rule }, schedule] = await Promise.all([
+    client.getProgram(programId),
+    client.getProgramRule(programId),
+    client.getProgramSchedule(programId),
+  ]);
+
+  const drift: ProgramDrift[] = [];
+  const compare = (field: ProgramField, manifest: string, onChain: string) => {
+    if (manifest !== onChain) {
+      drift.push({ field, manifest, onChain });
+    }
+  };
+
+  compare("description", entry.description, program.description);
+  compare("maxApplications", String(entry.maxApplications), program.maxApplications.toString());
+  compare(
+    "rule",
+    JSON.stringify(serializeRule(entry.rule ?? DEFAULT_RULE).nodes),
+    JSON.stringify(serializeRule(rule).nodes)
+  );
+  if (entry.schedule) {
+    for (const field of ["opensAt", "closesAt", "reviewDeadline"] as const) {
+      compare(field, BigInt(entry.schedule[field]).toString(), schedule[field].toString());
+    }
+  }
+  return drift;
+}
+
+async function latestTimestamp(client: ScholarshipClient): Promise<bigint> {
+  const block = await client.signer.provider?.getBlock("latest");
+  if (!block) {
+    throw new ScholarshipClientError("UNKNOWN", "seedPrograms needs a signer connected to a provider");
+  }
+  return BigInt(block.timestamp);
+}
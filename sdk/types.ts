@@ -0,0 +1,324 @@
+import type { Signer } from "ethers";
+import type { EligibilityRule } from "./rules";
+
+/**
+ * Shared types for the ScholarshipClient SDK.
+ */
+
+/**
+ * Builder returned by `createEncryptedInput`, satisfied by both the Hardhat
+ * fhevm mock and a relayer SDK `FhevmInstance`.
+ */
+export interface EncryptedInputBuilder {
+  addBool(value: boolean): EncryptedInputBuilder;
+  add8(value: bigint | number): EncryptedInputBuilder;
+  add16(value: bigint | number): EncryptedInputBuilder;
+  add32(value: bigint | number): EncryptedInputBuilder;
+  add64(value: bigint | number): EncryptedInputBuilder;
+  encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+}
+
+/** KMS-signed result of a public decryption, in the form `FHE.checkSignatures` verifies. */
+export interface PublicDecryptionResult {
+  abiEncodedClearValues: string;
+  decryptionProof: string;
+}
+
+/** `FhevmType` tags `userDecryptEuint` expects for review scores, budgets and awards. */
+export const FHEVM_TYPE_EUINT16 = 3;
+export const FHEVM_TYPE_EUINT64 = 5;
+
+/** Minimal FHEVM surface the client needs to encrypt inputs and decrypt results. */
+export interface ScholarshipFhevm {
+  createEncryptedInput(contractAddress: string, userAddress: string): EncryptedInputBuilder;
+  userDecryptEbool(handle: string, contractAddress: string, user: Signer): Promise<boolean>;
+  userDecryptEuint(fhevmType: number, handle: string, contractAddress: string, user: Signer): Promise<bigint>;
+  publicDecrypt(handles: string[]): Promise<PublicDecryptionResult>;
+}
+
+export interface CreateProgramParams {
+  name: string;
+  description: string;
+  maxApplications: bigint | number;
+  /** Eligibility rule evaluated homomorphically over each application's encrypted inputs. */
+  rule: EligibilityRule;
+  /** Minimum GPA scaled by 100 (3.50 => 350); encrypted before it is sent. */
+  minGpa: bigint | number;
+  /** Maximum annual household income; encrypted before it is sent. */
+  maxHouseholdIncome: bigint | number;
+  /** Total funds the program may award; encrypted before it is sent. */
+  budget: bigint | number;
+  schedule: ProgramSchedule;
+}
+
+/** Unix timestamps in seconds, mirroring `AnonymousScholarshipApplication.ProgramSchedule`. */
+export interface ProgramSchedule {
+  /** First second applications are accepted. */
+  opensAt: bigint | number;
+  /** Applications are rejected from this second on. */
+  closesAt: bigint | number;
+  /** Last second the administrator may process applications; not before `closesAt`. */
+  reviewDeadline: bigint | number;
+}
+
+/** Mirrors `AnonymousScholarshipApplication.ProgramStatus`. */
+export enum ProgramStatus {
+  Open,
+  Closed,
+  Archived,
+}
+
+export interface ProgramInfo {
+  programId: bigint;
+  name: string;
+  description: string;
+  maxApplications: bigint;
+  currentApplications: bigint;
+  /** Whether the program takes applications, i.e. `status` is `Open`. */
+  isActive: boolean;
+  status: ProgramStatus;
+  /** Whether an applicant whose application was withdrawn may apply again. */
+  resubmissionAllowed: boolean;
+}
+
+export interface UpdateProgramParams {
+  name: string;
+  description: string;
+  /** Not below the program's current number of applications. */
+  maxApplications: bigint | number;
+}
+
+export interface SubmitApplicationParams {
+  programId: bigint | number;
+  /** Boolean criteria in the order the program rule indexes them. */
+  criteria: boolean[];
+  /** GPA scaled by 100 (3.50 => 350). */
+  gpa: bigint | number;
+  householdIncome: bigint | number;
+}
+
+/**
+ * An application signed by a one-time application key, ready for a relayer to post.
+ * Every field is a string so it can be sent to the relayer as JSON unchanged.
+ */
+export interface SignedRelayedApplication {
+  /** Address of the application key; recorded on-chain as the applicant. */
+  applicant: string;
+  programId: string;
+  /** Criterion handles, encrypted for the relayer's address. */
+  criteria: string[];
+  gpa: string;
+  householdIncome: string;
+  inputProof: string;
+  nonce: string;
+  /** Unix timestamp after which the contract rejects the signature. */
+  deadline: string;
+  signature: string;
+}
+
+export interface SignedViewPermit {
+  /** Address whose applications the permit unlocks. */
+  holder: string;
+  /** Unix timestamp after which the contract rejects the permit. */
+  deadline: string;
+  signature: string;
+}
+
+export interface RelayerInfo {
+  /** Address that posts applications; inputs must be encrypted for it. */
+  relayer: string;
+  contract: string;
+  chainId: string;
+}
+
+export interface IndexerStatus {
+  contract: string;
+  chainId: string;
+  /** Last block indexed; events up to and including it are served. */
+  block: number;
+  /** Message of the last failed sync, cleared by the next successful one. */
+  error?: string;
+}
+
+/** A program as seen through its events; encrypted terms and settings stay on-chain. */
+export interface IndexedProgram {
+  programId: string;
+  name: string;
+  description: string;
+  /** Places in the program, as a decimal string. */
+  maxApplications: string;
+  status: ProgramStatus;
+  administrator: string;
+  blockNumber: number;
+  /** Unix timestamp of the block the program was created in. */
+  createdAt: number;
+  transactionHash: string;
+  /** Applications holding a place: submitted or promoted, and not withdrawn or disqualified. */
+  applicationCount: number;
+  /** Applications waiting for a place. */
+  waitlistCount: number;
+  processedCount: number;
+}
+
+/** One `ApplicationProcessed` event; the decision itself stays encrypted. */
+export interface ProcessingRecord {
+  applicationId: string;
+  blockNumber: number;
+  /** Unix timestamp of the block the application was processed in. */
+  processedAt: number;
+  transactionHash: string;
+}
+
+export type RelayedApplicationState = "queued" | "submitted" | "failed";
+
+export interface RelayedApplicationStatus {
+  id: string;
+  state: RelayedApplicationState;
+  applicationId?: string;
+  transactionHash?: string;
+  error?: { code: string; message: string };
+}
+
+export interface ProgramRule {
+  criteriaCount: number;
+  rule: EligibilityRule;
+}
+
+export interface ReviewCommittee {
+  reviewers: string[];
+  /** Reviews an application needs before the administrator may process it. */
+  quorum: number;
+}
+
+export interface ApplicationScore {
+  /** Sum of every reviewer score submitted so far. */
+  totalScore: bigint;
+  reviewCount: number;
+}
+
+/** Mirrors `AnonymousScholarshipApplication.SelectionPhase`. */
+export enum SelectionPhase {
+  None,
+  Keys,
+  Compare,
+  Finalize,
+  Completed,
+}
+
+export interface SelectionProgress {
+  /** Number of top-ranked eligible applications to select. */
+  k: number;
+  phase: SelectionPhase;
+  poolSize: number;
+  stepsDone: bigint;
+  /** Two steps per application plus one per pair of applications. */
+  totalSteps: bigint;
+}
+
+export interface RunSelectionOptions {
+  /** Steps per `advanceSelection` transaction; bounds the gas of each batch. Defaults to 8. */
+  batchSize?: number;
+  onProgress?: (progress: SelectionProgress) => void;
+}
+
+export interface ClaimApplicationAccessOptions {
+  /** Applications granted per `claimApplicationAccess` transaction; bounds the gas of each batch. Defaults to 20. */
+  batchSize?: number;
+}
+
+export interface PageOptions {
+  /** Application ids read per call; bounds the response of each page. Defaults to 100. */
+  pageSize?: number;
+}
+
+export interface SelectionResult {
+  programId: bigint;
+  /** One hash per transaction sent, `startSelection` included when it was sent. */
+  transactionHashes: string[];
+}
+
+export interface ApplicationSummary {
+  applicationId: bigint;
+  applicant: string;
+  programId: bigint;
+  timestamp: bigint;
+  processed: boolean;
+  /** Withdrawn by the applicant; the program administrator can no longer read it. */
+  withdrawn: boolean;
+}
+
+export interface ProgramCreatedResult {
+  programId: bigint;
+  transactionHash: string;
+}
+
+export interface ApplicationSubmittedResult {
+  applicationId: bigint;
+  programId: bigint;
+  transactionHash: string;
+}
+
+/** The decision itself stays encrypted; use `decryptDecision` to read it. */
+export interface ApplicationProcessedResult {
+  applicationId: bigint;
+  transactionHash: string;
+}
+
+export interface AwardPublication {
+  requestId: bigint;
+  programId: bigint;
+  /** Handles of the program's award count and amount awarded, in that order. */
+  handles: string[];
+  fulfilled: boolean;
+}
+
+export interface AwardPublicationRequestedResult {
+  requestId: bigint;
+  programId: bigint;
+  handles: string[];
+  transactionHash: string;
+}
+
+/** Aggregates only: which applicants were awarded stays private to them. */
+export interface AwardResults {
+  awardCount: bigint;
+  awardedAmount: bigint;
+}
+
+export interface AwardsPublishedResult {
+  requestId: bigint;
+  programId: bigint;
+  awardCount: bigint;
+  awardedAmount: bigint;
+  transactionHash: string;
+}
+
+export interface ApplicationSubmittedEventData {
+  applicationId: bigint;
+  programId: bigint;
+  applicant: string;
+}
+
+export interface ApplicationProcessedEventData {
+  applicationId: bigint;
+}
+
+export interface ApplicationPromotedEventData {
+  applicationId: bigint;
+  programId: bigint;
+}
+
+export interface AwardPublicationRequestedEventData {
+  requestId: bigint;
+  programId: bigint;
+  handles: string[];
+}
+
+export interface ProgramCreatedEventData {
+  programId: bigint;
+  name: string;
+  administrator: string;
+}
+
+/** Call to stop receiving events from a subscription. */
+export type Unsubscribe = () => Promise<void>;
@@ -0,0 +1,225 @@
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from "fs";
+import path from "path";
+import { Interface } from "ethers";
+import type { InterfaceAbi } from "ethers";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * Deployment manifests: one `manifests/<network>.json` per network, recording the
+ * address, ABI, deploy block and transaction of each deployed contract. The deploy
+ * script writes them; the tasks, the relayer and `index.html` read them.
+ *
+ *   npx hardhat scholarship:check-manifest
+ *
+ * fails when a manifest's ABI, which is the ABI the frontend uses, no longer matches
+ * the compiled artifact, meaning the contract changed and must be redeployed.
+ */
+
+/** Bumped whenever the manifest layout changes; readers reject other versions. */
+export const MANIFEST_VERSION = 1;
+export const MANIFEST_DIR = path.join(__dirname, "..", "manifests");
+
+export interface ContractManifest {
+  address: string;
+  abi: InterfaceAbi;
+  deployBlock: number | null;
+  transactionHash: string | null;
+  /** Implementation behind `address`, for contracts deployed behind a proxy. */
+  implementation?: string;
+  /** Storage layout of the implementation, which later upgrades must stay compatible with. */
+  storageLayout?: StorageLayout;
+}
+
+/** A contract's storage layout as reported by solc. */
+export interface StorageLayout {
+  storage: StorageVariable[];
+  types: Record<string, StorageType> | null;
+}
+
+export interface StorageVariable {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+}
+
+export interface StorageType {
+  label: string;
+  encoding: "inplace" | "mapping" | "dynamic_array" | "bytes";
+  numberOfBytes: string;
+  /** Struct members. */
+  members?: StorageVariable[];
+  /** Mapping key and value types. */
+  key?: string;
+  value?: string;
+  /** Array element type. */
+  base?: string;
+}
+
+export interface DeploymentManifest {
+  version: number;
+  network: string;
+  chainId: number;
+  contracts: Record<string, ContractManifest>;
+}
+
+export interface AbiDifference {
+  contract: string;
+  /** Fragments in the artifact but not the manifest. */
+  missing: string[];
+  /** Fragments in the manifest but not the artifact. */
+  stale: string[];
+}
+
+export function manifestPath(network: string, directory: string = MANIFEST_DIR): string {
+  return path.join(directory, `${network}.json`);
+}
+
+/**
+ * Returns null when the network has no manifest; throws on a manifest written by
+ * another manifest version.
+ */
+export function readDeploymentManifest(network: string, directory: string = MANIFEST_DIR): DeploymentManifest | null {
+  const file = manifestPath(network, directory);
+  if (!existsSync(file)) {
+    return null;
+  }
+  const manifest = JSON.parse(readFileSync(file, "utf8")) as DeploymentManifest;
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new Error(`${file} has manifest version ${manifest.version}; expected ${MANIFEST_VERSION}`);
+  }
+  return manifest;
+}
+
+/** Storage layout of the compiled `contractName`, read from its build info. */
+export async function readStorageLayout(hre: HardhatRuntimeEnvironment, contractName: string): Promise<StorageLayout> {
+  const { sourceName } = await hre.artifacts.readArtifact(contractName);
+  const buildInfo = await hre.artifacts.getBuildInfo(`${sourceName}:${contractName}`);
+  const output = buildInfo?.output.contracts[sourceName][contractName] as { storageLayout?: StorageLayout } | undefined;
+  if (!output?.storageLayout) {
+    throw new Error(`No storage layout for ${contractName}; recompile with npx hardhat compile --force`);
+  }
+  return output.storageLayout;
+}
+
+/**
+ * Records the hardhat-deploy deployments of `contractNames` in the selected network's
+ * manifest, keeping the entries of other contracts. A proxied contract is recorded at
+ * its proxy address with the ABI and storage layout of its implementation.
+ */
+export async function writeDeploymentManifest(
+  hre: HardhatRuntimeEnvironment,
+  contractNames: string[],
+  directory: string = MANIFEST_DIR
+): Promise<DeploymentManifest> {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const manifest = readDeploymentManifest(hre.network.name, directory) ?? {
+    version: MANIFEST_VERSION,
+    network: hre.network.name,
+    chainId: Number(chainId),
+    contracts: {},
+  };
+
+  for (const name of contractNames) {
+    const deployment = await hre.deployments.get(name);
+    manifest.contracts[name] = {
+      address: deployment.address,
+      abi: deployment.abi,
+      deployBlock: deployment.receipt?.blockNumber ?? null,
+      transactionHash: deployment.transactionHash ?? null,
+    };
+    if (deployment.implementation) {
+      // The proxied deployment's ABI also carries the proxy's own functions and events
+      manifest.contracts[name].abi = (await hre.artifacts.readArtifact(name)).abi;
+      manifest.contracts[name].implementation = deployment.implementation;
+      manifest.contracts[name].storageLayout = await readStorageLayout(hre, name);
+    }
+  }
+  manifest.chainId = Number(chainId);
+
+  mkdirSync(directory, { recursive: true });
+  writeFileSync(manifestPath(hre.network.name, directory), JSON.stringify(manifest, null, 2) + "\n");
+  return manifest;
+}
+
+/**
+ * Finds `contractName` on the selected network: in its manifest, or else in the
+ * hardhat-deploy deployments, which is all the in-process Hardhat network has.
+ */
+export async function resolveDeployment(
+  hre: HardhatRuntimeEnvironment,
+  contractName: string,
+  directory: string = MANIFEST_DIR
+): Promise<ContractManifest | null> {
+  const entry = readDeploymentManifest(hre.network.name, directory)?.contracts[contractName];
+  if (entry) {
+    return entry;
+  }
+  const deployment = await hre.deployments.getOrNull(contractName);
+  return deployment
+    ? {
+        address: deployment.address,
+        abi: deployment.abi,
+        deployBlock: deployment.receipt?.blockNumber ?? null,
+        transactionHash: deployment.transactionHash ?? null,
+      }
+    : null;
+}
+
+/**
+ * Compares a manifest ABI with the compiled artifact fragment by fragment, including
+ * parameter names, since the frontend reads return values by name.
+ */
+export async function diffAbi(
+  hre: HardhatRuntimeEnvironment,
+  contractName: string,
+  abi: InterfaceAbi
+): Promise<AbiDifference | null> {
+  const artifact = await hre.artifacts.readArtifact(contractName);
+  const signatures = (abi: InterfaceAbi) =>
+    new Set(Interface.from(abi).fragments.map((fragment) => fragment.format("full")));
+  const compiled = signatures(artifact.abi);
+  const recorded = signatures(abi);
+
+  const missing = [...compiled].filter((signature) => !recorded.has(signature));
+  const stale = [...recorded].filter((signature) => !compiled.has(signature));
+  return missing.length > 0 || stale.length > 0 ? { contract: contractName, missing, stale } : null;
+}
+
+task("scholarship:check-manifest", "Fails when a deployment manifest's ABI no longer matches the compiled contract")
+  .addOptionalParam("manifests", "Directory holding the <network>.json manifests", MANIFEST_DIR)
+  .setAction(async (args: { manifests: string }, hre) => {
+    await hre.run("compile", { quiet: true });
+
+    const networks = existsSync(args.manifests)
+      ? readdirSync(args.manifests)
+          .filter((file) => file.endsWith(".json"))
+          .map((file) => path.basename(file, ".json"))
+      : [];
+
+    const differences: (AbiDifference & { network: string })[] = [];
+    for (const network of networks) {
+      const manifest = readDeploymentManifest(network, args.manifests)!;
+      for (const [name, entry] of Object.entries(manifest.contracts)) {
+        const difference = await diffAbi(hre, name, entry.abi);
+        if (difference) {
+          differences.push({ network, ...difference });
+        } else {
+          console.log(`${network}: ${name} at ${entry.address} matches the compiled ABI`);
+        }
+      }
+    }
+
+    if (differences.length > 0) {
+      const report = differences.map(({ network, contract, missing, stale }) =>
+        [
+          `${network}: ${contract} ABI differs from the compiled artifact; redeploy to refresh the manifest`,
+          ...missing.map((signature) => `  + ${signature}`),
+          ...stale.map((signature) => `  - ${signature}`),
+        ].join("\n")
+      );
+      throw new Error(report.join("\n"));
+    }
+    return networks;
+  });
@@ -0,0 +1,427 @@
+import { readFileSync } from "fs";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { load as loadYaml } from "js-yaml";
+import type { EligibilityRule, ScholarshipClient, SeedStep } from "../sdk";
+import { manifestPath, resolveDeployment } from "./manifest";
+
+/**
+ * Day-to-day operations on a deployed AnonymousScholarshipApplication:
+ *
+ *   npx hardhat scholarship:create-program --name "Merit" --description "Top students" \
+ *     --max-applications 50 --min-gpa 350 --max-income 60000 --budget 100000 --network localhost
+ *   npx hardhat scholarship:list-programs --network localhost
+ *   npx hardhat scholarship:apply --program 1 --criteria true,true --gpa 372 --income 41000 --signer 1
+ *   npx hardhat scholarship:withdraw --application 1 --signer 1
+ *   npx hardhat scholarship:waitlist --application 3 --signer 2
+ *   npx hardhat scholarship:disqualify --application 1
+ *   npx hardhat scholarship:process --application 1 --decision approve --amount 2500
+ *   npx hardhat scholarship:update-program --program 1 --max-applications 80
+ *   npx hardhat scholarship:set-status --program 1 --status closed
+ *   npx hardhat scholarship:toggle --program 1
+ *   npx hardhat scholarship:set-resubmission --program 1 --policy allow
+ *   npx hardhat scholarship:transfer-admin --program 1 --to 0xAbC... && npx hardhat scholarship:accept-admin --program 1 --signer 2
+ *   npx hardhat scholarship:seed --manifest programs.json --dry-run
+ *
+ * The contract address comes from the selected network's deployment manifest (see
+ * tasks/manifest.ts) unless `--address` is given. `--signer` picks an account by index.
+ * Every task prints a table, or JSON with `--json`, and returns the same rows.
+ *
+ * The SDK is imported inside each action: it depends on the typechain bindings,
+ * which do not exist until the first compile, and this file is loaded by the config.
+ */
+
+const CONTRACT_NAME = "AnonymousScholarshipApplication";
+const DAY = 24 * 60 * 60;
+// Indexed by `ProgramStatus`
+const STATUSES = ["open", "closed", "archived"] as const;
+
+export type ProgramRow = {
+  programId: string;
+  name: string;
+  applications: string;
+  maxApplications: string;
+  status: string;
+  opensAt: string;
+  closesAt: string;
+  reviewDeadline: string;
+};
+
+type Row = Record<string, string | number | boolean>;
+
+type CommonArgs = {
+  address?: string;
+  signer: number;
+  json: boolean;
+};
+
+async function connect(hre: HardhatRuntimeEnvironment, args: CommonArgs): Promise<ScholarshipClient> {
+  let address = args.address;
+  if (!address) {
+    const deployment = await resolveDeployment(hre, CONTRACT_NAME);
+    if (!deployment) {
+      throw new Error(
+        `${CONTRACT_NAME} is not in ${manifestPath(hre.network.name)}; run \`npx hardhat deploy\` or pass --address`
+      );
+    }
+    address = deployment.address;
+  }
+
+  const signers = await hre.ethers.getSigners();
+  const signer = signers[args.signer];
+  if (!signer) {
+    throw new Error(`No account at index ${args.signer}; ${signers.length} available`);
+  }
+
+  await hre.fhevm.initializeCLIApi();
+  const { ScholarshipClient } = await import("../sdk");
+  return ScholarshipClient.at(address, signer, hre.fhevm);
+}
+
+function parseInteger(name: string, value: string): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`--${name} must be a non-negative integer, got "${value}"`);
+  }
+  return BigInt(value);
+}
+
+function parseCriteria(value: string): boolean[] {
+  return value.split(",").map((item) => {
+    const criterion = item.trim().toLowerCase();
+    if (criterion === "true" || criterion === "1") {
+      return true;
+    }
+    if (criterion === "false" || criterion === "0") {
+      return false;
+    }
+    throw new Error(`--criteria must be a comma-separated list of true/false, got "${item}"`);
+  });
+}
+
+function readManifest(path: string): unknown {
+  const text = readFileSync(path, "utf8");
+  if (/\.ya?ml$/i.test(path)) {
+    return loadYaml(text);
+  }
+  return JSON.parse(text);
+}
+
+function formatTimestamp(timestamp: bigint): string {
+  return timestamp > BigInt(Number.MAX_SAFE_INTEGER) / 1000n
+    ? "never"
+    : new Date(Number(timestamp) * 1000).toISOString().replace(".000Z", "Z");
+}
+
+function print<T extends Row>(rows: T[], json: boolean): T[] {
+  if (json) {
+    console.log(JSON.stringify(rows, null, 2));
+    return rows;
+  }
+  if (rows.length === 0) {
+    console.log("(none)");
+    return rows;
+  }
+
+  const columns = Object.keys(rows[0]);
+  const cells = rows.map((row) => columns.map((column) => String(row[column])));
+  const widths = columns.map((column, i) => Math.max(column.length, ...cells.map((line) => line[i].length)));
+  const format = (line: string[]) =>
+    line
+      .map((cell, i) => cell.padEnd(widths[i]))
+      .join("  ")
+      .trimEnd();
+
+  console.log(format(columns));
+  console.log(format(widths.map((width) => "-".repeat(width))));
+  for (const line of cells) {
+    console.log(format(line));
+  }
+  return rows;
+}
+
+function scholarshipTask(name: string, description: string) {
+  return task(name, description)
+    .addOptionalParam("address", "Contract address; defaults to the deployment manifest")
+    .addOptionalParam("signer", "Index of the account that sends the transaction", 0, types.int)
+    .addFlag("json", "Print JSON instead of a table");
+}
+
+scholarshipTask("scholarship:create-program", "Creates a program with encrypted thresholds and budget")
+  .addParam("name", "Program name")
+  .addParam("description", "Program description")
+  .addParam("maxApplications", "Maximum number of applications")
+  .addParam("minGpa", "Minimum GPA scaled by 100 (3.50 => 350)")
+  .addParam("maxIncome", "Maximum annual household income")
+  .addParam("budget", "Total funds the program may award")
+  .addOptionalParam("rule", "Eligibility rule as JSON (see sdk/rules.ts); defaults to DEFAULT_RULE")
+  .addOptionalParam("opensAt", "Unix timestamp applications open; defaults to now")
+  .addOptionalParam("closesAt", "Unix timestamp applications close; defaults to 90 days after opening")
+  .addOptionalParam("reviewDeadline", "Unix timestamp of the review deadline; defaults to 30 days after closing")
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    const { DEFAULT_RULE } = await import("../sdk");
+    const rule: EligibilityRule = args.rule ? JSON.parse(args.rule) : DEFAULT_RULE;
+
+    const latest = await hre.ethers.provider.getBlock("latest");
+    const opensAt = args.opensAt ? parseInteger("opens-at", args.opensAt) : BigInt(latest!.timestamp);
+    const closesAt = args.closesAt ? parseInteger("closes-at", args.closesAt) : opensAt + BigInt(90 * DAY);
+    const reviewDeadline = args.reviewDeadline
+      ? parseInteger("review-deadline", args.reviewDeadline)
+      : closesAt + BigInt(30 * DAY);
+
+    const { programId, transactionHash } = await client.createProgram({
+      name: args.name,
+      description: args.description,
+      maxApplications: parseInteger("max-applications", args.maxApplications),
+      minGpa: parseInteger("min-gpa", args.minGpa),
+      maxHouseholdIncome: parseInteger("max-income", args.maxIncome),
+      budget: parseInteger("budget", args.budget),
+      rule,
+      schedule: { opensAt, closesAt, reviewDeadline },
+    });
+
+    return print([{ programId: programId.toString(), name: args.name, transactionHash }], args.json);
+  });
+
+scholarshipTask("scholarship:list-programs", "Lists every program with its schedule").setAction(
+  async (args, hre): Promise<ProgramRow[]> => {
+    const client = await connect(hre, args);
+    const count = await client.contract.programCount();
+
+    const rows: ProgramRow[] = [];
+    for (let programId = 1n; programId <= count; programId++) {
+      const [program, schedule] = await Promise.all([
+        client.getProgram(programId),
+        client.getProgramSchedule(programId),
+      ]);
+      rows.push({
+        programId: programId.toString(),
+        name: program.name,
+        applications: program.currentApplications.toString(),
+        maxApplications: program.maxApplications.toString(),
+        status: STATUSES[program.status],
+        opensAt: formatTimestamp(BigInt(schedule.opensAt)),
+        closesAt: formatTimestamp(BigInt(schedule.closesAt)),
+        reviewDeadline: formatTimestamp(BigInt(schedule.reviewDeadline)),
+      });
+    }
+    return print(rows, args.json);
+  }
+);
+
+scholarshipTask("scholarship:apply", "Encrypts and submits an application")
+  .addParam("program", "Program id")
+  .addParam("criteria", "Comma-separated criteria in rule order, e.g. true,false")
+  .addParam("gpa", "GPA scaled by 100 (3.50 => 350)")
+  .addParam("income", "Annual household income")
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    const { applicationId, programId, transactionHash } = await client.submitApplication({
+      programId: parseInteger("program", args.program),
+      criteria: parseCriteria(args.criteria),
+      gpa: parseInteger("gpa", args.gpa),
+      householdIncome: parseInteger("income", args.income),
+    });
+    // Empty unless the program was full
+    const waitlistPosition = await client.getWaitlistPosition(applicationId);
+
+    return print(
+      [
+        {
+          applicationId: applicationId.toString(),
+          programId: programId.toString(),
+          applicant: await client.signer.getAddress(),
+          waitlistPosition: waitlistPosition?.toString() ?? "",
+          transactionHash,
+        },
+      ],
+      args.json
+    );
+  });
+
+scholarshipTask("scholarship:withdraw", "Withdraws one of the signer's unprocessed applications")
+  .addParam("application", "Application id")
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    const applicationId = parseInteger("application", args.application);
+    const transactionHash = await client.withdrawApplication(applicationId);
+
+    return print([{ applicationId: applicationId.toString(), transactionHash }], args.json);
+  });
+
+scholarshipTask("scholarship:waitlist", "Shows where one of the signer's applications stands on the waitlist")
+  .addParam("application", "Application id")
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    const applicationId = parseInteger("application", args.application);
+    const waitlistPosition = await client.getWaitlistPosition(applicationId);
+
+    return print(
+      [{ applicationId: applicationId.toString(), waitlistPosition: waitlistPosition?.toString() ?? "" }],
+      args.json
+    );
+  });
+
+scholarshipTask("scholarship:disqualify", "Takes an application out of its program, promoting the next waitlisted one")
+  .addParam("application", "Application id")
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    const applicationId = parseInteger("application", args.application);
+    const transactionHash = await client.disqualifyApplication(applicationId);
+
+    return print([{ applicationId: applicationId.toString(), transactionHash }], args.json);
+  });
+
+scholarshipTask("scholarship:process", "Records an encrypted decision and award for an application")
+  .addParam("application", "Application id")
+  .addParam("decision", "approve or reject")
+  .addOptionalParam("amount", "Award amount; only paid out if approved, eligible and funded", "0")
+  .setAction(async (args, hre) => {
+    if (args.decision !== "approve" && args.decision !== "reject") {
+      throw new Error(`--decision must be "approve" or "reject", got "${args.decision}"`);
+    }
+    const client = await connect(hre, args);
+    const { applicationId, transactionHash } = await client.processApplication(
+      parseInteger("application", args.application),
+      args.decision === "approve",
+      parseInteger("amount", args.amount)
+    );
+
+    return print(
+      [{ applicationId: applicationId.toString(), decision: args.decision, amount: args.amount, transactionHash }],
+      args.json
+    );
+  });
+
+scholarshipTask("scholarship:update-program", "Renames a program, rewrites its description or changes its capacity")
+  .addParam("program", "Program id")
+  .addOptionalParam("name", "New name; defaults to the current one")
+  .addOptionalParam("description", "New description; defaults to the current one")
+  .addOptionalParam("maxApplications", "New maximum number of applications; defaults to the current one")
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    const programId = parseInteger("program", args.program);
+    const program = await client.getProgram(programId);
+    const update = {
+      name: args.name ?? program.name,
+      description: args.description ?? program.description,
+      maxApplications: args.maxApplications
+        ? parseInteger("max-applications", args.maxApplications)
+        : program.maxApplications,
+    };
+    const transactionHash = await client.updateProgram(programId, update);
+
+    return print(
+      [
+        {
+          programId: programId.toString(),
+          name: update.name,
+          maxApplications: update.maxApplications.toString(),
+          transactionHash,
+        },
+      ],
+      args.json
+    );
+  });
+
+scholarshipTask("scholarship:set-status", "Closes, reopens or archives a program")
+  .addParam("program", "Program id")
+  .addParam("status", "open, closed or archived; only closed programs can be archived")
+  .setAction(async (args, hre) => {
+    if (!STATUSES.includes(args.status)) {
+      throw new Error(`--status must be one of ${STATUSES.join(", ")}, got "${args.status}"`);
+    }
+    const client = await connect(hre, args);
+    const programId = parseInteger("program", args.program);
+    const transactionHash =
+      args.status === "open"
+        ? await client.reopenProgram(programId)
+        : args.status === "closed"
+        ? await client.closeProgram(programId)
+        : await client.archiveProgram(programId);
+
+    return print([{ programId: programId.toString(), status: args.status, transactionHash }], args.json);
+  });
+
+// Kept from before programs had a status: closes an open program or reopens a closed one
+scholarshipTask("scholarship:toggle", "Opens or closes a program to new applications; see scholarship:set-status")
+  .addParam("program", "Program id")
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    const programId = parseInteger("program", args.program);
+    const { status } = await client.getProgram(programId);
+    const transactionHash =
+      STATUSES[status] === "open" ? await client.closeProgram(programId) : await client.reopenProgram(programId);
+    const { isActive } = await client.getProgram(programId);
+
+    return print([{ programId: programId.toString(), active: isActive, transactionHash }], args.json);
+  });
+
+scholarshipTask("scholarship:set-resubmission", "Lets applicants apply again after withdrawing, or stops them")
+  .addParam("program", "Program id")
+  .addParam("policy", "allow or deny")
+  .setAction(async (args, hre) => {
+    if (args.policy !== "allow" && args.policy !== "deny") {
+      throw new Error(`--policy must be "allow" or "deny", got "${args.policy}"`);
+    }
+    const client = await connect(hre, args);
+    const programId = parseInteger("program", args.program);
+    const transactionHash = await client.setResubmissionPolicy(programId, args.policy === "allow");
+
+    return print([{ programId: programId.toString(), policy: args.policy, transactionHash }], args.json);
+  });
+
+scholarshipTask("scholarship:transfer-admin", "Nominates the next administrator of a program")
+  .addParam("program", "Program id")
+  .addParam("to", "Address of the nominee, who must run scholarship:accept-admin; the zero address cancels")
+  .setAction(async (args, hre) => {
+    if (!hre.ethers.isAddress(args.to)) {
+      throw new Error(`--to must be an address, got "${args.to}"`);
+    }
+    const client = await connect(hre, args);
+    const programId = parseInteger("program", args.program);
+    const transactionHash = await client.transferProgramAdministration(programId, args.to);
+
+    return print([{ programId: programId.toString(), pendingAdministrator: args.to, transactionHash }], args.json);
+  });
+
+scholarshipTask("scholarship:accept-admin", "Takes over a program the signer was nominated for")
+  .addParam("program", "Program id")
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    const programId = parseInteger("program", args.program);
+    const transactionHash = await client.acceptProgramAdministration(programId);
+    const claims = await client.claimApplicationAccess(programId);
+
+    return print(
+      [
+        {
+          programId: programId.toString(),
+          administrator: await client.signer.getAddress(),
+          transactionHash,
+          claimTransactions: claims.length,
+        },
+      ],
+      args.json
+    );
+  });
+
+scholarshipTask("scholarship:seed", "Creates the programs in a manifest that do not exist yet and reports drift")
+  .addOptionalParam("manifest", "JSON or YAML programs manifest", "programs.json")
+  .addFlag("dryRun", "Print the plan without sending any transaction")
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    const { parseProgramManifest, seedPrograms } = await import("../sdk");
+    const manifest = parseProgramManifest(readManifest(args.manifest));
+    const steps: SeedStep[] = await seedPrograms(client, manifest, { dryRun: args.dryRun });
+
+    return print(
+      steps.map((step) => ({
+        name: step.name,
+        action: step.action,
+        programId: step.programId?.toString() ?? "",
+        drift: step.drift.map(({ field, onChain, manifest }) => `${field}: ${onChain} -> ${manifest}`).join("; "),
+      })),
+      args.json
+    );
+  });
@@ -0,0 +1,186 @@
+import { task } from "hardhat/config";
+import type { ProxyOptions } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  ContractManifest,
+  MANIFEST_DIR,
+  StorageLayout,
+  manifestPath,
+  readDeploymentManifest,
+  readStorageLayout,
+  writeDeploymentManifest,
+} from "./manifest";
+
+/**
+ * Upgrades of the scholarship contract, which is deployed behind an OpenZeppelin
+ * transparent proxy administered by hardhat-deploy's DefaultProxyAdmin. The manifest
+ * records the storage layout of the deployed implementation, and
+ *
+ *   npx hardhat scholarship:upgrade --network sepolia [--dry-run]
+ *
+ * only deploys the compiled contract as the new implementation when its layout keeps
+ * every recorded variable in place. `npx hardhat deploy` runs the same check.
+ */
+
+export const SCHOLARSHIP_CONTRACT = "AnonymousScholarshipApplication";
+
+/** Proxy settings shared by the deploy script and the upgrade task. */
+export const SCHOLARSHIP_PROXY: ProxyOptions = {
+  proxyContract: "OpenZeppelinTransparentProxy",
+  execute: { init: { methodName: "initialize", args: [] } },
+};
+
+/**
+ * Deploys the libraries `contractName` is linked against (contracts/libraries) and returns
+ * their addresses for the `libraries` deploy option. hardhat-deploy reuses a library whose
+ * bytecode has not changed.
+ */
+export async function deployScholarshipLibraries(
+  hre: HardhatRuntimeEnvironment,
+  from: string,
+  contractName: string = SCHOLARSHIP_CONTRACT
+): Promise<Record<string, string>> {
+  const { linkReferences } = await hre.artifacts.readArtifact(contractName);
+  const libraries: Record<string, string> = {};
+  for (const names of Object.values(linkReferences)) {
+    for (const name of Object.keys(names)) {
+      libraries[name] = (await hre.deployments.deploy(name, { from, log: true })).address;
+    }
+  }
+  return libraries;
+}
+
+export interface UpgradeResult {
+  previousImplementation: string;
+  implementation: string;
+  upgraded: boolean;
+}
+
+/**
+ * Lists the ways `candidate` breaks the storage of a contract laid out as `reference`;
+ * an empty list means the upgrade is safe. Variables may only be appended, and structs
+ * may only gain members at the end when they are mapping values, whose entries do not
+ * sit next to each other.
+ */
+export function checkStorageLayout(reference: StorageLayout, candidate: StorageLayout): string[] {
+  const problems: string[] = [];
+
+  const compareTypes = (where: string, referenceId: string, candidateId: string, growable: boolean) => {
+    const before = reference.types![referenceId];
+    const after = candidate.types![candidateId];
+    if (before.label !== after.label || before.encoding !== after.encoding) {
+      problems.push(`${where} changed type from ${before.label} to ${after.label}`);
+      return;
+    }
+    if (before.key && after.key) {
+      compareTypes(`${where}[key]`, before.key, after.key, false);
+    }
+    if (before.value && after.value) {
+      compareTypes(`${where}[]`, before.value, after.value, true);
+    }
+    if (before.base && after.base) {
+      compareTypes(`${where}[]`, before.base, after.base, false);
+    }
+    if (before.members && after.members) {
+      compareVariables(where, before.members, after.members, false);
+      if (!growable && before.numberOfBytes !== after.numberOfBytes) {
+        problems.push(`${where} changed size from ${before.numberOfBytes} to ${after.numberOfBytes} bytes`);
+      }
+    }
+  };
+
+  const compareVariables = (
+    where: string,
+    before: StorageLayout["storage"],
+    after: StorageLayout["storage"],
+    growable: boolean
+  ) => {
+    for (const [i, variable] of before.entries()) {
+      const name = where ? `${where}.${variable.label}` : variable.label;
+      const replacement = after[i];
+      if (!replacement) {
+        problems.push(`${name} at slot ${variable.slot} was removed`);
+      } else if (replacement.label !== variable.label) {
+        problems.push(`${name} at slot ${variable.slot} was replaced by ${replacement.label}`);
+      } else if (replacement.slot !== variable.slot || replacement.offset !== variable.offset) {
+        problems.push(
+          `${name} moved from slot ${variable.slot}+${variable.offset} to slot ${replacement.slot}+${replacement.offset}`
+        );
+      } else {
+        compareTypes(name, variable.type, replacement.type, growable);
+      }
+    }
+  };
+
+  compareVariables("", reference.storage, candidate.storage, false);
+  return problems;
+}
+
+/**
+ * Throws when the compiled `contractName` cannot replace the implementation recorded in
+ * the selected network's manifest. Returns the recorded entry, or null when the manifest
+ * has no proxied deployment of the contract to compare with.
+ */
+export async function checkUpgrade(
+  hre: HardhatRuntimeEnvironment,
+  contractName: string,
+  directory: string = MANIFEST_DIR
+): Promise<ContractManifest | null> {
+  const entry = readDeploymentManifest(hre.network.name, directory)?.contracts[contractName];
+  if (!entry?.implementation || !entry.storageLayout) {
+    return null;
+  }
+
+  const problems = checkStorageLayout(entry.storageLayout, await readStorageLayout(hre, contractName));
+  if (problems.length > 0) {
+    throw new Error(
+      [
+        `${contractName}: the compiled storage layout is incompatible with the implementation at ${entry.implementation}`,
+        ...problems.map((problem) => `  ${problem}`),
+      ].join("\n")
+    );
+  }
+  return entry;
+}
+
+task("scholarship:upgrade", "Upgrades the proxied scholarship contract once its storage layout checks out")
+  .addOptionalParam("manifests", "Directory holding the <network>.json manifests", MANIFEST_DIR)
+  .addFlag("dryRun", "Only check the storage layout; send no transaction")
+  .setAction(async (args: { manifests: string; dryRun: boolean }, hre): Promise<UpgradeResult> => {
+    await hre.run("compile", { quiet: true });
+
+    const entry = await checkUpgrade(hre, SCHOLARSHIP_CONTRACT, args.manifests);
+    if (!entry) {
+      throw new Error(
+        `${SCHOLARSHIP_CONTRACT} has no proxied deployment in ${manifestPath(hre.network.name, args.manifests)}; ` +
+          `deploy it with npx hardhat deploy --network ${hre.network.name}`
+      );
+    }
+    console.log(
+      `${SCHOLARSHIP_CONTRACT}: storage layout compatible with the implementation at ${entry.implementation}`
+    );
+
+    const previousImplementation = entry.implementation!;
+    if (args.dryRun) {
+      return { previousImplementation, implementation: previousImplementation, upgraded: false };
+    }
+
+    const { deployer } = await hre.getNamedAccounts();
+    const deployment = await hre.deployments.deploy(SCHOLARSHIP_CONTRACT, {
+      from: deployer,
+      args: [],
+      log: true,
+      proxy: SCHOLARSHIP_PROXY,
+      libraries: await deployScholarshipLibraries(hre, deployer),
+    });
+    await writeDeploymentManifest(hre, [SCHOLARSHIP_CONTRACT], args.manifests);
+
+    const implementation = deployment.implementation!;
+    const upgraded = implementation !== previousImplementation;
+    console.log(
+      upgraded
+        ? `${SCHOLARSHIP_CONTRACT} at ${deployment.address} now runs the implementation at ${implementation}`
+        : `${SCHOLARSHIP_CONTRACT} is unchanged; the implementation at ${implementation} is up to date`
+    );
+    return { previousImplementation, implementation, upgraded };
+  });
@@ -0,0 +1,245 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm, network } from "hardhat";
+import { expect } from "chai";
+import { MaxUint256 } from "ethers";
+import { AnonymousScholarshipApplication } from "../types";
+import { ApplicationSummary, Rule, ScholarshipClient } from "../sdk";
+import {
+  APPLICATION,
+  OPEN_SCHEDULE,
+  expectClientError,
+  getScholarshipFactory,
+  skipUnlessMock,
+} from "./helpers/scholarship";
+
+/**
+ * @title Application Pagination Tests
+ * @notice Offset/limit listings of applications on-chain and the client's page iterators
+ * @dev Tests cover:
+ * - Count getters for the caller's and a program's applications
+ * - Pages past the end, empty pages and limits that would overflow
+ * - Complete, ordered iteration over hundreds of applications at several page sizes
+ * - Applications submitted while iterating are picked up
+ * - Withdrawn and disqualified applications are left out without shifting the listing, even mid-walk
+ * - Only the program administrator pages through a program's applications
+ */
+
+// One applicant applies to every program; the first program also takes one
+// application from each of the other applicants
+const PROGRAMS = 120;
+const APPLICANTS = 200;
+
+describe("Application Pagination", function () {
+  let programAdmin: HardhatEthersSigner;
+  let applicant: HardhatEthersSigner;
+  let stranger: HardhatEthersSigner;
+  let contract: AnonymousScholarshipApplication;
+  let adminClient: ScholarshipClient;
+  let applicantClient: ScholarshipClient;
+  let programApplications: bigint[];
+  let myApplications: bigint[];
+
+  async function createProgram() {
+    const { programId } = await adminClient.createProgram({
+      name: "Popular Program",
+      description: "Pagination test",
+      maxApplications: 1_000,
+      minGpa: 0,
+      maxHouseholdIncome: 2 ** 32 - 1,
+      budget: 0,
+      schedule: OPEN_SCHEDULE,
+      rule: Rule.criterion(0),
+    });
+    return programId;
+  }
+
+  async function collect(iterator: AsyncIterable<ApplicationSummary>) {
+    const applicationIds: bigint[] = [];
+    for await (const application of iterator) {
+      applicationIds.push(application.applicationId);
+    }
+    return applicationIds;
+  }
+
+  before(async function () {
+    skipUnlessMock(this);
+    this.timeout(10 * 60 * 1000);
+
+    [programAdmin, applicant, stranger] = await ethers.getSigners();
+    const factory = await getScholarshipFactory();
+    contract = (await factory.deploy()) as AnonymousScholarshipApplication;
+    adminClient = ScholarshipClient.at(await contract.getAddress(), programAdmin, fhevm);
+    applicantClient = adminClient.connect(applicant);
+
+    for (let i = 0; i < PROGRAMS; i++) {
+      const programId = await createProgram();
+      await applicantClient.submitApplication({ programId, ...APPLICATION });
+    }
+    for (let i = 1; i < APPLICANTS; i++) {
+      const wallet = ethers.Wallet.createRandom(ethers.provider);
+      await network.provider.send("hardhat_setBalance", [wallet.address, "0xde0b6b3a7640000"]);
+      await adminClient.connect(wallet).submitApplication({ programId: 1n, ...APPLICATION });
+    }
+
+    programApplications = [...(await contract.connect(programAdmin).getProgramApplications(1))];
+    myApplications = [...(await contract.connect(applicant).getMyApplications())];
+  });
+
+  describe("Counts", function () {
+    it("✅ should count the caller's applications", async function () {
+      expect(await contract.connect(applicant).getMyApplicationCount()).to.equal(PROGRAMS);
+      expect(await applicantClient.countMyApplications()).to.equal(BigInt(PROGRAMS));
+      expect(await contract.connect(stranger).getMyApplicationCount()).to.equal(0);
+    });
+
+    it("✅ should count a program's applications for its administrator", async function () {
+      expect(await contract.connect(programAdmin).getProgramApplicationCount(1)).to.equal(APPLICANTS);
+      expect(await adminClient.countProgramApplications(2)).to.equal(1n);
+    });
+
+    it("❌ should not count a program's applications for anyone else", async function () {
+      await expect(contract.connect(applicant).getProgramApplicationCount(1)).to.be.revertedWith("Not authorized");
+      await expectClientError(applicantClient.countProgramApplications(1), "NOT_AUTHORIZED");
+    });
+  });
+
+  describe("Pages", function () {
+    it("✅ should return a slice of the listing in submission order", async function () {
+      expect(await contract.connect(programAdmin).getProgramApplicationsPage(1, 50, 25)).to.deep.equal(
+        programApplications.slice(50, 75)
+      );
+      expect(await contract.connect(applicant).getMyApplicationsPage(100, 10)).to.deep.equal(
+        myApplications.slice(100, 110)
+      );
+    });
+
+    it("✅ should return a short last page", async function () {
+      const page = await contract.connect(programAdmin).getProgramApplicationsPage(1, APPLICANTS - 3, 10);
+
+      expect(page).to.deep.equal(programApplications.slice(-3));
+    });
+
+    it("✅ should return an empty page past the end or for a zero limit", async function () {
+      const admin = contract.connect(programAdmin);
+      expect(await admin.getProgramApplicationsPage(1, APPLICANTS, 10)).to.deep.equal([]);
+      expect(await admin.getProgramApplicationsPage(1, MaxUint256, 10)).to.deep.equal([]);
+      expect(await admin.getProgramApplicationsPage(1, 0, 0)).to.deep.equal([]);
+      expect(await contract.connect(stranger).getMyApplicationsPage(0, 10)).to.deep.equal([]);
+    });
+
+    it("✅ should cap an overflowing limit at the end of the listing", async function () {
+      const page = await contract.connect(applicant).getMyApplicationsPage(PROGRAMS - 2, MaxUint256);
+
+      expect(page).to.deep.equal(myApplications.slice(-2));
+    });
+
+    it("❌ should not page through a program's applications for anyone else", async function () {
+      for (const signer of [applicant, stranger]) {
+        await expect(contract.connect(signer).getProgramApplicationsPage(1, 0, 10)).to.be.revertedWith(
+          "Not authorized"
+        );
+      }
+    });
+  });
+
+  describe("Client Iterators", function () {
+    it("✅ should walk every application of a program in order", async function () {
+      const applicationIds = await collect(adminClient.iterateProgramApplications(1));
+
+      expect(applicationIds).to.have.length(APPLICANTS);
+      expect(applicationIds).to.deep.equal(programApplications);
+      expect(applicationIds).to.deep.equal([...applicationIds].sort((a, b) => (a < b ? -1 : 1)));
+    });
+
+    it("✅ should walk every one of the caller's applications in order", async function () {
+      const applications: ApplicationSummary[] = [];
+      for await (const application of applicantClient.iterateMyApplications({ pageSize: 32 })) {
+        applications.push(application);
+      }
+
+      expect(applications.map((application) => application.applicationId)).to.deep.equal(myApplications);
+      expect(applications.map((application) => application.programId)).to.deep.equal(
+        Array.from({ length: PROGRAMS }, (_, i) => BigInt(i + 1))
+      );
+      expect(applications.every((application) => application.applicant === applicant.address)).to.be.true;
+    });
+
+    it("✅ should yield the same applications whatever the page size", async function () {
+      for (const pageSize of [1, 7, APPLICANTS, APPLICANTS + 1, 1_000]) {
+        expect(await collect(adminClient.iterateProgramApplications(1, { pageSize }))).to.deep.equal(
+          programApplications
+        );
+      }
+    });
+
+    it("✅ should pick up applications submitted while iterating", async function () {
+      const iterator = applicantClient.iterateMyApplications({ pageSize: PROGRAMS });
+      const first = await iterator.next();
+      const programId = await createProgram();
+      const { applicationId } = await applicantClient.submitApplication({ programId, ...APPLICATION });
+
+      const rest = await collect({ [Symbol.asyncIterator]: () => iterator });
+
+      expect(first.value.applicationId).to.equal(myApplications[0]);
+      expect(rest).to.have.length(PROGRAMS);
+      expect(rest[rest.length - 1]).to.equal(applicationId);
+    });
+
+    it("❌ should not walk a program's applications for anyone else", async function () {
+      await expectClientError(collect(applicantClient.iterateProgramApplications(1)), "NOT_AUTHORIZED");
+    });
+
+    it("❌ should reject a page size that is not a positive integer", async function () {
+      for (const pageSize of [0, -1, 2.5]) {
+        await expectClientError(collect(adminClient.iterateProgramApplications(1, { pageSize })), "INVALID_ARGUMENT");
+      }
+    });
+  });
+
+  describe("Withdrawals and Disqualifications", function () {
+    let programId: bigint;
+    let applicants: HardhatEthersSigner[];
+    let applicationIds: bigint[];
+
+    beforeEach(async function () {
+      applicants = (await ethers.getSigners()).slice(3, 11);
+      programId = await createProgram();
+      applicationIds = [];
+      for (const signer of applicants) {
+        const { applicationId } = await adminClient.connect(signer).submitApplication({ programId, ...APPLICATION });
+        applicationIds.push(applicationId);
+      }
+    });
+
+    it("✅ should leave released applications out of pages without shifting the rest", async function () {
+      await adminClient.connect(applicants[2]).withdrawApplication(applicationIds[2]);
+      await adminClient.disqualifyApplication(applicationIds[3]);
+      const admin = contract.connect(programAdmin);
+      const holding = applicationIds.filter((_, i) => i !== 2 && i !== 3);
+
+      expect(await admin.getProgramApplicationsPage(programId, 0, 4)).to.deep.equal(applicationIds.slice(0, 2));
+      expect(await admin.getProgramApplicationsPage(programId, 2, 2)).to.deep.equal([]);
+      expect(await admin.getProgramApplicationsPage(programId, 4, 4)).to.deep.equal(applicationIds.slice(4));
+      expect(await admin.getProgramApplications(programId)).to.deep.equal(holding);
+      expect(await adminClient.countProgramApplications(programId)).to.equal(BigInt(applicants.length));
+      expect((await adminClient.getProgram(programId)).currentApplications).to.equal(BigInt(holding.length));
+      expect(await collect(adminClient.iterateProgramApplications(programId, { pageSize: 2 }))).to.deep.equal(holding);
+    });
+
+    it("✅ should neither skip nor repeat applications released while iterating", async function () {
+      const iterator = adminClient.iterateProgramApplications(programId, { pageSize: 3 });
+      const first: bigint[] = [];
+      for (let i = 0; i < 3; i++) {
+        first.push((await iterator.next()).value.applicationId);
+      }
+
+      await adminClient.connect(applicants[1]).withdrawApplication(applicationIds[1]);
+      await adminClient.disqualifyApplication(applicationIds[3]);
+      await adminClient.connect(applicants[5]).withdrawApplication(applicationIds[5]);
+      const rest = await collect({ [Symbol.asyncIterator]: () => iterator });
+
+      expect(first).to.deep.equal(applicationIds.slice(0, 3));
+      expect(rest).to.deep.equal([applicationIds[4], applicationIds[6], applicationIds[7]]);
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { AnonymousScholarshipApplication } from "../types";
+import { Rule, ScholarshipClient } from "../sdk";
+import {
+  APPLICATION,
+  OPEN_SCHEDULE,
+  expectClientError,
+  getScholarshipFactory,
+  skipUnlessMock,
+} from "./helpers/scholarship";
+
+/**
+ * @title Application Withdrawal Tests
+ * @notice One application per applicant and program, withdrawing it, and applying again
+ * where the program allows it
+ * @dev Tests cover:
+ * - Duplicate applications to the same program are rejected; other programs are unaffected
+ * - Withdrawing frees the place, leaves the application out of the program's listing and emits an event
+ * - The administrator can no longer read, review or process a withdrawn application
+ * - Withdrawals refused once processed, twice, by anyone else, during selection or once archived
+ * - Resubmission after withdrawing: denied by default, allowed once the administrator turns it on
+ */
+
+describe("Application Withdrawal", function () {
+  let programAdmin: HardhatEthersSigner;
+  let applicant: HardhatEthersSigner;
+  let other: HardhatEthersSigner;
+  let third: HardhatEthersSigner;
+  let reviewer: HardhatEthersSigner;
+  let contract: AnonymousScholarshipApplication;
+  let adminClient: ScholarshipClient;
+  let applicantClient: ScholarshipClient;
+  let programId: bigint;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    [programAdmin, applicant, other, third, reviewer] = ethSigners;
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+
+    const factory = await getScholarshipFactory();
+    contract = (await factory.deploy()) as AnonymousScholarshipApplication;
+    adminClient = ScholarshipClient.at(await contract.getAddress(), programAdmin, fhevm);
+    applicantClient = adminClient.connect(applicant);
+    programId = await createProgram(2);
+  });
+
+  async function createProgram(maxApplications: number) {
+    const { programId } = await adminClient.createProgram({
+      name: "Merit",
+      description: "Top students",
+      maxApplications,
+      minGpa: 0,
+      maxHouseholdIncome: 2 ** 32 - 1,
+      budget: 10_000,
+      schedule: OPEN_SCHEDULE,
+      rule: Rule.criterion(0),
+    });
+    return programId;
+  }
+
+  async function submit(client: ScholarshipClient = applicantClient, program: bigint = programId) {
+    const { applicationId } = await client.submitApplication({ programId: program, ...APPLICATION });
+    return applicationId;
+  }
+
+  describe("Duplicates", function () {
+    it("❌ should reject a second application to the same program", async function () {
+      await submit();
+
+      await expectClientError(submit(), "ALREADY_APPLIED");
+      expect((await adminClient.getProgram(programId)).currentApplications).to.equal(1n);
+    });
+
+    it("✅ should still take applications to other programs", async function () {
+      const second = await createProgram(2);
+      await submit();
+
+      await submit(applicantClient, second);
+
+      expect(await applicantClient.countMyApplications()).to.equal(2n);
+    });
+  });
+
+  describe("Withdrawing", function () {
+    it("✅ should free the place and emit an event", async function () {
+      const applicationId = await submit();
+
+      await expect(contract.connect(applicant).withdrawApplication(applicationId))
+        .to.emit(contract, "ApplicationWithdrawn")
+        .withArgs(applicationId, programId);
+
+      expect((await adminClient.getProgram(programId)).currentApplications).to.equal(0n);
+      expect(await applicantClient.getApplication(applicationId)).to.deep.include({
+        withdrawn: true,
+        processed: false,
+      });
+    });
+
+    it("✅ should give the place to the next waitlisted application", async function () {
+      const applicationId = await submit();
+      await submit(adminClient.connect(other));
+      const waitlisted = await submit(adminClient.connect(third));
+
+      await expect(contract.connect(applicant).withdrawApplication(applicationId))
+        .to.emit(contract, "ApplicationPromoted")
+        .withArgs(waitlisted, programId);
+
+      expect((await adminClient.getProgram(programId)).currentApplications).to.equal(2n);
+    });
+
+    it("✅ should leave the application out of the program's listing", async function () {
+      const larger = await createProgram(5);
+      const ids = [];
+      for (const signer of [applicant, other, third, reviewer]) {
+        ids.push(await submit(adminClient.connect(signer), larger));
+      }
+
+      await applicantClient.withdrawApplication(ids[0]);
+      await adminClient.connect(third).withdrawApplication(ids[2]);
+
+      // The others keep their order; the listing itself keeps every entry
+      const listed = await adminClient.listProgramApplications(larger);
+      expect(listed.map((application) => application.applicationId)).to.deep.equal([ids[1], ids[3]]);
+      expect(await contract.connect(programAdmin).getProgramApplications(larger)).to.deep.equal([ids[1], ids[3]]);
+      expect(await adminClient.countProgramApplications(larger)).to.equal(4n);
+      expect((await adminClient.getProgram(larger)).currentApplications).to.equal(2n);
+      expect(await applicantClient.listMyApplications()).to.have.length(1);
+    });
+  });
+
+  describe("Administrator Access", function () {
+    it("❌ should hide a withdrawn application from the administrator", async function () {
+      const applicationId = await submit();
+      await applicantClient.withdrawApplication(applicationId);
+      const admin = contract.connect(programAdmin);
+
+      await expect(admin.getApplicationBasicInfo(applicationId)).to.be.revertedWith("Not authorized");
+      await expect(admin.getApplicationEligibility(applicationId)).to.be.revertedWith("Not authorized");
+      await expect(admin.getApplicationScore(applicationId)).to.be.revertedWith("Not authorized");
+      await expectClientError(adminClient.getApplication(applicationId), "NOT_AUTHORIZED");
+    });
+
+    it("❌ should not review or process a withdrawn application", async function () {
+      const applicationId = await submit();
+      await adminClient.addReviewer(programId, reviewer.address);
+      await applicantClient.withdrawApplication(applicationId);
+
+      await expectClientError(adminClient.connect(reviewer).submitReview(applicationId, 80), "APPLICATION_WITHDRAWN");
+      await expectClientError(adminClient.processApplication(applicationId, true, 2_500), "APPLICATION_WITHDRAWN");
+    });
+  });
+
+  describe("Refused Withdrawals", function () {
+    it("❌ should not withdraw a processed application", async function () {
+      const applicationId = await submit();
+      await adminClient.processApplication(applicationId, true, 2_500);
+
+      await expectClientError(applicantClient.withdrawApplication(applicationId), "ALREADY_PROCESSED");
+    });
+
+    it("❌ should not withdraw twice", async function () {
+      const applicationId = await submit();
+      await applicantClient.withdrawApplication(applicationId);
+
+      await expectClientError(applicantClient.withdrawApplication(applicationId), "APPLICATION_WITHDRAWN");
+      expect((await adminClient.getProgram(programId)).currentApplications).to.equal(0n);
+    });
+
+    it("❌ should only let the applicant withdraw", async function () {
+      const applicationId = await submit();
+
+      for (const signer of [programAdmin, other]) {
+        await expect(contract.connect(signer).withdrawApplication(applicationId)).to.be.revertedWith("Not authorized");
+      }
+    });
+
+    it("❌ should not withdraw once selection started", async function () {
+      const applicationId = await submit();
+      await adminClient.startSelection(programId, 1);
+
+      await expectClientError(applicantClient.withdrawApplication(applicationId), "SELECTION_STARTED");
+    });
+
+    it("❌ should not withdraw from an archived program", async function () {
+      const applicationId = await submit();
+      await adminClient.closeProgram(programId);
+      await adminClient.archiveProgram(programId);
+
+      await expectClientError(applicantClient.withdrawApplication(applicationId), "PROGRAM_ARCHIVED");
+    });
+  });
+
+  describe("Resubmission", function () {
+    it("❌ should not take a new application after a withdrawal by default", async function () {
+      const applicationId = await submit();
+      await applicantClient.withdrawApplication(applicationId);
+
+      expect((await adminClient.getProgram(programId)).resubmissionAllowed).to.equal(false);
+      await expectClientError(submit(), "RESUBMISSION_NOT_ALLOWED");
+    });
+
+    it("✅ should take a new application once the program allows it", async function () {
+      const first = await submit();
+      await applicantClient.withdrawApplication(first);
+
+      await expect(contract.connect(programAdmin).setResubmissionPolicy(programId, true))
+        .to.emit(contract, "ResubmissionPolicyUpdated")
+        .withArgs(programId, true);
+      const second = await submit();
+
+      expect(second).to.equal(first + 1n);
+      expect(await adminClient.getApplication(second)).to.deep.include({
+        applicant: applicant.address,
+        withdrawn: false,
+      });
+      expect((await adminClient.getProgram(programId)).currentApplications).to.equal(1n);
+    });
+
+    it("❌ should still reject a duplicate while the application stands", async function () {
+      await adminClient.setResubmissionPolicy(programId, true);
+      await submit();
+
+      await expectClientError(submit(), "ALREADY_APPLIED");
+    });
+
+    it("❌ should only let the administrator change the policy", async function () {
+      await expect(contract.connect(applicant).setResubmissionPolicy(programId, true)).to.be.revertedWith(
+        "Not program administrator"
+      );
+      await expectClientError(applicantClient.setResubmissionPolicy(programId, true), "NOT_PROGRAM_ADMIN");
+    });
+  });
+});
@@ -0,0 +1,368 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { AnonymousScholarshipApplication } from "../types";
+import { MockDecryptionOracle } from "./helpers/mockDecryptionOracle";
+import { Rule, serializeRule } from "../sdk";
+import { OPEN_SCHEDULE, getScholarshipFactory, skipUnlessMock } from "./helpers/scholarship";
+
+/**
+ * @title Award Publication Tests
+ * @notice Publishes the award count and amount awarded of a program through public decryption
+ * @dev Tests cover:
+ * - Request / fulfil flow driven by a mock decryption oracle
+ * - Results count exactly the eligible, approved applicants; individual decisions stay private
+ * - KMS signature verification (tampered cleartexts, proofs for other handles)
+ * - Replay protection and request preconditions
+ * - No admissions once publication is requested, so the results stay final; the waitlist closes
+ */
+
+type Outcome = {
+  eligible: boolean;
+  approved: boolean;
+};
+
+const OPEN_THRESHOLDS = { minGpa: 0, maxHouseholdIncome: 2 ** 32 - 1 };
+const OPEN_BUDGET = 2n ** 64n - 1n;
+const AWARD_AMOUNT = 1000;
+
+describe("Award Publication", function () {
+  let programAdmin: HardhatEthersSigner;
+  let relayer: HardhatEthersSigner;
+  let applicants: HardhatEthersSigner[];
+  let contract: AnonymousScholarshipApplication;
+  let contractAddress: string;
+  let oracle: MockDecryptionOracle;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    programAdmin = ethSigners[0];
+    relayer = ethSigners[1];
+    applicants = ethSigners.slice(2);
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+
+    const factory = await getScholarshipFactory();
+    contract = (await factory.deploy()) as AnonymousScholarshipApplication;
+    contractAddress = await contract.getAddress();
+    oracle = new MockDecryptionOracle(contract, relayer);
+  });
+
+  /**
+   * Creates a program whose only rule is criterion 0, so each outcome's
+   * `eligible` flag is exactly what the applicant submits.
+   */
+  async function createProgram(admin: HardhatEthersSigner = programAdmin) {
+    const { criteriaCount, nodes } = serializeRule(Rule.criterion(0));
+    const encryptedInput = await fhevm
+      .createEncryptedInput(contractAddress, admin.address)
+      .add16(OPEN_THRESHOLDS.minGpa)
+      .add32(OPEN_THRESHOLDS.maxHouseholdIncome)
+      .add64(OPEN_BUDGET)
+      .encrypt();
+
+    await contract
+      .connect(admin)
+      .createProgram(
+        "Award Program",
+        "Award publication test",
+        100,
+        criteriaCount,
+        nodes,
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        OPEN_SCHEDULE,
+        encryptedInput.inputProof
+      );
+    return Number(await contract.programCount());
+  }
+
+  async function submitApplication(applicant: HardhatEthersSigner, programId: number, eligible: boolean) {
+    const encryptedInput = await fhevm
+      .createEncryptedInput(contractAddress, applicant.address)
+      .addBool(eligible)
+      .add16(0)
+      .add32(0)
+      .encrypt();
+
+    await contract
+      .connect(applicant)
+      .submitApplication(
+        programId,
+        [encryptedInput.handles[0]],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        encryptedInput.inputProof
+      );
+    return Number(await contract.applicationCount());
+  }
+
+  async function processApplication(applicationId: number, approved: boolean, admin = programAdmin) {
+    const encryptedInput = await fhevm
+      .createEncryptedInput(contractAddress, admin.address)
+      .addBool(approved)
+      .add64(AWARD_AMOUNT)
+      .encrypt();
+    await contract
+      .connect(admin)
+      .processApplication(
+        applicationId,
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.inputProof
+      );
+  }
+
+  /** Submits and processes one application per outcome, returning the program id. */
+  async function runProgram(outcomes: Outcome[]) {
+    const programId = await createProgram();
+    for (const [i, { eligible, approved }] of outcomes.entries()) {
+      const applicationId = await submitApplication(applicants[i], programId, eligible);
+      await processApplication(applicationId, approved);
+    }
+    return programId;
+  }
+
+  async function requestPublication(programId: number) {
+    await contract.connect(programAdmin).requestAwardPublication(programId);
+    return contract.programAwardRequest(programId);
+  }
+
+  describe("Request and Fulfil", function () {
+    it("✅ should publish the awards made to eligible and approved applicants", async function () {
+      const programId = await runProgram([
+        { eligible: true, approved: true },
+        { eligible: true, approved: false },
+        { eligible: false, approved: true },
+        { eligible: true, approved: true },
+      ]);
+
+      const requestId = await requestPublication(programId);
+      await expect(oracle.fulfil(requestId))
+        .to.emit(contract, "AwardsPublished")
+        .withArgs(requestId, programId, 2, 2 * AWARD_AMOUNT);
+
+      expect(await contract.getAwardResults(programId)).to.deep.equal([2n, BigInt(2 * AWARD_AMOUNT)]);
+    });
+
+    it("✅ should emit the aggregate handles for the oracle to decrypt", async function () {
+      const programId = await runProgram([
+        { eligible: true, approved: true },
+        { eligible: false, approved: false },
+      ]);
+
+      await expect(contract.connect(programAdmin).requestAwardPublication(programId)).to.emit(
+        contract,
+        "AwardPublicationRequested"
+      );
+
+      const [pending] = await oracle.pendingRequests();
+      expect(pending.requestId).to.equal(1n);
+      expect(pending.programId).to.equal(BigInt(programId));
+      expect(pending.handles).to.have.length(2);
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint32, pending.handles[0])).to.equal(1n);
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint64, pending.handles[1])).to.equal(BigInt(AWARD_AMOUNT));
+    });
+
+    it("❌ should keep individual decisions private", async function () {
+      const programId = await runProgram([
+        { eligible: true, approved: true },
+        { eligible: true, approved: false },
+      ]);
+      await requestPublication(programId);
+      await oracle.fulfilPending();
+
+      for (const applicationId of [1, 2]) {
+        const decision = await contract.connect(programAdmin).getApplicationDecision(applicationId);
+        try {
+          await fhevm.publicDecryptEbool(decision);
+          expect.fail("Expected a decision not to be publicly decryptable");
+        } catch (error) {
+          expect((error as Error).message).to.include("not allowed for public decryption");
+        }
+      }
+      const decision = await contract.connect(applicants[1]).getApplicationDecision(2);
+      expect(await fhevm.userDecryptEbool(decision, contractAddress, applicants[1])).to.equal(false);
+    });
+
+    it("✅ should publish zero awards when nobody is awarded", async function () {
+      const programId = await runProgram([{ eligible: false, approved: true }]);
+      await requestPublication(programId);
+      await oracle.fulfilPending();
+
+      expect(await contract.getAwardResults(programId)).to.deep.equal([0n, 0n]);
+      expect((await contract.getAwardPublication(1)).fulfilled).to.equal(true);
+    });
+
+    it("✅ should keep publications of different programs apart", async function () {
+      const first = await runProgram([{ eligible: true, approved: true }]);
+      const second = await createProgram();
+      const applicationId = await submitApplication(applicants[1], second, true);
+      await processApplication(applicationId, true);
+
+      await requestPublication(second);
+      await requestPublication(first);
+      expect(await oracle.fulfilPending()).to.deep.equal([1n, 2n]);
+
+      expect(await contract.getAwardResults(first)).to.deep.equal([1n, BigInt(AWARD_AMOUNT)]);
+      expect(await contract.getAwardResults(second)).to.deep.equal([1n, BigInt(AWARD_AMOUNT)]);
+    });
+  });
+
+  describe("Signature Verification", function () {
+    let requestId: bigint;
+
+    beforeEach(async function () {
+      const programId = await runProgram([
+        { eligible: true, approved: true },
+        { eligible: true, approved: false },
+      ]);
+      requestId = await requestPublication(programId);
+    });
+
+    it("❌ should reject tampered cleartexts", async function () {
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint32", "uint64"], [2, 2 * AWARD_AMOUNT]);
+      await expect(oracle.fulfil(requestId, { abiEncodedClearValues: forged })).to.be.reverted;
+    });
+
+    it("❌ should reject a proof produced for other handles", async function () {
+      const other = await runProgram([
+        { eligible: true, approved: true },
+        { eligible: true, approved: false },
+      ]);
+      const otherRequestId = await requestPublication(other);
+      const { decryptionProof } = await oracle.decrypt(otherRequestId);
+
+      await expect(oracle.fulfil(requestId, { decryptionProof })).to.be.reverted;
+    });
+
+    it("❌ should reject cleartexts of the wrong length", async function () {
+      const short = ethers.AbiCoder.defaultAbiCoder().encode(["uint32"], [1]);
+      await expect(oracle.fulfil(requestId, { abiEncodedClearValues: short })).to.be.revertedWith("Invalid cleartexts");
+    });
+
+    it("❌ should reject an empty proof", async function () {
+      await expect(oracle.fulfil(requestId, { decryptionProof: "0x" })).to.be.reverted;
+    });
+
+    it("✅ should leave the request open after a rejected fulfilment", async function () {
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint32", "uint64"], [2, 2 * AWARD_AMOUNT]);
+      await expect(oracle.fulfil(requestId, { abiEncodedClearValues: forged })).to.be.reverted;
+
+      await oracle.fulfil(requestId);
+      expect((await contract.getAwardPublication(requestId)).fulfilled).to.equal(true);
+    });
+  });
+
+  describe("Replay Protection", function () {
+    it("❌ should reject fulfilling the same request twice", async function () {
+      const programId = await runProgram([{ eligible: true, approved: true }]);
+      const requestId = await requestPublication(programId);
+      const { abiEncodedClearValues, decryptionProof } = await oracle.decrypt(requestId);
+
+      await contract.connect(relayer).fulfillAwardPublication(requestId, abiEncodedClearValues, decryptionProof);
+      await expect(
+        contract.connect(relayer).fulfillAwardPublication(requestId, abiEncodedClearValues, decryptionProof)
+      ).to.be.revertedWith("Request already fulfilled");
+
+      expect(await contract.getAwardResults(programId)).to.deep.equal([1n, BigInt(AWARD_AMOUNT)]);
+    });
+
+    it("❌ should reject a second publication of the same program", async function () {
+      const programId = await runProgram([{ eligible: true, approved: true }]);
+      await requestPublication(programId);
+      await expect(contract.connect(programAdmin).requestAwardPublication(programId)).to.be.revertedWith(
+        "Publication pending"
+      );
+
+      await oracle.fulfilPending();
+      await expect(contract.connect(programAdmin).requestAwardPublication(programId)).to.be.revertedWith(
+        "Awards already published"
+      );
+    });
+
+    it("❌ should reject unknown request ids", async function () {
+      await expect(contract.connect(relayer).fulfillAwardPublication(7, "0x", "0x")).to.be.revertedWith(
+        "Unknown request"
+      );
+    });
+  });
+
+  describe("Final Results", function () {
+    it("❌ should take no applications once publication is requested", async function () {
+      const programId = await runProgram([{ eligible: true, approved: true }]);
+      await requestPublication(programId);
+
+      await expect(submitApplication(applicants[1], programId, true)).to.be.revertedWith("Publication requested");
+      await oracle.fulfilPending();
+      await expect(submitApplication(applicants[1], programId, true)).to.be.revertedWith("Publication requested");
+    });
+
+    it("❌ should not promote waitlisted applications once publication is requested", async function () {
+      const programId = await runProgram([{ eligible: true, approved: true }]);
+      await contract.connect(programAdmin).updateProgram(programId, "Award Program", "Award publication test", 1);
+      const waitlisted = await submitApplication(applicants[1], programId, true);
+      await expect(contract.connect(programAdmin).requestAwardPublication(programId))
+        .to.emit(contract, "WaitlistClosed")
+        .withArgs(programId);
+
+      await expect(
+        contract.connect(programAdmin).updateProgram(programId, "Award Program", "Award publication test", 2)
+      ).not.to.emit(contract, "ApplicationPromoted");
+      await expect(contract.connect(applicants[1]).getWaitlistPosition(waitlisted)).to.be.revertedWith(
+        "Waitlist closed"
+      );
+      await expect(contract.connect(applicants[1]).withdrawApplication(waitlisted))
+        .to.emit(contract, "ApplicationWithdrawn")
+        .withArgs(waitlisted, programId);
+    });
+  });
+
+  describe("Request Preconditions", function () {
+    it("❌ should reject requests from anyone but the program administrator", async function () {
+      const programId = await runProgram([{ eligible: true, approved: true }]);
+      await expect(contract.connect(applicants[0]).requestAwardPublication(programId)).to.be.revertedWith(
+        "Not program administrator"
+      );
+    });
+
+    it("❌ should reject programs with unprocessed applications", async function () {
+      const programId = await runProgram([{ eligible: true, approved: true }]);
+      await submitApplication(applicants[1], programId, true);
+
+      await expect(contract.connect(programAdmin).requestAwardPublication(programId)).to.be.revertedWith(
+        "Unprocessed applications"
+      );
+    });
+
+    it("✅ should not wait for applications withdrawn before processing", async function () {
+      const programId = await runProgram([{ eligible: true, approved: true }]);
+      const withdrawn = await submitApplication(applicants[1], programId, true);
+      await contract.connect(applicants[1]).withdrawApplication(withdrawn);
+
+      await requestPublication(programId);
+      await oracle.fulfilPending();
+
+      expect(await contract.getAwardResults(programId)).to.deep.equal([1n, BigInt(AWARD_AMOUNT)]);
+    });
+
+    it("❌ should reject programs without applications", async function () {
+      const programId = await createProgram();
+      await expect(contract.connect(programAdmin).requestAwardPublication(programId)).to.be.revertedWith(
+        "No applications"
+      );
+    });
+
+    it("❌ should not expose results before publication", async function () {
+      const programId = await runProgram([{ eligible: true, approved: true }]);
+      await expect(contract.getAwardResults(programId)).to.be.revertedWith("Awards not published");
+
+      await requestPublication(programId);
+      await expect(contract.getAwardResults(programId)).to.be.revertedWith("Awards not published");
+    });
+  });
+});
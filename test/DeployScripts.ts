@@ -0,0 +1,154 @@
+import hre, { deployments, ethers } from "hardhat";
+import { expect } from "chai";
+import { readFileSync, readdirSync } from "fs";
+import path from "path";
+import type { DeployFunction } from "hardhat-deploy/types";
+import { smokeCheck, type ExampleDeployFunction } from "../utils/deployExamples";
+
+/**
+ * @title Deploy Script Tests
+ * @notice hardhat-deploy scripts, chapter tags and post-deploy smoke checks
+ * @dev Tests cover:
+ * - Every contract in contracts/ has a deploy script, tagged with its chapter and "examples"
+ * - Each chapter deploying through its tag and passing its smoke checks
+ * - Smoke checks calling a view, checking code, and failing on a missing or broken deployment
+ */
+
+const CHAPTERS: Record<string, string[]> = {
+  "basic-operations": ["FHECounter", "Arithmetic", "Equality"],
+  encryption: ["EncryptSingleValue", "EncryptMultipleValues"],
+  decryption: [
+    "UserDecryptSingleValue",
+    "UserDecryptMultipleValues",
+    "PublicDecryptSingleValue",
+    "PublicDecryptMultipleValues",
+  ],
+  "user-decryption": ["UserDecryptSingleValue", "UserDecryptMultipleValues"],
+  "public-decryption": ["PublicDecryptSingleValue", "PublicDecryptMultipleValues"],
+  "access-control": ["AccessControl"],
+  advanced: ["BlindAuction"],
+  scholarship: ["AnonymousScholarshipApplication"],
+};
+
+async function loadDeployScripts(): Promise<DeployFunction[]> {
+  const directory = path.join(__dirname, "..", "deploy");
+  return Promise.all(
+    readdirSync(directory).map(async (file) => (await import(path.join(directory, file))).default as DeployFunction)
+  );
+}
+
+/** Contracts tagged by `tag`, taking each script's contract-name tags as the contracts it deploys. */
+function contractsTagged(scripts: DeployFunction[], tag: string, contracts: string[]): string[] {
+  return scripts
+    .filter((script) => script.tags?.includes(tag))
+    .flatMap((script) => script.tags!.filter((name) => contracts.includes(name)));
+}
+
+/** Runs the deploy scripts tagged with any of `tags` without their deployment logs. */
+async function quietFixture(tags: string[]) {
+  const log = console.log;
+  console.log = () => {};
+  try {
+    await deployments.fixture(tags);
+  } finally {
+    console.log = log;
+  }
+}
+
+describe("Deploy Scripts", function () {
+  let scripts: DeployFunction[];
+  let contracts: string[];
+
+  before(async function () {
+    scripts = await loadDeployScripts();
+    const directory = path.join(__dirname, "..", "contracts");
+    contracts = readdirSync(directory)
+      .filter((file) => file.endsWith(".sol"))
+      .flatMap((file) =>
+        [...readFileSync(path.join(directory, file), "utf8").matchAll(/^contract (\w+)/gm)].map((match) => match[1])
+      );
+  });
+
+  describe("Tags", function () {
+    it("✅ should deploy every contract in contracts/", async function () {
+      const deployed = scripts.flatMap((script) => script.tags ?? []);
+
+      expect(contracts).to.include("AnonymousScholarshipApplication");
+      for (const contract of contracts) {
+        expect(deployed, `${contract} has no deploy script`).to.include(contract);
+      }
+    });
+
+    it("✅ should tag each chapter", async function () {
+      for (const [chapter, members] of Object.entries(CHAPTERS)) {
+        expect(contractsTagged(scripts, chapter, contracts).sort(), chapter).to.deep.equal([...members].sort());
+      }
+    });
+
+    it("✅ should tag every example, and only examples, with examples", async function () {
+      const examples = contracts.filter((contract) => contract !== "AnonymousScholarshipApplication");
+
+      expect(contractsTagged(scripts, "examples", contracts).sort()).to.deep.equal(examples.sort());
+    });
+
+    it("✅ should give every script a unique id", async function () {
+      const ids = scripts.map((script) => script.id);
+
+      expect(ids.every((id) => id)).to.be.true;
+      expect(new Set(ids).size).to.equal(ids.length);
+    });
+  });
+
+  describe("Chapters", function () {
+    for (const chapter of Object.keys(CHAPTERS).filter((chapter) => chapter !== "scholarship")) {
+      it(`✅ should deploy and smoke-check the ${chapter} chapter`, async function () {
+        await quietFixture([chapter]);
+        const examples = scripts
+          .filter((script) => script.tags?.includes(chapter))
+          .flatMap((script) => (script as ExampleDeployFunction).examples);
+
+        expect(examples.map(({ name }) => name).sort()).to.deep.equal([...CHAPTERS[chapter]].sort());
+        for (const { name, view, args } of examples) {
+          const { address } = await deployments.get(name);
+          expect(await smokeCheck(hre, name, view, args)).to.satisfy((line: string) =>
+            line.startsWith(`${name} at ${address}: ${view ? `${view}() = ` : ""}`)
+          );
+        }
+      });
+    }
+  });
+
+  describe("Smoke Checks", function () {
+    beforeEach(async function () {
+      await quietFixture(["scholarship"]);
+    });
+
+    it("✅ should call a view on the deployed contract", async function () {
+      const { address } = await deployments.get("AnonymousScholarshipApplication");
+
+      expect(await smokeCheck(hre, "AnonymousScholarshipApplication", "programCount")).to.equal(
+        `AnonymousScholarshipApplication at ${address}: programCount() = 0`
+      );
+    });
+
+    it("✅ should check for code when there is no view to call", async function () {
+      expect(await smokeCheck(hre, "AnonymousScholarshipApplication")).to.match(/: \d+ bytes of code$/);
+    });
+
+    it("❌ should fail when nothing is deployed at the recorded address", async function () {
+      const { abi } = await deployments.get("AnonymousScholarshipApplication");
+      const address = ethers.Wallet.createRandom().address;
+      await deployments.save("AnonymousScholarshipApplication", { address, abi });
+
+      for (const view of [undefined, "programCount"]) {
+        try {
+          await smokeCheck(hre, "AnonymousScholarshipApplication", view);
+          expect.fail("Expected the smoke check to fail");
+        } catch (error) {
+          expect((error as Error).message).to.match(/^Smoke check failed/);
+          expect((error as Error).message).to.include(address);
+        }
+      }
+    });
+  });
+});
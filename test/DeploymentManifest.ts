@@ -0,0 +1,208 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import hre, { artifacts, deployments, ethers } from "hardhat";
+import { expect } from "chai";
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  DeploymentManifest,
+  MANIFEST_DIR,
+  MANIFEST_VERSION,
+  diffAbi,
+  manifestPath,
+  readDeploymentManifest,
+  resolveDeployment,
+  writeDeploymentManifest,
+} from "../tasks/manifest";
+import { deployScholarship } from "./helpers/scholarship";
+
+/**
+ * @title Deployment Manifest Tests
+ * @notice Per-network manifests shared by the deploy script, tasks, relayer and frontend
+ * @dev Tests cover:
+ * - Manifest contents: version, chain id, address, ABI, deploy block and transaction hash
+ * - Resolution from the manifest before hardhat-deploy deployments
+ * - scholarship:check-manifest passing on a fresh manifest and failing on a stale ABI
+ */
+
+const CONTRACT_NAME = "AnonymousScholarshipApplication";
+
+describe("Deployment Manifest", function () {
+  let deployer: HardhatEthersSigner;
+  let directory: string;
+
+  before(async function () {
+    [deployer] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    await deployScholarship(deployer.address);
+    directory = mkdtempSync(path.join(tmpdir(), "scholarship-manifest-"));
+  });
+
+  function readFile(): DeploymentManifest {
+    return JSON.parse(readFileSync(manifestPath("hardhat", directory), "utf8"));
+  }
+
+  async function checkManifests() {
+    const log = console.log;
+    console.log = () => {};
+    try {
+      return await hre.run("scholarship:check-manifest", { manifests: directory });
+    } finally {
+      console.log = log;
+    }
+  }
+
+  async function expectCheckFailure(message: RegExp) {
+    try {
+      await checkManifests();
+    } catch (error) {
+      expect((error as Error).message).to.match(message);
+      return;
+    }
+    expect.fail("Expected scholarship:check-manifest to fail");
+  }
+
+  describe("Writing", function () {
+    it("✅ should record the address, ABI, deploy block and transaction", async function () {
+      const deployment = await deployments.get(CONTRACT_NAME);
+
+      await writeDeploymentManifest(hre, [CONTRACT_NAME], directory);
+
+      const manifest = readFile();
+      expect(manifest.version).to.equal(MANIFEST_VERSION);
+      expect(manifest.network).to.equal("hardhat");
+      expect(manifest.chainId).to.equal(31337);
+
+      const entry = manifest.contracts[CONTRACT_NAME];
+      expect(entry.address).to.equal(deployment.address);
+      expect(entry.abi).to.deep.equal((await artifacts.readArtifact(CONTRACT_NAME)).abi);
+      expect(entry.transactionHash).to.equal(deployment.transactionHash);
+      const receipt = await ethers.provider.getTransactionReceipt(entry.transactionHash!);
+      expect(entry.deployBlock).to.equal(receipt!.blockNumber);
+    });
+
+    it("✅ should replace a redeployed contract and keep other entries", async function () {
+      await writeDeploymentManifest(hre, [CONTRACT_NAME], directory);
+      const manifest = readFile();
+      manifest.contracts.Other = { ...manifest.contracts[CONTRACT_NAME], address: ethers.ZeroAddress };
+      writeFileSync(manifestPath("hardhat", directory), JSON.stringify(manifest));
+
+      const redeployed = await deployScholarship(deployer.address);
+      await writeDeploymentManifest(hre, [CONTRACT_NAME], directory);
+
+      const updated = readFile();
+      expect(updated.contracts[CONTRACT_NAME].address).to.equal(redeployed.address);
+      expect(updated.contracts[CONTRACT_NAME].address).to.not.equal(manifest.contracts[CONTRACT_NAME].address);
+      expect(updated.contracts.Other.address).to.equal(ethers.ZeroAddress);
+    });
+
+    it("✅ should not write a manifest when deploying to the in-process network", async function () {
+      const log = console.log;
+      console.log = () => {};
+      try {
+        await deployments.fixture(["scholarship"]);
+      } finally {
+        console.log = log;
+      }
+
+      expect(existsSync(manifestPath("hardhat"))).to.be.false;
+      expect(MANIFEST_DIR).to.equal(path.resolve(__dirname, "..", "manifests"));
+    });
+  });
+
+  describe("Reading", function () {
+    it("✅ should return null for a network without a manifest", async function () {
+      expect(readDeploymentManifest("sepolia", directory)).to.be.null;
+    });
+
+    it("❌ should reject a manifest of another version", async function () {
+      writeFileSync(manifestPath("hardhat", directory), JSON.stringify({ version: 2, contracts: {} }));
+
+      expect(() => readDeploymentManifest("hardhat", directory)).to.throw(/manifest version 2; expected 1/);
+    });
+
+    it("✅ should resolve from the manifest before the hardhat-deploy deployment", async function () {
+      await writeDeploymentManifest(hre, [CONTRACT_NAME], directory);
+      const manifest = readFile();
+      manifest.contracts[CONTRACT_NAME].address = ethers.ZeroAddress;
+      writeFileSync(manifestPath("hardhat", directory), JSON.stringify(manifest));
+
+      expect((await resolveDeployment(hre, CONTRACT_NAME, directory))?.address).to.equal(ethers.ZeroAddress);
+    });
+
+    it("✅ should fall back to the hardhat-deploy deployment", async function () {
+      const deployment = await deployments.get(CONTRACT_NAME);
+
+      const resolved = await resolveDeployment(hre, CONTRACT_NAME, directory);
+
+      expect(resolved?.address).to.equal(deployment.address);
+      expect(resolved?.transactionHash).to.equal(deployment.transactionHash);
+    });
+
+    it("✅ should return null when the contract is deployed nowhere", async function () {
+      await deployments.delete(CONTRACT_NAME);
+
+      expect(await resolveDeployment(hre, CONTRACT_NAME, directory)).to.be.null;
+    });
+  });
+
+  describe("ABI Check", function () {
+    it("✅ should pass when the manifest matches the compiled artifact", async function () {
+      await writeDeploymentManifest(hre, [CONTRACT_NAME], directory);
+
+      expect(await checkManifests()).to.deep.equal(["hardhat"]);
+    });
+
+    it("✅ should pass when there are no manifests", async function () {
+      expect(await checkManifests()).to.deep.equal([]);
+    });
+
+    it("❌ should fail on a function the contract no longer has", async function () {
+      await writeDeploymentManifest(hre, [CONTRACT_NAME], directory);
+      const manifest = readFile();
+      (manifest.contracts[CONTRACT_NAME].abi as object[]).push({
+        type: "function",
+        name: "getMyApplications",
+        stateMutability: "view",
+        inputs: [{ name: "_applicant", type: "address", internalType: "address" }],
+        outputs: [{ name: "", type: "uint256[]", internalType: "uint256[]" }],
+      });
+      writeFileSync(manifestPath("hardhat", directory), JSON.stringify(manifest));
+
+      await expectCheckFailure(
+        /hardhat: AnonymousScholarshipApplication ABI differs[\s\S]*- function getMyApplications\(address _applicant\) view returns \(uint256\[\]\)/
+      );
+    });
+
+    it("❌ should fail on a function missing from the manifest", async function () {
+      await writeDeploymentManifest(hre, [CONTRACT_NAME], directory);
+      const manifest = readFile();
+      const abi = manifest.contracts[CONTRACT_NAME].abi as { name?: string }[];
+      manifest.contracts[CONTRACT_NAME].abi = abi.filter((fragment) => fragment.name !== "programCount");
+      writeFileSync(manifestPath("hardhat", directory), JSON.stringify(manifest));
+
+      await expectCheckFailure(/\+ function programCount\(\) view returns \(uint256\)/);
+    });
+
+    it("❌ should fail on a renamed return value", async function () {
+      const abi = (await artifacts.readArtifact(CONTRACT_NAME)).abi.map((fragment) =>
+        fragment.name === "getProgramInfo"
+          ? {
+              ...fragment,
+              outputs: fragment.outputs.map((output: { name: string }) =>
+                output.name === "isActive" ? { ...output, name: "active" } : output
+              ),
+            }
+          : fragment
+      );
+
+      const difference = await diffAbi(hre, CONTRACT_NAME, abi);
+
+      expect(difference?.missing).to.have.length(1);
+      expect(difference?.stale).to.have.length(1);
+      expect(difference?.stale[0]).to.match(/bool active, uint8 status, bool resubmissionAllowed\)$/);
+    });
+  });
+});
@@ -0,0 +1,280 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { AnonymousScholarshipApplication } from "../types";
+import { Rule, ScholarshipClient } from "../sdk";
+import { OPEN_SCHEDULE, expectClientError, getScholarshipFactory, skipUnlessMock } from "./helpers/scholarship";
+
+/**
+ * @title Eligibility Delegation Tests
+ * @notice Applicants sharing their encrypted eligibility result with counselors and sponsors
+ * @dev Tests cover:
+ * - Direct grants through grantEligibilityAccess: the delegate can user-decrypt, a stranger cannot
+ * - Expiring delegations that must be claimed before their deadline and can be revoked until then
+ * - Only the applicant may share their result
+ * - SDK methods and error codes
+ */
+
+const OPEN_THRESHOLDS = { minGpa: 0, maxHouseholdIncome: 2 ** 32 - 1 };
+const BUDGET = 10_000;
+const DAY = 24 * 60 * 60;
+
+describe("Eligibility Delegation", function () {
+  let programAdmin: HardhatEthersSigner;
+  let applicant: HardhatEthersSigner;
+  let counselor: HardhatEthersSigner;
+  let sponsor: HardhatEthersSigner;
+  let stranger: HardhatEthersSigner;
+  let contract: AnonymousScholarshipApplication;
+  let contractAddress: string;
+  let applicantClient: ScholarshipClient;
+  let counselorClient: ScholarshipClient;
+  let applicationId: bigint;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    [programAdmin, applicant, counselor, sponsor, stranger] = ethSigners;
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+
+    const factory = await getScholarshipFactory();
+    contract = (await factory.deploy()) as AnonymousScholarshipApplication;
+    contractAddress = await contract.getAddress();
+
+    const adminClient = ScholarshipClient.at(contractAddress, programAdmin, fhevm);
+    applicantClient = adminClient.connect(applicant);
+    counselorClient = adminClient.connect(counselor);
+
+    const { programId } = await adminClient.createProgram({
+      name: "Shared Results",
+      description: "Delegation test",
+      maxApplications: 10,
+      ...OPEN_THRESHOLDS,
+      budget: BUDGET,
+      schedule: OPEN_SCHEDULE,
+      rule: Rule.criterion(0),
+    });
+    ({ applicationId } = await applicantClient.submitApplication({
+      programId,
+      criteria: [true],
+      gpa: 350,
+      householdIncome: 40_000,
+    }));
+  });
+
+  /**
+   * Asserts `signer` can neither fetch the eligibility handle nor decrypt it
+   * when handed the handle by the applicant.
+   */
+  async function expectNoAccess(signer: HardhatEthersSigner) {
+    await expect(contract.connect(signer).getApplicationEligibility(applicationId)).to.be.revertedWith(
+      "Not authorized"
+    );
+
+    const handle = await contract.connect(applicant).getApplicationEligibility(applicationId);
+    let decrypted = false;
+    try {
+      await fhevm.userDecryptEbool(handle, contractAddress, signer);
+      decrypted = true;
+    } catch {
+      // Expected: the signer is not on the handle's ACL
+    }
+    expect(decrypted).to.be.false;
+  }
+
+  async function expiresIn(seconds: number) {
+    return (await time.latest()) + seconds;
+  }
+
+  describe("Direct Grants", function () {
+    it("✅ should let a delegate user-decrypt the result", async function () {
+      await expect(contract.connect(applicant).grantEligibilityAccess(applicationId, counselor.address))
+        .to.emit(contract, "EligibilityAccessGranted")
+        .withArgs(applicationId, counselor.address);
+
+      expect(await counselorClient.decryptMyEligibility(applicationId)).to.be.true;
+    });
+
+    it("❌ should not let a stranger decrypt the result", async function () {
+      await contract.connect(applicant).grantEligibilityAccess(applicationId, counselor.address);
+
+      await expectNoAccess(stranger);
+    });
+
+    it("✅ should share the real result, not just a flag", async function () {
+      // One application per applicant and program, so the ineligible one comes from another applicant
+      const otherApplicantClient = applicantClient.connect((await ethers.getSigners())[5]);
+      const { applicationId: ineligible } = await otherApplicantClient.submitApplication({
+        programId: 1,
+        criteria: [false],
+        gpa: 350,
+        householdIncome: 40_000,
+      });
+      await otherApplicantClient.grantEligibilityAccess(ineligible, counselor.address);
+
+      expect(await counselorClient.decryptMyEligibility(ineligible)).to.be.false;
+    });
+
+    it("✅ should grant each delegate separately", async function () {
+      await applicantClient.grantEligibilityAccess(applicationId, counselor.address);
+      await expectNoAccess(sponsor);
+
+      await applicantClient.grantEligibilityAccess(applicationId, sponsor.address);
+      expect(await counselorClient.connect(sponsor).decryptMyEligibility(applicationId)).to.be.true;
+      await expectNoAccess(stranger);
+    });
+
+    it("❌ should only let the applicant share their result", async function () {
+      for (const signer of [programAdmin, counselor, stranger]) {
+        await expect(
+          contract.connect(signer).grantEligibilityAccess(applicationId, stranger.address)
+        ).to.be.revertedWith("Not authorized");
+      }
+      await expectNoAccess(stranger);
+    });
+
+    it("❌ should reject the zero address and the applicant as delegates", async function () {
+      await expect(
+        contract.connect(applicant).grantEligibilityAccess(applicationId, ethers.ZeroAddress)
+      ).to.be.revertedWith("Invalid delegate");
+      await expect(
+        contract.connect(applicant).grantEligibilityAccess(applicationId, applicant.address)
+      ).to.be.revertedWith("Invalid delegate");
+    });
+  });
+
+  describe("Expiring Delegations", function () {
+    it("✅ should let a delegate claim access before the deadline", async function () {
+      const expiresAt = await expiresIn(DAY);
+      await expect(contract.connect(applicant).delegateEligibilityAccess(applicationId, counselor.address, expiresAt))
+        .to.emit(contract, "EligibilityDelegated")
+        .withArgs(applicationId, counselor.address, expiresAt);
+
+      await expect(contract.connect(counselor).claimEligibilityAccess(applicationId))
+        .to.emit(contract, "EligibilityAccessGranted")
+        .withArgs(applicationId, counselor.address);
+
+      expect(await counselorClient.decryptMyEligibility(applicationId)).to.be.true;
+      expect(await contract.connect(applicant).getEligibilityDelegation(applicationId, counselor.address)).to.equal(0);
+    });
+
+    it("❌ should not grant access before the delegate claims it", async function () {
+      await contract
+        .connect(applicant)
+        .delegateEligibilityAccess(applicationId, counselor.address, await expiresIn(DAY));
+
+      await expectNoAccess(counselor);
+    });
+
+    it("❌ should reject a claim after the deadline", async function () {
+      await contract
+        .connect(applicant)
+        .delegateEligibilityAccess(applicationId, counselor.address, await expiresIn(DAY));
+      await time.increase(DAY);
+
+      await expect(contract.connect(counselor).claimEligibilityAccess(applicationId)).to.be.revertedWith(
+        "Delegation expired"
+      );
+      await expectNoAccess(counselor);
+    });
+
+    it("❌ should reject a claim once the applicant revoked the delegation", async function () {
+      await contract
+        .connect(applicant)
+        .delegateEligibilityAccess(applicationId, counselor.address, await expiresIn(DAY));
+
+      await expect(contract.connect(applicant).revokeEligibilityDelegation(applicationId, counselor.address))
+        .to.emit(contract, "EligibilityDelegationRevoked")
+        .withArgs(applicationId, counselor.address);
+      await expect(contract.connect(counselor).claimEligibilityAccess(applicationId)).to.be.revertedWith(
+        "No delegation"
+      );
+      await expectNoAccess(counselor);
+    });
+
+    it("❌ should only let the named delegate claim", async function () {
+      await contract
+        .connect(applicant)
+        .delegateEligibilityAccess(applicationId, counselor.address, await expiresIn(DAY));
+
+      await expect(contract.connect(stranger).claimEligibilityAccess(applicationId)).to.be.revertedWith(
+        "No delegation"
+      );
+      await expectNoAccess(stranger);
+    });
+
+    it("✅ should keep claimed access after the deadline", async function () {
+      await contract
+        .connect(applicant)
+        .delegateEligibilityAccess(applicationId, counselor.address, await expiresIn(DAY));
+      await contract.connect(counselor).claimEligibilityAccess(applicationId);
+      await time.increase(2 * DAY);
+
+      // FHEVM permissions are permanent; the deadline only bounds the claim
+      expect(await counselorClient.decryptMyEligibility(applicationId)).to.be.true;
+    });
+
+    it("✅ should let the applicant extend a pending delegation", async function () {
+      await contract
+        .connect(applicant)
+        .delegateEligibilityAccess(applicationId, counselor.address, await expiresIn(DAY));
+      const extended = await expiresIn(7 * DAY);
+      await contract.connect(applicant).delegateEligibilityAccess(applicationId, counselor.address, extended);
+      await time.increase(2 * DAY);
+
+      expect(await contract.connect(counselor).getEligibilityDelegation(applicationId, counselor.address)).to.equal(
+        extended
+      );
+      await contract.connect(counselor).claimEligibilityAccess(applicationId);
+      expect(await counselorClient.decryptMyEligibility(applicationId)).to.be.true;
+    });
+
+    it("❌ should only let the applicant delegate and revoke", async function () {
+      const expiresAt = await expiresIn(DAY);
+      await expect(
+        contract.connect(programAdmin).delegateEligibilityAccess(applicationId, stranger.address, expiresAt)
+      ).to.be.revertedWith("Not authorized");
+
+      await contract.connect(applicant).delegateEligibilityAccess(applicationId, counselor.address, expiresAt);
+      await expect(
+        contract.connect(counselor).revokeEligibilityDelegation(applicationId, counselor.address)
+      ).to.be.revertedWith("Not authorized");
+    });
+
+    it("❌ should reject a deadline that has already passed", async function () {
+      await expect(
+        contract.connect(applicant).delegateEligibilityAccess(applicationId, counselor.address, await time.latest())
+      ).to.be.revertedWith("Invalid expiry");
+    });
+  });
+
+  describe("Client SDK", function () {
+    it("✅ should delegate, claim and decrypt through the client", async function () {
+      const expiresAt = await expiresIn(DAY);
+      await applicantClient.delegateEligibilityAccess(applicationId, counselor.address, expiresAt);
+      expect(await applicantClient.getEligibilityDelegation(applicationId, counselor.address)).to.equal(
+        BigInt(expiresAt)
+      );
+
+      await counselorClient.claimEligibilityAccess(applicationId);
+      expect(await counselorClient.getEligibilityDelegation(applicationId, counselor.address)).to.be.null;
+      expect(await counselorClient.decryptMyEligibility(applicationId)).to.be.true;
+    });
+
+    it("❌ should map delegation failures to typed errors", async function () {
+      await expectClientError(
+        applicantClient.grantEligibilityAccess(applicationId, ethers.ZeroAddress),
+        "INVALID_DELEGATION"
+      );
+      await expectClientError(counselorClient.claimEligibilityAccess(applicationId), "NO_DELEGATION");
+
+      await applicantClient.delegateEligibilityAccess(applicationId, counselor.address, await expiresIn(DAY));
+      await time.increase(DAY);
+      await expectClientError(counselorClient.claimEligibilityAccess(applicationId), "DELEGATION_EXPIRED");
+      await expectClientError(counselorClient.decryptMyEligibility(applicationId), "NOT_AUTHORIZED");
+    });
+  });
+});
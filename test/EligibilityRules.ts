@@ -0,0 +1,289 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect, use } from "chai";
+import { AnonymousScholarshipApplication } from "../types";
+import { fhevmMatchers } from "./helpers/fhevmMatchers";
+import { EligibilityRule, Rule, RuleNode, RuleOp, deserializeRule, serializeRule } from "../sdk";
+import { OPEN_SCHEDULE, getScholarshipFactory, skipUnlessMock } from "./helpers/scholarship";
+
+use(fhevmMatchers);
+
+/**
+ * @title Eligibility Rule Engine Tests
+ * @notice Checks every rule kind against decrypted on-chain outcomes
+ * @dev Tests cover:
+ * - Postfix serialization of rule trees
+ * - all-of, any-of, weighted at-least-k-of-n and nested groups
+ * - Numeric threshold leaves (FHE.ge / FHE.le) inside groups
+ * - Structural validation of rules at createProgram
+ */
+
+type Thresholds = {
+  minGpa: number;
+  maxHouseholdIncome: number;
+};
+
+type Submission = {
+  criteria: boolean[];
+  gpa?: number;
+  householdIncome?: number;
+  expected: boolean;
+};
+
+type RuleCase = {
+  title: string;
+  rule: EligibilityRule;
+  thresholds?: Thresholds;
+  submissions: Submission[];
+};
+
+const OPEN_THRESHOLDS: Thresholds = { minGpa: 0, maxHouseholdIncome: 2 ** 32 - 1 };
+const T = true;
+const F = false;
+
+const RULE_MATRIX: RuleCase[] = [
+  {
+    title: "all-of",
+    rule: Rule.allOf(Rule.criterion(0), Rule.criterion(1), Rule.criterion(2)),
+    submissions: [
+      { criteria: [T, T, T], expected: true },
+      { criteria: [T, T, F], expected: false },
+      { criteria: [F, T, T], expected: false },
+      { criteria: [F, F, F], expected: false },
+    ],
+  },
+  {
+    title: "any-of",
+    rule: Rule.anyOf(Rule.criterion(0), Rule.criterion(1), Rule.criterion(2)),
+    submissions: [
+      { criteria: [F, F, T], expected: true },
+      { criteria: [T, F, F], expected: true },
+      { criteria: [T, T, T], expected: true },
+      { criteria: [F, F, F], expected: false },
+    ],
+  },
+  {
+    title: "at least 2 of 4",
+    rule: Rule.atLeast(2, Rule.criterion(0), Rule.criterion(1), Rule.criterion(2), Rule.criterion(3)),
+    submissions: [
+      { criteria: [T, T, F, F], expected: true },
+      { criteria: [F, T, F, T], expected: true },
+      { criteria: [T, T, T, T], expected: true },
+      { criteria: [F, F, T, F], expected: false },
+      { criteria: [F, F, F, F], expected: false },
+    ],
+  },
+  {
+    title: "weighted at least 3 (criterion 0 weighs 2)",
+    rule: Rule.atLeast(3, Rule.weighted(2, Rule.criterion(0)), Rule.criterion(1), Rule.criterion(2)),
+    submissions: [
+      { criteria: [T, T, F], expected: true },
+      { criteria: [T, F, T], expected: true },
+      { criteria: [T, F, F], expected: false },
+      { criteria: [F, T, T], expected: false },
+    ],
+  },
+  {
+    title: "nested any-of over all-of groups with thresholds",
+    rule: Rule.anyOf(
+      Rule.allOf(Rule.criterion(0), Rule.minGpa()),
+      Rule.allOf(Rule.criterion(1), Rule.maxHouseholdIncome())
+    ),
+    thresholds: { minGpa: 350, maxHouseholdIncome: 40000 },
+    submissions: [
+      { criteria: [T, F], gpa: 350, householdIncome: 90000, expected: true },
+      { criteria: [T, F], gpa: 349, householdIncome: 90000, expected: false },
+      { criteria: [F, T], gpa: 200, householdIncome: 40000, expected: true },
+      { criteria: [F, T], gpa: 200, householdIncome: 40001, expected: false },
+      { criteria: [T, T], gpa: 200, householdIncome: 90000, expected: false },
+    ],
+  },
+  {
+    title: "all-of containing an at-least group",
+    rule: Rule.allOf(Rule.criterion(0), Rule.atLeast(2, Rule.criterion(1), Rule.criterion(2), Rule.minGpa())),
+    thresholds: { minGpa: 300, maxHouseholdIncome: 2 ** 32 - 1 },
+    submissions: [
+      { criteria: [T, T, F], gpa: 300, expected: true },
+      { criteria: [T, F, F], gpa: 300, expected: false },
+      { criteria: [T, T, T], gpa: 100, expected: true },
+      { criteria: [F, T, T], gpa: 400, expected: false },
+    ],
+  },
+];
+
+function node(op: RuleOp, fields: Partial<RuleNode> = {}): RuleNode {
+  return { op, index: 0, arity: 0, weight: 1, threshold: 0, ...fields };
+}
+
+describe("Eligibility Rule Engine", function () {
+  let applicants: HardhatEthersSigner[];
+  let programAdmin: HardhatEthersSigner;
+  let contract: AnonymousScholarshipApplication;
+  let contractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    programAdmin = ethSigners[0];
+    applicants = ethSigners.slice(1);
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+
+    const factory = await getScholarshipFactory();
+    contract = (await factory.deploy()) as AnonymousScholarshipApplication;
+    contractAddress = await contract.getAddress();
+  });
+
+  async function createProgram(criteriaCount: number, nodes: RuleNode[], thresholds: Thresholds = OPEN_THRESHOLDS) {
+    const encryptedInput = await fhevm
+      .createEncryptedInput(contractAddress, programAdmin.address)
+      .add16(thresholds.minGpa)
+      .add32(thresholds.maxHouseholdIncome)
+      .add64(0)
+      .encrypt();
+
+    return contract
+      .connect(programAdmin)
+      .createProgram(
+        "Rule Program",
+        "Rule engine test",
+        100,
+        criteriaCount,
+        nodes,
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        OPEN_SCHEDULE,
+        encryptedInput.inputProof
+      );
+  }
+
+  async function submitApplication(applicant: HardhatEthersSigner, programId: number, submission: Submission) {
+    const input = fhevm.createEncryptedInput(contractAddress, applicant.address);
+    submission.criteria.forEach((criterion) => input.addBool(criterion));
+    const encryptedInput = await input
+      .add16(submission.gpa ?? 0)
+      .add32(submission.householdIncome ?? 0)
+      .encrypt();
+    const count = submission.criteria.length;
+
+    return contract
+      .connect(applicant)
+      .submitApplication(
+        programId,
+        encryptedInput.handles.slice(0, count),
+        encryptedInput.handles[count],
+        encryptedInput.handles[count + 1],
+        encryptedInput.inputProof
+      );
+  }
+
+  describe("Serialization", function () {
+    it("✅ should flatten a nested rule into postfix order", async function () {
+      const rule = Rule.anyOf(
+        Rule.allOf(Rule.criterion(0), Rule.minGpa()),
+        Rule.atLeast(2, Rule.weighted(2, Rule.criterion(2)), Rule.maxHouseholdIncome())
+      );
+
+      expect(serializeRule(rule)).to.deep.equal({
+        criteriaCount: 3,
+        nodes: [
+          node(RuleOp.Criterion, { index: 0 }),
+          node(RuleOp.MinGpa),
+          node(RuleOp.AllOf, { arity: 2 }),
+          node(RuleOp.Criterion, { index: 2, weight: 2 }),
+          node(RuleOp.MaxHouseholdIncome),
+          node(RuleOp.AtLeast, { arity: 2, threshold: 2 }),
+          node(RuleOp.AnyOf, { arity: 2 }),
+        ],
+      });
+    });
+
+    it("✅ should rebuild the same tree from the node list", async function () {
+      for (const { rule } of RULE_MATRIX) {
+        expect(deserializeRule(serializeRule(rule).nodes)).to.deep.equal(rule);
+      }
+    });
+
+    it("✅ should store the serialized rule on-chain", async function () {
+      const { rule } = RULE_MATRIX[3];
+      const { criteriaCount, nodes } = serializeRule(rule);
+      await createProgram(criteriaCount, nodes);
+
+      const stored = await contract.getProgramRule(1);
+      expect(stored.criteriaCount).to.equal(criteriaCount);
+      expect(deserializeRule(stored.nodes)).to.deep.equal(rule);
+    });
+  });
+
+  describe("Rule Matrix", function () {
+    for (const ruleCase of RULE_MATRIX) {
+      it(`✅ should evaluate ${ruleCase.title} homomorphically`, async function () {
+        const { criteriaCount, nodes } = serializeRule(ruleCase.rule);
+        await createProgram(criteriaCount, nodes, ruleCase.thresholds);
+
+        for (const [i, submission] of ruleCase.submissions.entries()) {
+          const applicant = applicants[i];
+          await submitApplication(applicant, 1, submission);
+
+          const handle = await contract.connect(applicant).getApplicationEligibility(i + 1);
+          await expect(handle).to.decryptAsEbool(submission.expected, contractAddress, applicant);
+        }
+      });
+    }
+  });
+
+  describe("Validation", function () {
+    const criterion = (index: number) => node(RuleOp.Criterion, { index });
+
+    it("❌ should reject an empty rule", async function () {
+      await expect(createProgram(0, [])).to.be.revertedWith("Invalid rule");
+    });
+
+    it("❌ should reject a group with more operands than available", async function () {
+      await expect(createProgram(1, [criterion(0), node(RuleOp.AllOf, { arity: 2 })])).to.be.revertedWith(
+        "Invalid rule"
+      );
+    });
+
+    it("❌ should reject a group without operands", async function () {
+      await expect(createProgram(1, [criterion(0), node(RuleOp.AnyOf, { arity: 0 })])).to.be.revertedWith(
+        "Invalid rule"
+      );
+    });
+
+    it("❌ should reject operands left on the stack", async function () {
+      await expect(createProgram(2, [criterion(0), criterion(1)])).to.be.revertedWith("Invalid rule");
+    });
+
+    it("❌ should reject a criterion index outside criteriaCount", async function () {
+      await expect(createProgram(1, [criterion(1)])).to.be.revertedWith("Invalid rule");
+    });
+
+    it("❌ should reject an at-least group with a zero threshold", async function () {
+      await expect(
+        createProgram(1, [criterion(0), node(RuleOp.AtLeast, { arity: 1, threshold: 0 })])
+      ).to.be.revertedWith("Invalid rule");
+    });
+
+    it("❌ should reject rules longer than MAX_RULE_NODES", async function () {
+      const nodes = Array.from({ length: 33 }, () => criterion(0));
+      nodes.push(node(RuleOp.AnyOf, { arity: 33 }));
+      await expect(createProgram(1, nodes)).to.be.revertedWith("Invalid rule");
+    });
+
+    it("❌ should reject more than MAX_CRITERIA criteria", async function () {
+      await expect(createProgram(17, [criterion(0)])).to.be.revertedWith("Too many criteria");
+    });
+
+    it("❌ should reject applications with the wrong number of criteria", async function () {
+      const { criteriaCount, nodes } = serializeRule(RULE_MATRIX[0].rule);
+      await createProgram(criteriaCount, nodes);
+
+      await expect(submitApplication(applicants[0], 1, { criteria: [T, T], expected: false })).to.be.revertedWith(
+        "Criteria count mismatch"
+      );
+    });
+  });
+});
@@ -0,0 +1,420 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm, network } from "hardhat";
+import { expect } from "chai";
+import { existsSync, mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { AnonymousScholarshipApplication } from "../types";
+import { EventIndexer } from "../indexer/EventIndexer";
+import { IndexerStore } from "../indexer/IndexerStore";
+import { IndexerClient, ProgramStatus, Rule, ScholarshipClient, ScholarshipClientError } from "../sdk";
+import { APPLICATION, OPEN_SCHEDULE, getScholarshipFactory, skipUnlessMock } from "./helpers/scholarship";
+
+/**
+ * @title Event Indexer Tests
+ * @notice The local indexer following program and application events from a Hardhat node
+ * @dev Tests cover:
+ * - Programs, their edits and status, per-program application counts and processing history built from events
+ * - Resuming from the stored last block, and starting over for another contract
+ * - Reorgs: blocks that leave the chain are rolled back and re-indexed
+ * - The localhost JSON API and IndexerClient
+ */
+
+describe("Event Indexer", function () {
+  let admin: HardhatEthersSigner;
+  let applicant: HardhatEthersSigner;
+  let contract: AnonymousScholarshipApplication;
+  let adminClient: ScholarshipClient;
+  let applicantClient: ScholarshipClient;
+  let deployBlock: number;
+  let storePath: string;
+  let indexers: EventIndexer[];
+  let nextApplicant: number;
+
+  before(async function () {
+    [admin, applicant] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+
+    const factory = await getScholarshipFactory();
+    contract = (await factory.deploy()) as AnonymousScholarshipApplication;
+    deployBlock = (await contract.deploymentTransaction()!.wait())!.blockNumber;
+    adminClient = ScholarshipClient.at(await contract.getAddress(), admin, fhevm);
+    applicantClient = adminClient.connect(applicant);
+    storePath = path.join(mkdtempSync(path.join(tmpdir(), "scholarship-indexer-")), "index.json");
+    indexers = [];
+    nextApplicant = 1;
+  });
+
+  afterEach(async function () {
+    await Promise.all(indexers.map((indexer) => indexer.stop()));
+  });
+
+  function createIndexer(target: AnonymousScholarshipApplication = contract): EventIndexer {
+    const indexer = new EventIndexer(target, { storePath, startBlock: deployBlock, pollIntervalMs: 50 });
+    indexers.push(indexer);
+    return indexer;
+  }
+
+  async function createProgram(name: string, client: ScholarshipClient = adminClient) {
+    const { programId } = await client.createProgram({
+      name,
+      description: `${name} description`,
+      maxApplications: 10,
+      minGpa: 0,
+      maxHouseholdIncome: 2 ** 32 - 1,
+      budget: 10_000,
+      schedule: OPEN_SCHEDULE,
+      rule: Rule.criterion(0),
+    });
+    return programId;
+  }
+
+  // Each call applies from the next account, starting with `applicant`: an account applies to a program once
+  async function submit(programId: bigint) {
+    const signer = (await ethers.getSigners())[nextApplicant++];
+    const { applicationId } = await applicantClient.connect(signer).submitApplication({ programId, ...APPLICATION });
+    return applicationId;
+  }
+
+  describe("Indexing", function () {
+    it("✅ should list programs with their application counts", async function () {
+      const merit = await createProgram("Merit");
+      const need = await createProgram("Need");
+      await submit(merit);
+      await submit(merit);
+      const third = await submit(need);
+      await adminClient.processApplication(third, true, 1_000);
+      const indexer = createIndexer();
+
+      const head = await indexer.sync();
+
+      expect(head).to.equal(await ethers.provider.getBlockNumber());
+      const programs = await indexer.listPrograms();
+      expect(programs.map((program) => [program.programId, program.name, program.administrator])).to.deep.equal([
+        ["1", "Merit", admin.address],
+        ["2", "Need", admin.address],
+      ]);
+      expect(programs.map((program) => [program.applicationCount, program.processedCount])).to.deep.equal([
+        [2, 0],
+        [1, 1],
+      ]);
+    });
+
+    it("✅ should record when each program was created", async function () {
+      await createProgram("Merit");
+      const [created] = await contract.queryFilter(contract.filters.ProgramCreated());
+      const block = await created.getBlock();
+      const indexer = createIndexer();
+
+      await indexer.sync();
+
+      expect(await indexer.getProgram("1")).to.deep.include({
+        blockNumber: created.blockNumber,
+        createdAt: block.timestamp,
+        transactionHash: created.transactionHash,
+      });
+    });
+
+    it("✅ should follow renames and administrator transfers", async function () {
+      const merit = await createProgram("Merit");
+      await adminClient.updateProgram(merit, { name: "Merit Plus", description: "Renamed", maxApplications: 20 });
+      await adminClient.transferProgramAdministration(merit, applicant.address);
+      await applicantClient.acceptProgramAdministration(merit);
+      const indexer = createIndexer();
+
+      await indexer.sync();
+
+      expect(await indexer.getProgram("1")).to.deep.include({
+        name: "Merit Plus",
+        description: "Renamed",
+        maxApplications: "20",
+        administrator: applicant.address,
+      });
+    });
+
+    it("✅ should index the details a program was created with", async function () {
+      await createProgram("Merit");
+      const indexer = createIndexer();
+
+      await indexer.sync();
+
+      expect(await indexer.getProgram("1")).to.deep.include({
+        name: "Merit",
+        description: "Merit description",
+        maxApplications: "10",
+        status: ProgramStatus.Open,
+      });
+    });
+
+    it("✅ should follow status changes", async function () {
+      const merit = await createProgram("Merit");
+      const indexer = createIndexer();
+      const status = async () => (await indexer.getProgram("1"))!.status;
+
+      await adminClient.closeProgram(merit);
+      await indexer.sync();
+      expect(await status()).to.equal(ProgramStatus.Closed);
+
+      await adminClient.reopenProgram(merit);
+      await indexer.sync();
+      expect(await status()).to.equal(ProgramStatus.Open);
+
+      await adminClient.closeProgram(merit);
+      await adminClient.archiveProgram(merit);
+      await indexer.sync();
+      expect(await status()).to.equal(ProgramStatus.Archived);
+    });
+
+    it("✅ should stop counting withdrawn applications", async function () {
+      const merit = await createProgram("Merit");
+      const first = await submit(merit);
+      await submit(merit);
+      await applicantClient.withdrawApplication(first);
+      const indexer = createIndexer();
+
+      await indexer.sync();
+
+      expect((await indexer.getProgram("1"))!.applicationCount).to.equal(1);
+    });
+
+    it("✅ should count waitlisted applications apart until they are promoted", async function () {
+      const merit = await createProgram("Merit");
+      await adminClient.updateProgram(merit, { name: "Merit", description: "One place", maxApplications: 1 });
+      const admitted = await submit(merit);
+      await submit(merit);
+      const gone = await submit(merit);
+      await submit(merit);
+      const indexer = createIndexer();
+
+      await indexer.sync();
+      expect(await indexer.getProgram("1")).to.deep.include({ applicationCount: 1, waitlistCount: 3 });
+
+      await adminClient.connect((await ethers.getSigners())[3]).withdrawApplication(gone);
+      await adminClient.disqualifyApplication(admitted);
+      await indexer.sync();
+
+      expect(await indexer.getProgram("1")).to.deep.include({ applicationCount: 1, waitlistCount: 1 });
+    });
+
+    it("✅ should keep the processing history of each program in order", async function () {
+      const merit = await createProgram("Merit");
+      const first = await submit(merit);
+      const second = await submit(merit);
+      await adminClient.processApplication(second, false, 0);
+      await adminClient.processApplication(first, true, 2_000);
+      const indexer = createIndexer();
+
+      await indexer.sync();
+
+      const history = await indexer.getProcessingHistory("1");
+      expect(history!.map((record) => record.applicationId)).to.deep.equal([second.toString(), first.toString()]);
+      const receipt = await ethers.provider.getTransactionReceipt(history![1].transactionHash);
+      const block = await ethers.provider.getBlock(receipt!.blockNumber);
+      expect(history![1]).to.deep.equal({
+        applicationId: first.toString(),
+        blockNumber: receipt!.blockNumber,
+        processedAt: block!.timestamp,
+        transactionHash: receipt!.hash,
+      });
+    });
+
+    it("✅ should index across batches and follow new blocks", async function () {
+      const merit = await createProgram("Merit");
+      const indexer = new EventIndexer(contract, { startBlock: deployBlock, batchSize: 1, pollIntervalMs: 50 });
+      indexers.push(indexer);
+      await indexer.start();
+
+      await submit(merit);
+      const block = await ethers.provider.getBlockNumber();
+      while ((await indexer.status()).block < block) {
+        await new Promise((resolve) => setTimeout(resolve, 25));
+      }
+
+      expect((await indexer.getProgram("1"))!.applicationCount).to.equal(1);
+    });
+
+    it("❌ should ignore other contracts", async function () {
+      const factory = await getScholarshipFactory();
+      const other = (await factory.deploy()) as AnonymousScholarshipApplication;
+      await createProgram("Elsewhere", ScholarshipClient.at(await other.getAddress(), admin, fhevm));
+      await createProgram("Merit");
+      const indexer = createIndexer();
+
+      await indexer.sync();
+
+      expect((await indexer.listPrograms()).map((program) => program.name)).to.deep.equal(["Merit"]);
+    });
+  });
+
+  describe("Resuming", function () {
+    it("✅ should resume from the last indexed block", async function () {
+      const merit = await createProgram("Merit");
+      const first = createIndexer();
+      const stoppedAt = await first.sync();
+      await first.stop();
+
+      await submit(merit);
+      const second = createIndexer();
+
+      expect((await second.status()).block).to.equal(stoppedAt);
+      await second.sync();
+      const programs = await second.listPrograms();
+      expect(programs).to.have.length(1);
+      expect(programs[0].applicationCount).to.equal(1);
+    });
+
+    it("✅ should save the index after every sync", async function () {
+      await createProgram("Merit");
+      const indexer = createIndexer();
+
+      const head = await indexer.sync();
+
+      const stored = JSON.parse(readFileSync(storePath, "utf8"));
+      expect(stored.head).to.equal(head);
+      expect(stored.events.map((event: { name: string }) => event.name)).to.deep.equal([
+        "ProgramCreated",
+        "ProgramUpdated",
+      ]);
+      expect(existsSync(`${storePath}.tmp`)).to.be.false;
+    });
+
+    it("✅ should start over when the store belongs to another contract", async function () {
+      await createProgram("Merit");
+      await createIndexer().sync();
+
+      const factory = await getScholarshipFactory();
+      const other = (await factory.deploy()) as AnonymousScholarshipApplication;
+      const indexer = createIndexer(other);
+      await indexer.sync();
+
+      expect(await indexer.listPrograms()).to.deep.equal([]);
+      expect((await indexer.status()).contract).to.equal((await other.getAddress()).toLowerCase());
+    });
+  });
+
+  describe("Reorgs", function () {
+    let snapshot: string;
+
+    beforeEach(async function () {
+      await createProgram("Merit");
+      snapshot = await network.provider.send("evm_snapshot");
+    });
+
+    it("✅ should drop events from blocks that left the chain", async function () {
+      await submit(1n);
+      await createProgram("Orphaned");
+      const indexer = createIndexer();
+      await indexer.sync();
+      expect(await indexer.listPrograms()).to.have.length(2);
+
+      // Replace the indexed blocks with a longer fork holding different events
+      await network.provider.send("evm_revert", [snapshot]);
+      await createProgram("Canonical");
+      await submit(2n);
+      await submit(2n);
+      await network.provider.send("hardhat_mine", ["0x3"]);
+
+      await indexer.sync();
+
+      const programs = await indexer.listPrograms();
+      expect(programs.map((program) => [program.name, program.applicationCount])).to.deep.equal([
+        ["Merit", 0],
+        ["Canonical", 2],
+      ]);
+      expect((await indexer.status()).block).to.equal(await ethers.provider.getBlockNumber());
+    });
+
+    it("✅ should roll back when the chain becomes shorter than the index", async function () {
+      await createProgram("Orphaned");
+      await network.provider.send("hardhat_mine", ["0x5"]);
+      const indexer = createIndexer();
+      await indexer.sync();
+
+      await network.provider.send("evm_revert", [snapshot]);
+      const head = await indexer.sync();
+
+      expect(head).to.equal(await ethers.provider.getBlockNumber());
+      expect((await indexer.listPrograms()).map((program) => program.name)).to.deep.equal(["Merit"]);
+
+      // The mock coprocessor reads blocks by number; move past the old head so later
+      // computations land in blocks it has not read yet
+      await network.provider.send("hardhat_mine", ["0x10"]);
+    });
+
+    it("✅ should keep only the hashes of recent blocks", async function () {
+      const store = IndexerStore.open(undefined, "31337", await contract.getAddress(), 0);
+
+      store.append([], new Map(Array.from({ length: 300 }, (_, i) => [i, `0x${i}`])), 299);
+
+      expect(store.trackedBlocks()).to.have.length(256);
+      expect(store.trackedBlocks()[0]).to.equal(299);
+      expect(store.blockHash(43)).to.be.undefined;
+    });
+  });
+
+  describe("HTTP API", function () {
+    let indexer: EventIndexer;
+    let client: IndexerClient;
+    let url: string;
+
+    beforeEach(async function () {
+      const merit = await createProgram("Merit");
+      await adminClient.processApplication(await submit(merit), true, 500);
+      indexer = createIndexer();
+      url = await indexer.start();
+      client = new IndexerClient(url);
+    });
+
+    it("✅ should listen on localhost only", async function () {
+      expect(new URL(url).hostname).to.equal("127.0.0.1");
+    });
+
+    it("✅ should describe the index", async function () {
+      expect(await client.getStatus()).to.deep.equal({
+        contract: (await contract.getAddress()).toLowerCase(),
+        chainId: "31337",
+        block: await ethers.provider.getBlockNumber(),
+      });
+    });
+
+    it("✅ should serve programs and processing history", async function () {
+      expect(await client.listPrograms()).to.deep.equal(await indexer.listPrograms());
+      expect((await client.getProgram(1)).processedCount).to.equal(1);
+      expect((await client.getProcessingHistory(1n)).map((record) => record.applicationId)).to.deep.equal(["1"]);
+    });
+
+    it("❌ should not serve applicant addresses", async function () {
+      const body = await (await fetch(`${url}/programs/1/history`)).text();
+
+      expect(body.toLowerCase()).to.not.include(applicant.address.toLowerCase().slice(2));
+    });
+
+    it("❌ should map unknown programs and an unreachable indexer to INDEXER_ERROR", async function () {
+      for (const request of [() => client.getProgram(42), () => client.getProcessingHistory(42)]) {
+        try {
+          await request();
+          expect.fail("Expected an unknown program to be rejected");
+        } catch (error) {
+          expect(error).to.be.instanceOf(ScholarshipClientError);
+          expect((error as ScholarshipClientError).code).to.equal("INDEXER_ERROR");
+        }
+      }
+
+      await indexer.stop();
+      try {
+        await client.listPrograms();
+        expect.fail("Expected a stopped indexer to be unreachable");
+      } catch (error) {
+        expect((error as ScholarshipClientError).code).to.equal("INDEXER_ERROR");
+      }
+    });
+
+    it("❌ should only answer GET requests", async function () {
+      expect((await fetch(`${url}/programs`, { method: "POST" })).status).to.equal(405);
+      expect((await fetch(`${url}/applications`)).status).to.equal(404);
+    });
+  });
+});
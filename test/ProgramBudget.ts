@@ -0,0 +1,292 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect, use } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { AnonymousScholarshipApplication } from "../types";
+import { fhevmMatchers } from "./helpers/fhevmMatchers";
+import { Rule, serializeRule } from "../sdk";
+import { OPEN_SCHEDULE, getScholarshipFactory, skipUnlessMock } from "./helpers/scholarship";
+
+use(fhevmMatchers);
+
+/**
+ * @title Program Budget Tests
+ * @notice Encrypted budgets and award amounts deducted with FHE.select
+ * @dev Tests cover:
+ * - Awards deducted from the encrypted remaining budget
+ * - Exhausting the budget across many approvals
+ * - Overspending approvals award zero instead of reverting
+ * - Rejected and ineligible applications leave the budget untouched
+ * - Who may decrypt budgets and awards
+ */
+
+type Approval = {
+  eligible?: boolean;
+  approved?: boolean;
+  amount: number;
+};
+
+const OPEN_THRESHOLDS = { minGpa: 0, maxHouseholdIncome: 2 ** 32 - 1 };
+
+describe("Program Budget", function () {
+  let programAdmin: HardhatEthersSigner;
+  let applicants: HardhatEthersSigner[];
+  let contract: AnonymousScholarshipApplication;
+  let contractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    programAdmin = ethSigners[0];
+    applicants = ethSigners.slice(1);
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+
+    const factory = await getScholarshipFactory();
+    contract = (await factory.deploy()) as AnonymousScholarshipApplication;
+    contractAddress = await contract.getAddress();
+  });
+
+  /** Creates a program whose only rule is criterion 0, funded with `budget`. */
+  async function createProgram(budget: number | bigint) {
+    const { criteriaCount, nodes } = serializeRule(Rule.criterion(0));
+    const encryptedInput = await fhevm
+      .createEncryptedInput(contractAddress, programAdmin.address)
+      .add16(OPEN_THRESHOLDS.minGpa)
+      .add32(OPEN_THRESHOLDS.maxHouseholdIncome)
+      .add64(budget)
+      .encrypt();
+
+    await contract
+      .connect(programAdmin)
+      .createProgram(
+        "Funded Program",
+        "Budget test",
+        100,
+        criteriaCount,
+        nodes,
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        OPEN_SCHEDULE,
+        encryptedInput.inputProof
+      );
+    return Number(await contract.programCount());
+  }
+
+  async function submitApplication(applicant: HardhatEthersSigner, programId: number, eligible: boolean) {
+    const encryptedInput = await fhevm
+      .createEncryptedInput(contractAddress, applicant.address)
+      .addBool(eligible)
+      .add16(0)
+      .add32(0)
+      .encrypt();
+
+    await contract
+      .connect(applicant)
+      .submitApplication(
+        programId,
+        [encryptedInput.handles[0]],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        encryptedInput.inputProof
+      );
+    return Number(await contract.applicationCount());
+  }
+
+  async function processApplication(applicationId: number, approved: boolean, amount: number) {
+    const encryptedInput = await fhevm
+      .createEncryptedInput(contractAddress, programAdmin.address)
+      .addBool(approved)
+      .add64(amount)
+      .encrypt();
+
+    await contract
+      .connect(programAdmin)
+      .processApplication(
+        applicationId,
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.inputProof
+      );
+  }
+
+  /** Submits and processes one application per approval, in order, returning their ids. */
+  async function approveAll(programId: number, approvals: Approval[]) {
+    const applicationIds: number[] = [];
+    for (const [i, { eligible = true, approved = true, amount }] of approvals.entries()) {
+      const applicationId = await submitApplication(applicants[i], programId, eligible);
+      await processApplication(applicationId, approved, amount);
+      applicationIds.push(applicationId);
+    }
+    return applicationIds;
+  }
+
+  async function expectRemainingBudget(programId: number, expected: number) {
+    const handle = await contract.connect(programAdmin).getRemainingBudget(programId);
+    await expect(handle).to.decryptAs(FhevmType.euint64, expected, contractAddress, programAdmin);
+  }
+
+  async function expectAward(applicationId: number, applicant: HardhatEthersSigner, expected: number) {
+    const handle = await contract.connect(applicant).getApplicationAward(applicationId);
+    await expect(handle).to.decryptAs(FhevmType.euint64, expected, contractAddress, applicant);
+  }
+
+  describe("Disbursement", function () {
+    it("✅ should start with the full budget", async function () {
+      const programId = await createProgram(5_000);
+      await expectRemainingBudget(programId, 5_000);
+    });
+
+    it("✅ should deduct each award from the remaining budget", async function () {
+      const programId = await createProgram(5_000);
+      const [first, second] = await approveAll(programId, [{ amount: 1_200 }, { amount: 800 }]);
+
+      await expectAward(first, applicants[0], 1_200);
+      await expectAward(second, applicants[1], 800);
+      await expectRemainingBudget(programId, 3_000);
+    });
+
+    it("✅ should not deduct rejected or ineligible applications", async function () {
+      const programId = await createProgram(5_000);
+      const [rejected, ineligible] = await approveAll(programId, [
+        { approved: false, amount: 1_000 },
+        { eligible: false, amount: 1_000 },
+      ]);
+
+      await expectAward(rejected, applicants[0], 0);
+      await expectAward(ineligible, applicants[1], 0);
+      await expectRemainingBudget(programId, 5_000);
+    });
+
+    it("✅ should allow an award of exactly the remaining budget", async function () {
+      const programId = await createProgram(2_000);
+      const [applicationId] = await approveAll(programId, [{ amount: 2_000 }]);
+
+      await expectAward(applicationId, applicants[0], 2_000);
+      await expect(await contract.connect(applicants[0]).getApplicationDecision(applicationId)).to.decryptAsEbool(
+        true,
+        contractAddress,
+        applicants[0]
+      );
+      await expectRemainingBudget(programId, 0);
+    });
+  });
+
+  describe("Budget Exhaustion", function () {
+    it("✅ should award zero once the budget is exhausted across many approvals", async function () {
+      const programId = await createProgram(5_000);
+      const approvals = Array.from({ length: 8 }, () => ({ amount: 1_000 }));
+      const applicationIds = await approveAll(programId, approvals);
+
+      for (const [i, applicationId] of applicationIds.entries()) {
+        await expectAward(applicationId, applicants[i], i < 5 ? 1_000 : 0);
+      }
+      await expectRemainingBudget(programId, 0);
+    });
+
+    it("✅ should skip an overspending award and still fund smaller later ones", async function () {
+      const programId = await createProgram(3_000);
+      const applicationIds = await approveAll(programId, [
+        { amount: 2_000 },
+        { amount: 1_500 }, // overspends: 1,000 left
+        { amount: 600 },
+        { amount: 400 },
+        { amount: 1 }, // budget is empty
+      ]);
+
+      const expected = [2_000, 0, 600, 400, 0];
+      for (const [i, applicationId] of applicationIds.entries()) {
+        await expectAward(applicationId, applicants[i], expected[i]);
+      }
+      await expectRemainingBudget(programId, 0);
+    });
+
+    it("✅ should mark an unfunded approval as not awarded", async function () {
+      const programId = await createProgram(500);
+      const [applicationId] = await approveAll(programId, [{ amount: 501 }]);
+
+      const decision = await contract.connect(applicants[0]).getApplicationDecision(applicationId);
+      await expect(decision).to.decryptAsEbool(false, contractAddress, applicants[0]);
+      await expectRemainingBudget(programId, 500);
+    });
+
+    it("✅ should not reveal overspending through a revert or event", async function () {
+      const programId = await createProgram(100);
+      const applicationId = await submitApplication(applicants[0], programId, true);
+      const encryptedInput = await fhevm
+        .createEncryptedInput(contractAddress, programAdmin.address)
+        .addBool(true)
+        .add64(1_000_000)
+        .encrypt();
+
+      await expect(
+        contract
+          .connect(programAdmin)
+          .processApplication(
+            applicationId,
+            encryptedInput.handles[0],
+            encryptedInput.handles[1],
+            encryptedInput.inputProof
+          )
+      )
+        .to.emit(contract, "ApplicationProcessed")
+        .withArgs(applicationId);
+    });
+
+    it("✅ should keep budgets of different programs apart", async function () {
+      const small = await createProgram(1_000);
+      const large = await createProgram(10_000);
+      await approveAll(small, [{ amount: 1_000 }]);
+
+      const applicationId = await submitApplication(applicants[1], large, true);
+      await processApplication(applicationId, true, 4_000);
+
+      await expectRemainingBudget(small, 0);
+      await expectRemainingBudget(large, 6_000);
+    });
+  });
+
+  describe("Access Control", function () {
+    it("❌ should only let the administrator read the remaining budget", async function () {
+      const programId = await createProgram(5_000);
+      await expect(contract.connect(applicants[0]).getRemainingBudget(programId)).to.be.revertedWith("Not authorized");
+    });
+
+    it("❌ should not let applicants decrypt the remaining budget handle", async function () {
+      const programId = await createProgram(5_000);
+      await approveAll(programId, [{ amount: 1_000 }]);
+      const handle = await contract.connect(programAdmin).getRemainingBudget(programId);
+
+      let decrypted = false;
+      try {
+        await fhevm.userDecryptEuint(FhevmType.euint64, handle, contractAddress, applicants[0]);
+        decrypted = true;
+      } catch {
+        // Expected: only the administrator is allowed on the budget
+      }
+      expect(decrypted).to.equal(false);
+    });
+
+    it("❌ should only let the applicant and administrator read an award", async function () {
+      const programId = await createProgram(5_000);
+      const [applicationId] = await approveAll(programId, [{ amount: 1_000 }]);
+
+      await expect(contract.connect(applicants[1]).getApplicationAward(applicationId)).to.be.revertedWith(
+        "Not authorized"
+      );
+      const handle = await contract.connect(programAdmin).getApplicationAward(applicationId);
+      await expect(handle).to.decryptAs(FhevmType.euint64, 1_000, contractAddress, programAdmin);
+    });
+
+    it("❌ should not expose an award before processing", async function () {
+      const programId = await createProgram(5_000);
+      const applicationId = await submitApplication(applicants[0], programId, true);
+
+      await expect(contract.connect(applicants[0]).getApplicationAward(applicationId)).to.be.revertedWith(
+        "Not processed"
+      );
+    });
+  });
+});
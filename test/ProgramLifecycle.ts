@@ -0,0 +1,316 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { ZeroAddress } from "ethers";
+import { AnonymousScholarshipApplication } from "../types";
+import { ProgramStatus, Rule, ScholarshipClient } from "../sdk";
+import {
+  APPLICATION,
+  OPEN_SCHEDULE,
+  expectClientError,
+  getScholarshipFactory,
+  skipUnlessMock,
+} from "./helpers/scholarship";
+
+/**
+ * @title Program Lifecycle Tests
+ * @notice Editing programs, moving them between Open, Closed and Archived, and handing them
+ * to another administrator
+ * @dev Tests cover:
+ * - updateProgram: name, description and capacity, never below the applications submitted
+ * - closeProgram, reopenProgram and archiveProgram, and the transitions they refuse
+ * - Archived programs cannot be edited, processed or handed over
+ * - Two-step administrator transfer: nominate, cancel, accept, and the budget and applications the new
+ *   administrator decrypts, claimed in batches or granted on promotion
+ * - Events for every change, and only the administrator changing anything
+ */
+
+const BUDGET = 10_000;
+
+describe("Program Lifecycle", function () {
+  let programAdmin: HardhatEthersSigner;
+  let successor: HardhatEthersSigner;
+  let applicant: HardhatEthersSigner;
+  let stranger: HardhatEthersSigner;
+  let latecomer: HardhatEthersSigner;
+  let contract: AnonymousScholarshipApplication;
+  let adminClient: ScholarshipClient;
+  let successorClient: ScholarshipClient;
+  let applicantClient: ScholarshipClient;
+  let programId: bigint;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    [programAdmin, successor, applicant, stranger, latecomer] = ethSigners;
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+
+    const factory = await getScholarshipFactory();
+    contract = (await factory.deploy()) as AnonymousScholarshipApplication;
+    adminClient = ScholarshipClient.at(await contract.getAddress(), programAdmin, fhevm);
+    successorClient = adminClient.connect(successor);
+    applicantClient = adminClient.connect(applicant);
+
+    ({ programId } = await adminClient.createProgram({
+      name: "Merit",
+      description: "Top students",
+      maxApplications: 2,
+      minGpa: 0,
+      maxHouseholdIncome: 2 ** 32 - 1,
+      budget: BUDGET,
+      schedule: OPEN_SCHEDULE,
+      rule: Rule.criterion(0),
+    }));
+  });
+
+  async function submit(client: ScholarshipClient = applicantClient) {
+    const { applicationId } = await client.submitApplication({ programId, ...APPLICATION });
+    return applicationId;
+  }
+
+  async function archive() {
+    await contract.connect(programAdmin).closeProgram(programId);
+    await contract.connect(programAdmin).archiveProgram(programId);
+  }
+
+  describe("Editing", function () {
+    it("✅ should update the name, description and capacity", async function () {
+      await expect(contract.connect(programAdmin).updateProgram(programId, "Merit Plus", "Top 10%", 5))
+        .to.emit(contract, "ProgramUpdated")
+        .withArgs(programId, "Merit Plus", "Top 10%", 5);
+
+      expect(await adminClient.getProgram(programId)).to.deep.include({
+        name: "Merit Plus",
+        description: "Top 10%",
+        maxApplications: 5n,
+        status: ProgramStatus.Open,
+      });
+    });
+
+    it("✅ should admit waitlisted applications once a full program grows", async function () {
+      await submit();
+      await submit(adminClient.connect(stranger));
+      const waitlisted = await submit(adminClient.connect(successor));
+
+      await expect(contract.connect(programAdmin).updateProgram(programId, "Merit", "Top students", 3))
+        .to.emit(contract, "ApplicationPromoted")
+        .withArgs(waitlisted, programId);
+
+      expect((await adminClient.getProgram(programId)).currentApplications).to.equal(3n);
+    });
+
+    it("✅ should shrink capacity down to the applications submitted", async function () {
+      await submit();
+
+      await contract.connect(programAdmin).updateProgram(programId, "Merit", "Top students", 1);
+
+      expect((await contract.getProgramInfo(programId)).maxApplications).to.equal(1);
+    });
+
+    it("❌ should not shrink capacity below the applications submitted", async function () {
+      await submit();
+      await submit(adminClient.connect(stranger));
+
+      await expect(
+        contract.connect(programAdmin).updateProgram(programId, "Merit", "Top students", 1)
+      ).to.be.revertedWith("Capacity below applications");
+      await expectClientError(
+        adminClient.updateProgram(programId, { name: "Merit", description: "Top students", maxApplications: 0 }),
+        "CAPACITY_BELOW_APPLICATIONS"
+      );
+    });
+
+    it("❌ should only let the administrator edit", async function () {
+      await expect(contract.connect(stranger).updateProgram(programId, "Mine", "Now", 10)).to.be.revertedWith(
+        "Not program administrator"
+      );
+    });
+  });
+
+  describe("Status", function () {
+    it("✅ should close, reopen and archive with an event for each change", async function () {
+      const admin = contract.connect(programAdmin);
+
+      await expect(admin.closeProgram(programId))
+        .to.emit(contract, "ProgramStatusChanged")
+        .withArgs(programId, ProgramStatus.Closed);
+      expect((await contract.getProgramInfo(programId)).status).to.equal(ProgramStatus.Closed);
+
+      await expect(admin.reopenProgram(programId))
+        .to.emit(contract, "ProgramStatusChanged")
+        .withArgs(programId, ProgramStatus.Open);
+      expect(await adminClient.getProgram(programId)).to.deep.include({ isActive: true, status: ProgramStatus.Open });
+
+      await adminClient.closeProgram(programId);
+      await expect(admin.archiveProgram(programId))
+        .to.emit(contract, "ProgramStatusChanged")
+        .withArgs(programId, ProgramStatus.Archived);
+      expect(await adminClient.getProgram(programId)).to.deep.include({
+        isActive: false,
+        status: ProgramStatus.Archived,
+      });
+    });
+
+    it("❌ should refuse transitions that skip or repeat a state", async function () {
+      const admin = contract.connect(programAdmin);
+
+      await expect(admin.reopenProgram(programId)).to.be.revertedWith("Invalid status transition");
+      await expect(admin.archiveProgram(programId)).to.be.revertedWith("Invalid status transition");
+      await admin.closeProgram(programId);
+      await expect(admin.closeProgram(programId)).to.be.revertedWith("Invalid status transition");
+      await admin.archiveProgram(programId);
+
+      await expect(admin.closeProgram(programId)).to.be.revertedWith("Invalid status transition");
+      await expect(admin.reopenProgram(programId)).to.be.revertedWith("Invalid status transition");
+      await expect(admin.archiveProgram(programId)).to.be.revertedWith("Invalid status transition");
+      await expectClientError(adminClient.reopenProgram(programId), "INVALID_STATUS_TRANSITION");
+    });
+
+    it("✅ should keep processing applications of a closed program", async function () {
+      const applicationId = await submit();
+      await adminClient.closeProgram(programId);
+
+      await expectClientError(submit(adminClient.connect(stranger)), "PROGRAM_NOT_ACTIVE");
+      await adminClient.processApplication(applicationId, true, 2_500);
+
+      expect(await applicantClient.decryptAward(applicationId)).to.equal(2_500n);
+    });
+
+    it("❌ should freeze an archived program", async function () {
+      const applicationId = await submit();
+      await archive();
+
+      await expectClientError(submit(adminClient.connect(stranger)), "PROGRAM_NOT_ACTIVE");
+      await expectClientError(adminClient.processApplication(applicationId, true, 2_500), "PROGRAM_ARCHIVED");
+      await expect(
+        contract.connect(programAdmin).updateProgram(programId, "Merit", "Top students", 5)
+      ).to.be.revertedWith("Program archived");
+      await expectClientError(
+        adminClient.transferProgramAdministration(programId, successor.address),
+        "PROGRAM_ARCHIVED"
+      );
+    });
+
+    it("❌ should only let the administrator change the status", async function () {
+      await expect(contract.connect(stranger).closeProgram(programId)).to.be.revertedWith("Not program administrator");
+      await expectClientError(applicantClient.closeProgram(programId), "NOT_PROGRAM_ADMIN");
+    });
+  });
+
+  describe("Administrator Transfer", function () {
+    it("✅ should hand the program over once the nominee accepts", async function () {
+      await expect(contract.connect(programAdmin).transferProgramAdministration(programId, successor.address))
+        .to.emit(contract, "ProgramAdministrationTransferStarted")
+        .withArgs(programId, programAdmin.address, successor.address);
+      expect(await adminClient.getPendingAdministrator(programId)).to.equal(successor.address);
+      expect((await contract.programs(programId)).administrator).to.equal(programAdmin.address);
+
+      await expect(contract.connect(successor).acceptProgramAdministration(programId))
+        .to.emit(contract, "ProgramAdministrationTransferred")
+        .withArgs(programId, programAdmin.address, successor.address);
+
+      expect((await contract.programs(programId)).administrator).to.equal(successor.address);
+      expect(await adminClient.getPendingAdministrator(programId)).to.be.null;
+    });
+
+    it("✅ should let the new administrator process applications and decrypt the budget", async function () {
+      const applicationId = await submit();
+      await adminClient.transferProgramAdministration(programId, successor.address);
+      await successorClient.acceptProgramAdministration(programId);
+
+      await successorClient.processApplication(applicationId, true, 4_000);
+
+      expect(await successorClient.decryptRemainingBudget(programId)).to.equal(BigInt(BUDGET - 4_000));
+      expect(await successorClient.decryptDecision(applicationId)).to.be.true;
+    });
+
+    it("✅ should let the new administrator decrypt the applications received so far", async function () {
+      const processed = await submit();
+      const reviewed = await submit(adminClient.connect(stranger));
+      await adminClient.addReviewer(programId, stranger.address);
+      await adminClient.connect(stranger).submitReview(reviewed, 70);
+      await adminClient.processApplication(processed, true, 2_500);
+
+      await adminClient.transferProgramAdministration(programId, successor.address);
+      await successorClient.acceptProgramAdministration(programId);
+      expect(await successorClient.claimApplicationAccess(programId, { batchSize: 1 })).to.have.lengthOf(2);
+
+      const contractAddress = await contract.getAddress();
+      for (const applicationId of [processed, reviewed]) {
+        const eligibility = await contract.connect(successor).getApplicationEligibility(applicationId);
+        expect(await fhevm.userDecryptEbool(eligibility, contractAddress, successor)).to.be.true;
+      }
+      expect(await successorClient.decryptApplicationScore(reviewed)).to.deep.equal({
+        totalScore: 70n,
+        reviewCount: 1,
+      });
+      expect(await successorClient.decryptDecision(processed)).to.be.true;
+      expect(await successorClient.decryptAward(processed)).to.equal(2_500n);
+    });
+
+    it("✅ should let the new administrator decrypt an application promoted after the transfer", async function () {
+      const admitted = await submit();
+      await submit(adminClient.connect(stranger));
+      const waitlisted = await submit(adminClient.connect(latecomer));
+      await adminClient.transferProgramAdministration(programId, successor.address);
+      await successorClient.acceptProgramAdministration(programId);
+
+      await applicantClient.withdrawApplication(admitted);
+
+      const eligibility = await contract.connect(successor).getApplicationEligibility(waitlisted);
+      expect(await fhevm.userDecryptEbool(eligibility, await contract.getAddress(), successor)).to.be.true;
+    });
+
+    it("❌ should only let the administrator claim application access", async function () {
+      await submit();
+      await adminClient.transferProgramAdministration(programId, successor.address);
+      await successorClient.acceptProgramAdministration(programId);
+
+      await expect(contract.connect(programAdmin).claimApplicationAccess(programId, 0, 10)).to.be.revertedWith(
+        "Not program administrator"
+      );
+      await expectClientError(successorClient.claimApplicationAccess(programId, { batchSize: 0 }), "INVALID_ARGUMENT");
+    });
+
+    it("❌ should take the program away from the previous administrator", async function () {
+      const applicationId = await submit();
+      await adminClient.transferProgramAdministration(programId, successor.address);
+      await successorClient.acceptProgramAdministration(programId);
+
+      await expectClientError(adminClient.processApplication(applicationId, true, 1_000), "NOT_PROGRAM_ADMIN");
+      await expectClientError(adminClient.closeProgram(programId), "NOT_PROGRAM_ADMIN");
+    });
+
+    it("✅ should cancel or replace a nomination", async function () {
+      await adminClient.transferProgramAdministration(programId, successor.address);
+      await adminClient.transferProgramAdministration(programId, ZeroAddress);
+
+      expect(await adminClient.getPendingAdministrator(programId)).to.be.null;
+      await expectClientError(successorClient.acceptProgramAdministration(programId), "NOT_PENDING_ADMIN");
+
+      await adminClient.transferProgramAdministration(programId, successor.address);
+      await adminClient.transferProgramAdministration(programId, stranger.address);
+      await expectClientError(successorClient.acceptProgramAdministration(programId), "NOT_PENDING_ADMIN");
+      await adminClient.connect(stranger).acceptProgramAdministration(programId);
+      expect((await contract.programs(programId)).administrator).to.equal(stranger.address);
+    });
+
+    it("❌ should only let the administrator nominate", async function () {
+      await expect(
+        contract.connect(stranger).transferProgramAdministration(programId, stranger.address)
+      ).to.be.revertedWith("Not program administrator");
+      await expect(contract.connect(stranger).acceptProgramAdministration(programId)).to.be.revertedWith(
+        "Not pending administrator"
+      );
+    });
+
+    it("❌ should not hand over a program archived after the nomination", async function () {
+      await adminClient.transferProgramAdministration(programId, successor.address);
+      await archive();
+
+      await expectClientError(successorClient.acceptProgramAdministration(programId), "PROGRAM_ARCHIVED");
+    });
+  });
+});
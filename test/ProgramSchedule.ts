@@ -0,0 +1,242 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { AnonymousScholarshipApplication } from "../types";
+import { Rule, serializeRule } from "../sdk";
+import { getScholarshipFactory, skipUnlessMock } from "./helpers/scholarship";
+
+/**
+ * @title Program Schedule Tests
+ * @notice Application windows and review deadlines, driven with Hardhat time travel
+ * @dev Tests cover:
+ * - Early, on-time, boundary and late submissions
+ * - Processing up to and after the review deadline
+ * - Schedule validation at createProgram
+ */
+
+type Schedule = {
+  opensAt: number;
+  closesAt: number;
+  reviewDeadline: number;
+};
+
+const OPEN_THRESHOLDS = { minGpa: 0, maxHouseholdIncome: 2 ** 32 - 1 };
+const OPEN_BUDGET = 2n ** 64n - 1n;
+const DAY = 24 * 60 * 60;
+
+describe("Program Schedule", function () {
+  let programAdmin: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let contract: AnonymousScholarshipApplication;
+  let contractAddress: string;
+  let schedule: Schedule;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    [programAdmin, alice, bob] = ethSigners;
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+
+    const factory = await getScholarshipFactory();
+    contract = (await factory.deploy()) as AnonymousScholarshipApplication;
+    contractAddress = await contract.getAddress();
+
+    // Opens tomorrow, accepts applications for a week, then allows a week of review
+    const now = await time.latest();
+    schedule = { opensAt: now + DAY, closesAt: now + 8 * DAY, reviewDeadline: now + 15 * DAY };
+  });
+
+  async function createProgram(programSchedule: Schedule = schedule) {
+    const { criteriaCount, nodes } = serializeRule(Rule.criterion(0));
+    const encryptedInput = await fhevm
+      .createEncryptedInput(contractAddress, programAdmin.address)
+      .add16(OPEN_THRESHOLDS.minGpa)
+      .add32(OPEN_THRESHOLDS.maxHouseholdIncome)
+      .add64(OPEN_BUDGET)
+      .encrypt();
+
+    return contract
+      .connect(programAdmin)
+      .createProgram(
+        "Scheduled Program",
+        "Deadline test",
+        100,
+        criteriaCount,
+        nodes,
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        programSchedule,
+        encryptedInput.inputProof
+      );
+  }
+
+  /**
+   * Encrypts first so that `at`, when given, is the timestamp of the submission
+   * block itself rather than of a block mined while preparing the input.
+   */
+  async function submitApplication(applicant: HardhatEthersSigner, programId: number, at?: number) {
+    const encryptedInput = await fhevm
+      .createEncryptedInput(contractAddress, applicant.address)
+      .addBool(true)
+      .add16(0)
+      .add32(0)
+      .encrypt();
+
+    if (at !== undefined) {
+      await time.setNextBlockTimestamp(at);
+    }
+    return contract
+      .connect(applicant)
+      .submitApplication(
+        programId,
+        [encryptedInput.handles[0]],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        encryptedInput.inputProof
+      );
+  }
+
+  async function processApplication(applicationId: number, at?: number) {
+    const encryptedInput = await fhevm
+      .createEncryptedInput(contractAddress, programAdmin.address)
+      .addBool(true)
+      .add64(1_000)
+      .encrypt();
+
+    if (at !== undefined) {
+      await time.setNextBlockTimestamp(at);
+    }
+    return contract
+      .connect(programAdmin)
+      .processApplication(
+        applicationId,
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.inputProof
+      );
+  }
+
+  describe("Application Window", function () {
+    beforeEach(async function () {
+      await createProgram();
+    });
+
+    it("❌ should reject applications before the program opens", async function () {
+      await expect(submitApplication(alice, 1)).to.be.revertedWith("Applications not open");
+    });
+
+    it("✅ should accept an application at the opening second", async function () {
+      await expect(submitApplication(alice, 1, schedule.opensAt)).to.emit(contract, "ApplicationSubmitted");
+    });
+
+    it("✅ should accept applications while the window is open", async function () {
+      await time.increase(3 * DAY);
+      await submitApplication(alice, 1);
+      await submitApplication(bob, 1);
+
+      expect((await contract.getProgramInfo(1)).currentApplications).to.equal(2n);
+    });
+
+    it("✅ should accept an application in the last second before closing", async function () {
+      await expect(submitApplication(alice, 1, schedule.closesAt - 1)).to.emit(contract, "ApplicationSubmitted");
+    });
+
+    it("❌ should reject an application at the closing second", async function () {
+      await expect(submitApplication(alice, 1, schedule.closesAt)).to.be.revertedWith("Applications closed");
+    });
+
+    it("❌ should reject late applications", async function () {
+      await time.increase(10 * DAY);
+      await expect(submitApplication(alice, 1)).to.be.revertedWith("Applications closed");
+    });
+  });
+
+  describe("Review Window", function () {
+    beforeEach(async function () {
+      await createProgram();
+      await submitApplication(alice, 1, schedule.opensAt);
+    });
+
+    it("✅ should allow processing while applications are still open", async function () {
+      await expect(processApplication(1)).to.emit(contract, "ApplicationProcessed").withArgs(1);
+    });
+
+    it("✅ should allow processing after applications close", async function () {
+      await time.increaseTo(schedule.closesAt + DAY);
+      await expect(processApplication(1)).to.emit(contract, "ApplicationProcessed").withArgs(1);
+    });
+
+    it("✅ should allow processing at the review deadline", async function () {
+      await expect(processApplication(1, schedule.reviewDeadline))
+        .to.emit(contract, "ApplicationProcessed")
+        .withArgs(1);
+    });
+
+    it("❌ should reject processing after the review deadline", async function () {
+      await expect(processApplication(1, schedule.reviewDeadline + 1)).to.be.revertedWith("Review closed");
+
+      const [, , , processed] = await contract.getApplicationBasicInfo(1);
+      expect(processed).to.equal(false);
+    });
+
+    it("✅ should enforce each program's own deadlines", async function () {
+      const later = {
+        opensAt: schedule.opensAt,
+        closesAt: schedule.closesAt + 30 * DAY,
+        reviewDeadline: schedule.reviewDeadline + 30 * DAY,
+      };
+      await createProgram(later);
+      await submitApplication(bob, 2);
+
+      await time.increaseTo(schedule.reviewDeadline + DAY);
+      await expect(processApplication(1)).to.be.revertedWith("Review closed");
+      await expect(processApplication(2)).to.emit(contract, "ApplicationProcessed").withArgs(2);
+      await expect(submitApplication(alice, 2)).to.emit(contract, "ApplicationSubmitted");
+    });
+  });
+
+  describe("Schedule Validation", function () {
+    it("✅ should store the schedule", async function () {
+      await createProgram();
+
+      const stored = await contract.getProgramSchedule(1);
+      expect(stored.opensAt).to.equal(BigInt(schedule.opensAt));
+      expect(stored.closesAt).to.equal(BigInt(schedule.closesAt));
+      expect(stored.reviewDeadline).to.equal(BigInt(schedule.reviewDeadline));
+    });
+
+    it("✅ should allow a program that is already open", async function () {
+      await createProgram({ ...schedule, opensAt: 0 });
+      await expect(submitApplication(alice, 1)).to.emit(contract, "ApplicationSubmitted");
+    });
+
+    it("✅ should allow a review deadline equal to the closing time", async function () {
+      await expect(createProgram({ ...schedule, reviewDeadline: schedule.closesAt })).to.emit(
+        contract,
+        "ProgramCreated"
+      );
+    });
+
+    it("❌ should reject a window that closes before it opens", async function () {
+      await expect(createProgram({ ...schedule, closesAt: schedule.opensAt })).to.be.revertedWith("Invalid schedule");
+    });
+
+    it("❌ should reject a review deadline before the window closes", async function () {
+      await expect(createProgram({ ...schedule, reviewDeadline: schedule.closesAt - 1 })).to.be.revertedWith(
+        "Invalid schedule"
+      );
+    });
+
+    it("❌ should reject a window that has already closed", async function () {
+      const now = await time.latest();
+      await expect(
+        createProgram({ opensAt: now - 2 * DAY, closesAt: now - DAY, reviewDeadline: now + DAY })
+      ).to.be.revertedWith("Invalid schedule");
+    });
+  });
+});
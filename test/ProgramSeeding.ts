@@ -0,0 +1,292 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import hre, { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { AnonymousScholarshipApplication } from "../types";
+import { ProgramManifest, Rule, ScholarshipClient, parseProgramManifest, planProgramSeed, seedPrograms } from "../sdk";
+import { deployScholarship, expectClientError, getScholarshipFactory, skipUnlessMock } from "./helpers/scholarship";
+
+/**
+ * @title Program Seeding Tests
+ * @notice Declarative, idempotent program creation from a manifest
+ * @dev Tests cover:
+ * - A second run with the same manifest creates nothing
+ * - Dry runs that plan without sending transactions
+ * - Drift reported for changed descriptions, capacities, rules and schedules
+ * - Manifest validation and the scholarship:seed task with JSON and YAML manifests
+ */
+
+const MANIFEST: ProgramManifest = {
+  programs: [
+    {
+      name: "Merit",
+      description: "Top students",
+      maxApplications: 25,
+      minGpa: 350,
+      maxHouseholdIncome: 60_000,
+      budget: 125_000,
+    },
+    {
+      name: "Need",
+      description: "Students with financial need",
+      maxApplications: 20,
+      minGpa: 250,
+      maxHouseholdIncome: 40_000,
+      budget: 70_000,
+      rule: Rule.allOf(Rule.criterion(0), Rule.maxHouseholdIncome()),
+      schedule: { opensAt: 0, closesAt: "4102444800", reviewDeadline: "4105036800" },
+    },
+  ],
+};
+
+describe("Program Seeding", function () {
+  let admin: HardhatEthersSigner;
+  let otherAdmin: HardhatEthersSigner;
+  let contract: AnonymousScholarshipApplication;
+  let client: ScholarshipClient;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    [admin, otherAdmin] = ethSigners;
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+
+    const factory = await getScholarshipFactory();
+    contract = (await factory.deploy()) as AnonymousScholarshipApplication;
+    client = ScholarshipClient.at(await contract.getAddress(), admin, fhevm);
+  });
+
+  function withProgram(name: string, changes: object): ProgramManifest {
+    return {
+      programs: MANIFEST.programs.map((program) => (program.name === name ? { ...program, ...changes } : program)),
+    };
+  }
+
+  describe("Idempotence", function () {
+    it("✅ should create every program on the first run", async function () {
+      const steps = await seedPrograms(client, MANIFEST);
+
+      expect(steps.map((step) => [step.name, step.action, step.programId])).to.deep.equal([
+        ["Merit", "created", 1n],
+        ["Need", "created", 2n],
+      ]);
+      expect(steps.every((step) => step.transactionHash)).to.be.true;
+
+      const need = await client.getProgram(2);
+      expect(need.description).to.equal("Students with financial need");
+      expect(need.maxApplications).to.equal(20n);
+      expect((await client.getProgramRule(2)).criteriaCount).to.equal(1);
+      expect((await client.getProgramSchedule(2)).closesAt).to.equal(4102444800n);
+    });
+
+    it("✅ should do nothing on the second run", async function () {
+      await seedPrograms(client, MANIFEST);
+      const blockNumber = await ethers.provider.getBlockNumber();
+
+      const steps = await seedPrograms(client, MANIFEST);
+
+      expect(steps.map((step) => [step.name, step.action, step.programId])).to.deep.equal([
+        ["Merit", "unchanged", 1n],
+        ["Need", "unchanged", 2n],
+      ]);
+      expect(await contract.programCount()).to.equal(2n);
+      expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+    });
+
+    it("✅ should only create programs added to the manifest since the last run", async function () {
+      await seedPrograms(client, { programs: [MANIFEST.programs[0]] });
+
+      const steps = await seedPrograms(client, MANIFEST);
+
+      expect(steps.map((step) => step.action)).to.deep.equal(["unchanged", "created"]);
+      expect(await contract.programCount()).to.equal(2n);
+    });
+
+    it("✅ should ignore programs with the same name run by another administrator", async function () {
+      await seedPrograms(client.connect(otherAdmin), MANIFEST);
+
+      const steps = await seedPrograms(client, MANIFEST);
+
+      expect(steps.map((step) => [step.action, step.programId])).to.deep.equal([
+        ["created", 3n],
+        ["created", 4n],
+      ]);
+    });
+  });
+
+  describe("Dry Run", function () {
+    it("✅ should plan without sending a transaction", async function () {
+      const blockNumber = await ethers.provider.getBlockNumber();
+
+      const steps = await seedPrograms(client, MANIFEST, { dryRun: true });
+
+      expect(steps.map((step) => [step.action, step.programId])).to.deep.equal([
+        ["create", null],
+        ["create", null],
+      ]);
+      expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+    });
+
+    it("✅ should match planProgramSeed", async function () {
+      await seedPrograms(client, { programs: [MANIFEST.programs[1]] });
+
+      expect(await seedPrograms(client, MANIFEST, { dryRun: true })).to.deep.equal(
+        await planProgramSeed(client, MANIFEST)
+      );
+    });
+  });
+
+  describe("Drift", function () {
+    beforeEach(async function () {
+      await seedPrograms(client, MANIFEST);
+    });
+
+    it("✅ should report a changed description and capacity", async function () {
+      const manifest = withProgram("Merit", { description: "Top 5% of students", maxApplications: 30 });
+
+      const [merit, need] = await seedPrograms(client, manifest);
+
+      expect(merit.action).to.equal("drift");
+      expect(merit.programId).to.equal(1n);
+      expect(merit.drift).to.deep.equal([
+        { field: "description", manifest: "Top 5% of students", onChain: "Top students" },
+        { field: "maxApplications", manifest: "30", onChain: "25" },
+      ]);
+      expect(need.action).to.equal("unchanged");
+    });
+
+    it("✅ should report a changed rule", async function () {
+      const [merit] = await planProgramSeed(client, withProgram("Merit", { rule: Rule.criterion(0) }));
+
+      expect(merit.drift.map((drift) => drift.field)).to.deep.equal(["rule"]);
+    });
+
+    it("✅ should report a changed schedule only when the manifest sets one", async function () {
+      const schedule = { ...MANIFEST.programs[1].schedule!, closesAt: "4102531200" };
+
+      const [, need] = await planProgramSeed(client, withProgram("Need", { schedule }));
+
+      expect(need.drift).to.deep.equal([{ field: "closesAt", manifest: "4102531200", onChain: "4102444800" }]);
+    });
+
+    it("❌ should not modify or duplicate a drifted program", async function () {
+      await seedPrograms(client, withProgram("Merit", { maxApplications: 30 }));
+
+      expect(await contract.programCount()).to.equal(2n);
+      expect((await client.getProgram(1)).maxApplications).to.equal(25n);
+    });
+  });
+
+  describe("Manifest Validation", function () {
+    it("✅ should accept the repository's programs.json", async function () {
+      const manifest = parseProgramManifest(JSON.parse(readFileSync("programs.json", "utf8")));
+
+      expect(manifest.programs).to.have.length(6);
+    });
+
+    it("❌ should reject malformed manifests", async function () {
+      const [merit] = MANIFEST.programs;
+      const invalid: unknown[] = [
+        {},
+        { programs: [{ ...merit, name: "" }] },
+        { programs: [merit, merit] },
+        { programs: [{ ...merit, maxApplications: -1 }] },
+        { programs: [{ ...merit, budget: "lots" }] },
+        { programs: [{ ...merit, schedule: { opensAt: 0, closesAt: "soon", reviewDeadline: 0 } }] },
+      ];
+
+      for (const document of invalid) {
+        await expectClientError(
+          Promise.resolve().then(() => parseProgramManifest(document)),
+          "INVALID_MANIFEST"
+        );
+      }
+    });
+
+    it("❌ should reject an invalid rule before sending anything", async function () {
+      const manifest = { programs: [{ ...MANIFEST.programs[0], rule: Rule.allOf() }] };
+
+      await expectClientError(
+        Promise.resolve().then(() => parseProgramManifest(manifest)),
+        "INVALID_RULE"
+      );
+    });
+  });
+
+  describe("Seed Task", function () {
+    let directory: string;
+
+    beforeEach(async function () {
+      const { address } = await deployScholarship(admin.address);
+      client = ScholarshipClient.at(address, admin, fhevm);
+      directory = mkdtempSync(path.join(tmpdir(), "scholarship-seed-"));
+    });
+
+    async function runSeed(args: Record<string, unknown>) {
+      const lines: string[] = [];
+      const log = console.log;
+      console.log = (...items: unknown[]) => lines.push(items.join(" "));
+      try {
+        const rows = await hre.run("scholarship:seed", args);
+        return { rows, output: lines.join("\n") };
+      } finally {
+        console.log = log;
+      }
+    }
+
+    it("✅ should seed from a YAML manifest and be a no-op the second time", async function () {
+      const manifest = path.join(directory, "programs.yaml");
+      writeFileSync(
+        manifest,
+        [
+          "programs:",
+          "  - name: Merit",
+          "    description: Top students",
+          "    maxApplications: 25",
+          "    minGpa: 350",
+          "    maxHouseholdIncome: 60000",
+          "    budget: 125000",
+        ].join("\n")
+      );
+
+      const first = await runSeed({ manifest });
+      const second = await runSeed({ manifest });
+
+      expect(first.output).to.match(/^name +action +programId/);
+      expect(first.rows).to.deep.equal([{ name: "Merit", action: "created", programId: "1", drift: "" }]);
+      expect(second.rows).to.deep.equal([{ name: "Merit", action: "unchanged", programId: "1", drift: "" }]);
+      expect(await client.contract.programCount()).to.equal(1n);
+    });
+
+    it("✅ should print the plan as JSON with --dry-run", async function () {
+      const manifest = path.join(directory, "programs.json");
+      writeFileSync(manifest, JSON.stringify(MANIFEST));
+
+      const { rows, output } = await runSeed({ manifest, dryRun: true, json: true });
+
+      expect(JSON.parse(output)).to.deep.equal(rows);
+      expect(rows.map((row: { action: string }) => row.action)).to.deep.equal(["create", "create"]);
+      expect(await client.contract.programCount()).to.equal(0n);
+    });
+
+    it("✅ should describe drift in the table", async function () {
+      const manifest = path.join(directory, "programs.json");
+      writeFileSync(manifest, JSON.stringify(MANIFEST));
+      await runSeed({ manifest });
+      writeFileSync(manifest, JSON.stringify(withProgram("Merit", { maxApplications: 30 })));
+
+      const { rows } = await runSeed({ manifest, dryRun: true });
+
+      expect(rows[0]).to.deep.equal({
+        name: "Merit",
+        action: "drift",
+        programId: "1",
+        drift: "maxApplications: 25 -> 30",
+      });
+    });
+  });
+});
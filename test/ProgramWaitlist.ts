@@ -0,0 +1,323 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { AnonymousScholarshipApplication } from "../types";
+import { ApplicationPromotedEventData, Rule, ScholarshipClient } from "../sdk";
+import {
+  APPLICATION,
+  OPEN_SCHEDULE,
+  expectClientError,
+  getScholarshipFactory,
+  skipUnlessMock,
+} from "./helpers/scholarship";
+
+/**
+ * @title Program Waitlist Tests
+ * @notice Applications to a full program wait in line and are admitted, oldest first, as
+ * places free up
+ * @dev Tests cover:
+ * - Full programs waitlist applications with encrypted eligibility computed as usual
+ * - Waitlisted applications are not listed, counted, reviewed or processed
+ * - Withdrawals, disqualifications and capacity increases promote the next applications, with events
+ * - Promoted applications are listed, and ranked on ties, in submission order
+ * - Applications withdrawn while waiting are skipped
+ * - Waitlist positions, readable by the applicant only
+ * - The waitlist closes with an event once selection starts, and positions are no longer reported
+ * - Waitlisted applicants can leave in any phase
+ */
+
+describe("Program Waitlist", function () {
+  let programAdmin: HardhatEthersSigner;
+  let applicants: HardhatEthersSigner[];
+  let reviewer: HardhatEthersSigner;
+  let contract: AnonymousScholarshipApplication;
+  let adminClient: ScholarshipClient;
+  let clients: ScholarshipClient[];
+  let programId: bigint;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    programAdmin = ethSigners[0];
+    applicants = ethSigners.slice(1, 6);
+    reviewer = ethSigners[6];
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+
+    const factory = await getScholarshipFactory();
+    contract = (await factory.deploy()) as AnonymousScholarshipApplication;
+    adminClient = ScholarshipClient.at(await contract.getAddress(), programAdmin, fhevm);
+    clients = applicants.map((applicant) => adminClient.connect(applicant));
+
+    ({ programId } = await adminClient.createProgram({
+      name: "Merit",
+      description: "Top students",
+      maxApplications: 2,
+      minGpa: 0,
+      maxHouseholdIncome: 2 ** 32 - 1,
+      budget: 10_000,
+      schedule: OPEN_SCHEDULE,
+      rule: Rule.criterion(0),
+    }));
+  });
+
+  // Applicant i applies; the first two take the program's places
+  async function submit(i: number, criteria: boolean[] = APPLICATION.criteria) {
+    const { applicationId } = await clients[i].submitApplication({ programId, ...APPLICATION, criteria });
+    return applicationId;
+  }
+
+  async function listed() {
+    return [...(await contract.connect(programAdmin).getProgramApplications(programId))];
+  }
+
+  describe("Waitlisting", function () {
+    it("✅ should waitlist applications to a full program", async function () {
+      await submit(0);
+      await submit(1);
+
+      const waitlisted = await submit(2);
+
+      const events = await contract.queryFilter(contract.filters.ApplicationWaitlisted(waitlisted, programId));
+      expect(events).to.have.length(1);
+      expect((await adminClient.getProgram(programId)).currentApplications).to.equal(2n);
+      expect(await listed()).to.deep.equal([1n, 2n]);
+      expect(await clients[2].getWaitlistPosition(waitlisted)).to.equal(1n);
+    });
+
+    it("✅ should compute eligibility for waitlisted applications", async function () {
+      await submit(0);
+      await submit(1);
+      const eligible = await submit(2);
+      const ineligible = await submit(3, [false]);
+
+      expect(await clients[2].decryptMyEligibility(eligible)).to.be.true;
+      expect(await clients[3].decryptMyEligibility(ineligible)).to.be.false;
+    });
+
+    it("❌ should not review or process a waitlisted application", async function () {
+      await submit(0);
+      await submit(1);
+      const waitlisted = await submit(2);
+      await adminClient.addReviewer(programId, reviewer.address);
+
+      await expectClientError(adminClient.connect(reviewer).submitReview(waitlisted, 80), "APPLICATION_WAITLISTED");
+      await expectClientError(adminClient.processApplication(waitlisted, true, 1_000), "APPLICATION_WAITLISTED");
+      await expectClientError(adminClient.disqualifyApplication(waitlisted), "APPLICATION_WAITLISTED");
+    });
+
+    it("❌ should reject a second application while waitlisted", async function () {
+      await submit(0);
+      await submit(1);
+      await submit(2);
+
+      await expectClientError(submit(2), "ALREADY_APPLIED");
+    });
+  });
+
+  describe("Promotion", function () {
+    it("✅ should promote the oldest waitlisted application when one is withdrawn", async function () {
+      const first = await submit(0);
+      const second = await submit(1);
+      const next = await submit(2);
+      const last = await submit(3);
+
+      await expect(contract.connect(applicants[1]).withdrawApplication(second))
+        .to.emit(contract, "ApplicationPromoted")
+        .withArgs(next, programId);
+
+      expect(await listed()).to.deep.equal([first, next]);
+      expect(await clients[2].getWaitlistPosition(next)).to.be.null;
+      expect(await clients[3].getWaitlistPosition(last)).to.equal(1n);
+
+      await adminClient.processApplication(next, true, 1_000);
+      expect(await clients[2].decryptAward(next)).to.equal(1_000n);
+    });
+
+    it("✅ should promote the next application when one is disqualified", async function () {
+      const first = await submit(0);
+      await submit(1);
+      const next = await submit(2);
+
+      const disqualification = contract.connect(programAdmin).disqualifyApplication(first);
+      await expect(disqualification).to.emit(contract, "ApplicationDisqualified").withArgs(first, programId);
+      await expect(disqualification).to.emit(contract, "ApplicationPromoted").withArgs(next, programId);
+
+      expect((await adminClient.getProgram(programId)).currentApplications).to.equal(2n);
+      expect(await adminClient.getApplication(first)).to.deep.include({ withdrawn: false });
+      await expectClientError(adminClient.processApplication(first, true, 1_000), "APPLICATION_DISQUALIFIED");
+      await expectClientError(clients[0].withdrawApplication(first), "APPLICATION_DISQUALIFIED");
+    });
+
+    it("✅ should skip applications withdrawn while waiting", async function () {
+      await submit(0);
+      const second = await submit(1);
+      const gone = await submit(2);
+      const next = await submit(3);
+      const last = await submit(4);
+
+      await expect(contract.connect(applicants[2]).withdrawApplication(gone)).not.to.emit(
+        contract,
+        "ApplicationPromoted"
+      );
+      expect(await clients[3].getWaitlistPosition(next)).to.equal(1n);
+      expect(await clients[4].getWaitlistPosition(last)).to.equal(2n);
+
+      await clients[1].withdrawApplication(second);
+
+      expect(await clients[3].getWaitlistPosition(next)).to.be.null;
+      expect(await clients[4].getWaitlistPosition(last)).to.equal(1n);
+      expect((await adminClient.getProgram(programId)).currentApplications).to.equal(2n);
+    });
+
+    it("✅ should promote in order as far as a capacity increase allows", async function () {
+      await submit(0);
+      await submit(1);
+      const waitlisted = [await submit(2), await submit(3), await submit(4)];
+
+      const update = contract.connect(programAdmin).updateProgram(programId, "Merit", "Top students", 4);
+      await expect(update).to.emit(contract, "ApplicationPromoted").withArgs(waitlisted[0], programId);
+      await expect(update).to.emit(contract, "ApplicationPromoted").withArgs(waitlisted[1], programId);
+
+      expect(await listed()).to.deep.equal([1n, 2n, waitlisted[0], waitlisted[1]]);
+      expect(await clients[4].getWaitlistPosition(waitlisted[2])).to.equal(1n);
+    });
+
+    it("✅ should keep promoted applications in submission order", async function () {
+      const first = await submit(0);
+      const second = await submit(1);
+      const waitlisted = [await submit(2), await submit(3), await submit(4)];
+
+      await clients[1].withdrawApplication(second);
+      await adminClient.disqualifyApplication(first);
+      await adminClient.updateProgram(programId, { name: "Merit", description: "Top students", maxApplications: 3 });
+
+      expect(await listed()).to.deep.equal(waitlisted);
+      const pages: bigint[] = [];
+      for await (const application of adminClient.iterateProgramApplications(programId, { pageSize: 2 })) {
+        pages.push(application.applicationId);
+      }
+      expect(pages).to.deep.equal(waitlisted);
+
+      // Nobody was reviewed, so every application ties and the earliest submission wins
+      await adminClient.runSelection(programId, 1);
+      expect(await clients[2].decryptSelection(waitlisted[0])).to.be.true;
+      expect(await clients[3].decryptSelection(waitlisted[1])).to.be.false;
+      expect(await clients[4].decryptSelection(waitlisted[2])).to.be.false;
+    });
+
+    it("✅ should notify subscribers of promotions", async function () {
+      await submit(0);
+      const second = await submit(1);
+      const next = await submit(2);
+      let onEvent: (event: ApplicationPromotedEventData) => void = () => {};
+      const received = new Promise<ApplicationPromotedEventData>((resolve) => (onEvent = resolve));
+      const unsubscribe = await clients[2].onApplicationPromoted((event) => onEvent(event));
+
+      await clients[1].withdrawApplication(second);
+      const event = await received;
+      await unsubscribe();
+
+      expect(event).to.deep.equal({ applicationId: next, programId });
+    });
+
+    it("❌ should not promote once selection has started", async function () {
+      await submit(0);
+      await submit(1);
+      const waitlisted = await submit(2);
+      await adminClient.startSelection(programId, 1);
+
+      await expect(contract.connect(programAdmin).updateProgram(programId, "Merit", "Top students", 3)).not.to.emit(
+        contract,
+        "ApplicationPromoted"
+      );
+      await expectClientError(clients[2].getWaitlistPosition(waitlisted), "WAITLIST_CLOSED");
+    });
+  });
+
+  describe("Closing", function () {
+    it("✅ should close the waitlist when selection starts", async function () {
+      await submit(0);
+      await submit(1);
+
+      await expect(contract.connect(programAdmin).startSelection(programId, 1))
+        .to.emit(contract, "WaitlistClosed")
+        .withArgs(programId);
+    });
+
+    it("✅ should close the waitlist only once", async function () {
+      const first = await submit(0);
+      const second = await submit(1);
+      await adminClient.runSelection(programId, 1);
+      await adminClient.processApplication(first, true, 1_000);
+      await adminClient.processApplication(second, false, 0);
+
+      await expect(contract.connect(programAdmin).requestAwardPublication(programId)).not.to.emit(
+        contract,
+        "WaitlistClosed"
+      );
+    });
+
+    it("✅ should still report that an application is not waitlisted", async function () {
+      const first = await submit(0);
+      await submit(1);
+      await adminClient.startSelection(programId, 1);
+
+      expect(await clients[0].getWaitlistPosition(first)).to.be.null;
+    });
+
+    it("✅ should let waitlisted applicants withdraw once selection has started", async function () {
+      await submit(0);
+      await submit(1);
+      const waitlisted = await submit(2);
+      await adminClient.runSelection(programId, 1);
+
+      await expect(contract.connect(applicants[2]).withdrawApplication(waitlisted))
+        .to.emit(contract, "ApplicationWithdrawn")
+        .withArgs(waitlisted, programId);
+      expect((await adminClient.getProgram(programId)).currentApplications).to.equal(2n);
+      expect(await clients[2].getWaitlistPosition(waitlisted)).to.be.null;
+    });
+
+    it("✅ should let waitlisted applicants withdraw from an archived program", async function () {
+      await submit(0);
+      await submit(1);
+      const waitlisted = await submit(2);
+      await adminClient.closeProgram(programId);
+      await adminClient.archiveProgram(programId);
+
+      await expect(contract.connect(applicants[2]).withdrawApplication(waitlisted))
+        .to.emit(contract, "ApplicationWithdrawn")
+        .withArgs(waitlisted, programId);
+    });
+
+    it("❌ should still keep admitted applicants in a frozen pool", async function () {
+      const first = await submit(0);
+      await submit(1);
+      await submit(2);
+      await adminClient.startSelection(programId, 1);
+
+      await expectClientError(clients[0].withdrawApplication(first), "SELECTION_STARTED");
+    });
+  });
+
+  describe("Access", function () {
+    it("❌ should show the waitlist position to the applicant only", async function () {
+      await submit(0);
+      await submit(1);
+      const waitlisted = await submit(2);
+
+      await expectClientError(adminClient.getWaitlistPosition(waitlisted), "NOT_AUTHORIZED");
+      await expect(contract.connect(applicants[0]).getWaitlistPosition(waitlisted)).to.be.revertedWith(
+        "Not authorized"
+      );
+    });
+
+    it("❌ should only let the administrator disqualify", async function () {
+      const first = await submit(0);
+
+      await expectClientError(clients[1].disqualifyApplication(first), "NOT_PROGRAM_ADMIN");
+    });
+  });
+});
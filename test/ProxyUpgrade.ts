@@ -0,0 +1,368 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import hre, { deployments, ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { AnonymousScholarshipApplication, AnonymousScholarshipApplicationV2 } from "../types";
+import { Rule, ScholarshipClient } from "../sdk";
+import {
+  DeploymentManifest,
+  StorageLayout,
+  manifestPath,
+  readStorageLayout,
+  writeDeploymentManifest,
+} from "../tasks/manifest";
+import {
+  SCHOLARSHIP_CONTRACT,
+  SCHOLARSHIP_PROXY,
+  UpgradeResult,
+  checkStorageLayout,
+  deployScholarshipLibraries,
+} from "../tasks/upgrade";
+import { OPEN_SCHEDULE, skipUnlessMock } from "./helpers/scholarship";
+
+/**
+ * @title Proxy Upgrade Tests
+ * @notice The scholarship contract behind a transparent proxy, its initializer and upgrades
+ * @dev Tests cover:
+ * - The deploy script's proxy, initialized exactly once, with an uninitializable implementation
+ * - Programs, applications, encrypted handles and their ACL grants surviving an upgrade
+ * - Storage layout checks accepting appended state and rejecting moved, removed or retyped state
+ * - The scholarship:upgrade task refusing incompatible layouts
+ */
+
+// EIP-1967 implementation slot: keccak256("eip1967.proxy.implementation") - 1
+const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+describe("Proxy Upgrade", function () {
+  let deployer: HardhatEthersSigner;
+  let applicant: HardhatEthersSigner;
+  let counselor: HardhatEthersSigner;
+  let stranger: HardhatEthersSigner;
+  let contract: AnonymousScholarshipApplication;
+  let adminClient: ScholarshipClient;
+
+  before(async function () {
+    [deployer, applicant, counselor, stranger] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+
+    // A fresh deployment rather than a fixture: reverting to a snapshot rewinds block
+    // numbers past the mock coprocessor, which then misses later computations
+    await quietly(() => deployments.run(["scholarship"], { resetMemory: true }));
+    const { address } = await deployments.get(SCHOLARSHIP_CONTRACT);
+    contract = await ethers.getContractAt(SCHOLARSHIP_CONTRACT, address);
+    adminClient = ScholarshipClient.at(address, deployer, fhevm);
+  });
+
+  async function quietly<T>(run: () => Promise<T>): Promise<T> {
+    const log = console.log;
+    console.log = () => {};
+    try {
+      return await run();
+    } finally {
+      console.log = log;
+    }
+  }
+
+  async function upgradeToV2(): Promise<AnonymousScholarshipApplicationV2> {
+    const deployment = await quietly(async () =>
+      deployments.deploy(SCHOLARSHIP_CONTRACT, {
+        contract: "AnonymousScholarshipApplicationV2",
+        from: deployer.address,
+        libraries: await deployScholarshipLibraries(hre, deployer.address, "AnonymousScholarshipApplicationV2"),
+        proxy: {
+          ...SCHOLARSHIP_PROXY,
+          execute: {
+            init: { methodName: "initialize", args: [] },
+            onUpgrade: { methodName: "initializeV2", args: [] },
+          },
+        },
+      })
+    );
+    return ethers.getContractAt("AnonymousScholarshipApplicationV2", deployment.address);
+  }
+
+  async function implementationOf(proxy: string): Promise<string> {
+    const slot = await ethers.provider.getStorage(proxy, IMPLEMENTATION_SLOT);
+    return ethers.getAddress(ethers.dataSlice(slot, 12));
+  }
+
+  describe("Initializer", function () {
+    it("✅ should deploy behind a transparent proxy", async function () {
+      const deployment = await deployments.get(SCHOLARSHIP_CONTRACT);
+
+      expect(deployment.implementation).to.not.equal(deployment.address);
+      expect(await implementationOf(deployment.address)).to.equal(deployment.implementation);
+      expect(await contract.programCount()).to.equal(0n);
+    });
+
+    it("❌ should not initialize the proxy twice", async function () {
+      await expect(contract.initialize()).to.be.revertedWithCustomError(contract, "InvalidInitialization");
+    });
+
+    it("❌ should not initialize the implementation", async function () {
+      const { implementation } = await deployments.get(SCHOLARSHIP_CONTRACT);
+      const logic = await ethers.getContractAt(SCHOLARSHIP_CONTRACT, implementation!);
+
+      await expect(logic.initialize()).to.be.revertedWithCustomError(logic, "InvalidInitialization");
+    });
+
+    it("❌ should only let the proxy admin's owner upgrade", async function () {
+      const proxyAdmin = await deployments.get("DefaultProxyAdmin");
+      const { address, implementation } = await deployments.get(SCHOLARSHIP_CONTRACT);
+      const admin = await ethers.getContractAt(proxyAdmin.abi, proxyAdmin.address, stranger);
+
+      await expect(admin.upgrade(address, implementation)).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+  });
+
+  describe("Upgrade", function () {
+    let programId: bigint;
+    let applicationId: bigint;
+
+    beforeEach(async function () {
+      ({ programId } = await adminClient.createProgram({
+        name: "Upgrade Fund",
+        description: "Survives upgrades",
+        maxApplications: 10,
+        minGpa: 300,
+        maxHouseholdIncome: 50_000,
+        budget: 10_000,
+        schedule: OPEN_SCHEDULE,
+        rule: Rule.allOf(Rule.minGpa(), Rule.maxHouseholdIncome()),
+      }));
+      ({ applicationId } = await adminClient.connect(applicant).submitApplication({
+        programId,
+        criteria: [],
+        gpa: 350,
+        householdIncome: 40_000,
+      }));
+      await adminClient.connect(applicant).grantEligibilityAccess(applicationId, counselor.address);
+    });
+
+    it("✅ should run the new implementation and its reinitializer", async function () {
+      const before = await deployments.get(SCHOLARSHIP_CONTRACT);
+
+      const upgraded = await upgradeToV2();
+
+      const after = await deployments.get(SCHOLARSHIP_CONTRACT);
+      expect(after.address).to.equal(before.address);
+      expect(await implementationOf(after.address)).to.equal(after.implementation);
+      expect(after.implementation).to.not.equal(before.implementation);
+      expect(await upgraded.upgradedAt()).to.be.greaterThan(0n);
+      await expect(upgraded.initializeV2()).to.be.revertedWithCustomError(upgraded, "InvalidInitialization");
+    });
+
+    it("✅ should keep programs and applications", async function () {
+      await upgradeToV2();
+
+      expect(await contract.programCount()).to.equal(1n);
+      expect(await contract.applicationCount()).to.equal(1n);
+      expect((await adminClient.getProgram(programId)).name).to.equal("Upgrade Fund");
+      expect(await adminClient.connect(applicant).listMyApplications()).to.have.length(1);
+    });
+
+    it("✅ should keep encrypted handles decryptable by everyone they were shared with", async function () {
+      const handle = await contract.connect(applicant).getApplicationEligibility(applicationId);
+
+      await upgradeToV2();
+
+      expect(await contract.connect(applicant).getApplicationEligibility(applicationId)).to.equal(handle);
+      expect(await adminClient.connect(applicant).decryptMyEligibility(applicationId)).to.be.true;
+      expect(await adminClient.connect(counselor).decryptMyEligibility(applicationId)).to.be.true;
+    });
+
+    it("✅ should keep computing on handles stored before the upgrade", async function () {
+      await upgradeToV2();
+
+      await adminClient.processApplication(applicationId, true, 4_000);
+
+      expect(await adminClient.connect(applicant).decryptAward(applicationId)).to.equal(4_000n);
+      expect(await adminClient.decryptRemainingBudget(programId)).to.equal(6_000n);
+    });
+  });
+
+  describe("Storage Layout", function () {
+    let compiled: StorageLayout;
+
+    beforeEach(async function () {
+      compiled = await readStorageLayout(hre, SCHOLARSHIP_CONTRACT);
+    });
+
+    function edited(edit: (layout: StorageLayout) => void): StorageLayout {
+      const layout = structuredClone(compiled);
+      edit(layout);
+      return layout;
+    }
+
+    function structType(layout: StorageLayout, name: string): string {
+      return Object.keys(layout.types!).find((id) => layout.types![id].label.endsWith(`.${name}`))!;
+    }
+
+    it("✅ should accept the unchanged layout", async function () {
+      expect(checkStorageLayout(compiled, compiled)).to.deep.equal([]);
+    });
+
+    it("✅ should accept variables appended by the upgrade", async function () {
+      const upgraded = await readStorageLayout(hre, "AnonymousScholarshipApplicationV2");
+
+      expect(upgraded.storage.length).to.equal(compiled.storage.length + 1);
+      expect(checkStorageLayout(compiled, upgraded)).to.deep.equal([]);
+    });
+
+    it("✅ should accept members appended to a struct held in a mapping", async function () {
+      const candidate = edited((layout) => {
+        const application = layout.types![structType(layout, "Application")];
+        const slots = Number(application.numberOfBytes) / 32;
+        application.members!.push({ label: "withdrawnAt", slot: String(slots), offset: 0, type: "t_uint256" });
+        application.numberOfBytes = String((slots + 1) * 32);
+      });
+
+      expect(checkStorageLayout(compiled, candidate)).to.deep.equal([]);
+    });
+
+    it("❌ should reject a variable inserted before existing ones", async function () {
+      const candidate = edited((layout) => {
+        layout.storage = [
+          { label: "paused", slot: "0", offset: 0, type: "t_uint256" },
+          ...layout.storage.map((variable) => ({ ...variable, slot: String(Number(variable.slot) + 1) })),
+        ];
+      });
+
+      expect(checkStorageLayout(compiled, candidate)[0]).to.equal("applicationCount at slot 0 was replaced by paused");
+    });
+
+    it("❌ should reject a removed variable", async function () {
+      const candidate = edited((layout) => layout.storage.pop());
+      const last = compiled.storage[compiled.storage.length - 1];
+
+      expect(checkStorageLayout(compiled, candidate)).to.deep.equal([`${last.label} at slot ${last.slot} was removed`]);
+    });
+
+    it("❌ should reject a retyped variable", async function () {
+      const candidate = edited((layout) => {
+        layout.types!.t_uint128 = { label: "uint128", encoding: "inplace", numberOfBytes: "16" };
+        layout.storage.find((variable) => variable.label === "programCount")!.type = "t_uint128";
+      });
+
+      expect(checkStorageLayout(compiled, candidate)).to.deep.equal([
+        "programCount changed type from uint256 to uint128",
+      ]);
+    });
+
+    it("❌ should reject reordered struct members", async function () {
+      const candidate = edited((layout) => {
+        const members = layout.types![structType(layout, "ScholarshipProgram")].members!;
+        [members[0].label, members[1].label] = [members[1].label, members[0].label];
+      });
+
+      const problems = checkStorageLayout(compiled, candidate);
+
+      expect(problems).to.have.length(2);
+      expect(problems[0]).to.match(/^programs\[\]\.\w+ at slot 0 was replaced by \w+$/);
+    });
+
+    it("❌ should reject a struct growing inside an array", async function () {
+      const candidate = edited((layout) => {
+        const node = layout.types![structType(layout, "RuleNode")];
+        node.members!.push({ label: "negate", slot: "1", offset: 0, type: "t_uint256" });
+        node.numberOfBytes = "64";
+      });
+
+      expect(checkStorageLayout(compiled, candidate)).to.deep.equal([
+        "programRules[][] changed size from 32 to 64 bytes",
+      ]);
+    });
+  });
+
+  describe("Upgrade Task", function () {
+    let directory: string;
+
+    beforeEach(async function () {
+      directory = mkdtempSync(path.join(tmpdir(), "scholarship-upgrade-"));
+      await writeDeploymentManifest(hre, [SCHOLARSHIP_CONTRACT], directory);
+    });
+
+    function readManifest(): DeploymentManifest {
+      return JSON.parse(readFileSync(manifestPath("hardhat", directory), "utf8"));
+    }
+
+    async function runUpgrade(args: Record<string, unknown> = {}): Promise<UpgradeResult> {
+      return quietly(() => hre.run("scholarship:upgrade", { manifests: directory, ...args }));
+    }
+
+    async function expectUpgradeFailure(message: RegExp) {
+      try {
+        await runUpgrade();
+      } catch (error) {
+        expect((error as Error).message).to.match(message);
+        return;
+      }
+      expect.fail("Expected scholarship:upgrade to fail");
+    }
+
+    it("✅ should record the proxy, its implementation ABI and storage layout", async function () {
+      const deployment = await deployments.get(SCHOLARSHIP_CONTRACT);
+
+      const entry = readManifest().contracts[SCHOLARSHIP_CONTRACT];
+
+      expect(entry.address).to.equal(deployment.address);
+      expect(entry.implementation).to.equal(deployment.implementation);
+      expect(entry.abi).to.deep.equal((await hre.artifacts.readArtifact(SCHOLARSHIP_CONTRACT)).abi);
+      expect(entry.storageLayout).to.deep.equal(await readStorageLayout(hre, SCHOLARSHIP_CONTRACT));
+      expect(await quietly(() => hre.run("scholarship:check-manifest", { manifests: directory }))).to.deep.equal([
+        "hardhat",
+      ]);
+    });
+
+    it("✅ should check without sending a transaction on a dry run", async function () {
+      const { implementation } = await deployments.get(SCHOLARSHIP_CONTRACT);
+      const blockNumber = await ethers.provider.getBlockNumber();
+
+      const result = await runUpgrade({ dryRun: true });
+
+      expect(result).to.deep.equal({
+        previousImplementation: implementation,
+        implementation,
+        upgraded: false,
+      });
+      expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+    });
+
+    it("✅ should keep an implementation that is up to date", async function () {
+      const { implementation } = await deployments.get(SCHOLARSHIP_CONTRACT);
+
+      const result = await runUpgrade();
+
+      expect(result.upgraded).to.be.false;
+      expect(result.implementation).to.equal(implementation);
+      expect(readManifest().contracts[SCHOLARSHIP_CONTRACT].implementation).to.equal(implementation);
+    });
+
+    it("❌ should refuse a layout that drops recorded state", async function () {
+      const manifest = readManifest();
+      const recorded = manifest.contracts[SCHOLARSHIP_CONTRACT].storageLayout!;
+      const slot = String(Number(recorded.storage[recorded.storage.length - 1].slot) + 1);
+      recorded.storage.push({ label: "legacyFlags", slot, offset: 0, type: "t_uint256" });
+      writeFileSync(manifestPath("hardhat", directory), JSON.stringify(manifest));
+      const blockNumber = await ethers.provider.getBlockNumber();
+
+      await expectUpgradeFailure(
+        /incompatible with the implementation at 0x[\da-fA-F]{40}\n {2}legacyFlags at slot \d+ was removed/
+      );
+      expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+    });
+
+    it("❌ should refuse a contract that is not behind a proxy", async function () {
+      const manifest = readManifest();
+      delete manifest.contracts[SCHOLARSHIP_CONTRACT].implementation;
+      writeFileSync(manifestPath("hardhat", directory), JSON.stringify(manifest));
+
+      await expectUpgradeFailure(/has no proxied deployment in .*hardhat\.json/);
+    });
+  });
+});
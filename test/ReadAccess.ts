@@ -0,0 +1,347 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { FunctionFragment, Signer } from "ethers";
+import { AnonymousScholarshipApplication } from "../types";
+import { MockDecryptionOracle } from "./helpers/mockDecryptionOracle";
+import { Rule, ScholarshipClient, ScholarshipClientError, serializeRule, toViewPermitArgs } from "../sdk";
+import { OPEN_SCHEDULE, getScholarshipFactory, skipUnlessMock } from "./helpers/scholarship";
+
+/**
+ * @title Read Access Tests
+ * @notice Who may call each external view of the contract
+ * @dev Tests cover:
+ * - Every external view is classified; adding one without a rule here fails the suite
+ * - Public, applicant, administrator, delegate and caller-scoped views against each role and a stranger
+ * - EIP-712 view permits: expiry, forged and zero-address holders, and scoping to the holder
+ */
+
+/**
+ * public        anyone
+ * participant   the applicant and the program administrator
+ * applicant     the applicant only
+ * administrator the program administrator only
+ * delegation    the applicant and the delegate named in the call
+ * caller        returns the caller's own data
+ * permit        returns the permit holder's data
+ */
+type Access = "public" | "participant" | "applicant" | "administrator" | "delegation" | "caller" | "permit";
+
+const PROGRAM_ID = 1;
+const APPLICATION_ID = 1;
+const OPEN_THRESHOLDS = { minGpa: 0, maxHouseholdIncome: 2 ** 32 - 1 };
+const OPEN_BUDGET = 2n ** 64n - 1n;
+const HOUR = 60 * 60;
+
+describe("Read Access", function () {
+  let programAdmin: HardhatEthersSigner;
+  let applicant: HardhatEthersSigner;
+  let stranger: HardhatEthersSigner;
+  let reviewer: HardhatEthersSigner;
+  let relayer: HardhatEthersSigner;
+  let contract: AnonymousScholarshipApplication;
+  let contractAddress: string;
+
+  const VIEWS: Record<string, { access: Access; args?: () => unknown[] }> = {
+    MAX_CRITERIA: { access: "public" },
+    MAX_REVIEWERS: { access: "public" },
+    MAX_RULE_NODES: { access: "public" },
+    RELAYED_APPLICATION_TYPEHASH: { access: "public" },
+    VIEW_PERMIT_TYPEHASH: { access: "public" },
+    applicationCount: { access: "public" },
+    awardRequestCount: { access: "public" },
+    confidentialProtocolId: { access: "public" },
+    domainSeparator: { access: "public" },
+    programCount: { access: "public" },
+    programs: { access: "public", args: () => [PROGRAM_ID] },
+    programAwardRequest: { access: "public", args: () => [PROGRAM_ID] },
+    pendingAdministrators: { access: "public", args: () => [PROGRAM_ID] },
+    isProgramReviewer: { access: "public", args: () => [PROGRAM_ID, reviewer.address] },
+    relayNonces: { access: "public", args: () => [applicant.address] },
+    getProgramInfo: { access: "public", args: () => [PROGRAM_ID] },
+    getProgramRule: { access: "public", args: () => [PROGRAM_ID] },
+    getProgramSchedule: { access: "public", args: () => [PROGRAM_ID] },
+    getProgramReviewers: { access: "public", args: () => [PROGRAM_ID] },
+    getSelection: { access: "public", args: () => [PROGRAM_ID] },
+    getAwardPublication: { access: "public", args: () => [1] },
+    getAwardResults: { access: "public", args: () => [PROGRAM_ID] },
+    getApplicationBasicInfo: { access: "participant", args: () => [APPLICATION_ID] },
+    getApplicationEligibility: { access: "participant", args: () => [APPLICATION_ID] },
+    getApplicationDecision: { access: "participant", args: () => [APPLICATION_ID] },
+    getApplicationAward: { access: "participant", args: () => [APPLICATION_ID] },
+    getApplicationSelection: { access: "participant", args: () => [APPLICATION_ID] },
+    getApplicationInputs: { access: "applicant", args: () => [APPLICATION_ID] },
+    getWaitlistPosition: { access: "applicant", args: () => [APPLICATION_ID] },
+    getApplicationScore: { access: "administrator", args: () => [APPLICATION_ID] },
+    getRemainingBudget: { access: "administrator", args: () => [PROGRAM_ID] },
+    getProgramApplications: { access: "administrator", args: () => [PROGRAM_ID] },
+    getProgramApplicationCount: { access: "administrator", args: () => [PROGRAM_ID] },
+    getProgramApplicationsPage: { access: "administrator", args: () => [PROGRAM_ID, 0, 10] },
+    getEligibilityDelegation: { access: "delegation", args: () => [APPLICATION_ID, relayer.address] },
+    getMyApplications: { access: "caller" },
+    getMyApplicationCount: { access: "caller" },
+    getMyApplicationsPage: { access: "caller", args: () => [0, 10] },
+    getMyApplicationsWithPermit: { access: "permit" },
+    getApplicationBasicInfoWithPermit: { access: "permit" },
+  };
+
+  function viewsWith(access: Access) {
+    return Object.keys(VIEWS).filter((name) => VIEWS[name].access === access);
+  }
+
+  function call(name: string, signer: Signer) {
+    const args = VIEWS[name].args?.() ?? [];
+    return contract
+      .connect(signer)
+      .getFunction(name)
+      .staticCall(...args);
+  }
+
+  before(async function () {
+    skipUnlessMock(this);
+
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    [programAdmin, applicant, stranger, reviewer, relayer] = ethSigners;
+
+    const factory = await getScholarshipFactory();
+    contract = (await factory.deploy()) as AnonymousScholarshipApplication;
+    contractAddress = await contract.getAddress();
+
+    // Walk one application through every stage so each view has something to return
+    const { criteriaCount, nodes } = serializeRule(Rule.criterion(0));
+    const programInput = await fhevm
+      .createEncryptedInput(contractAddress, programAdmin.address)
+      .add16(OPEN_THRESHOLDS.minGpa)
+      .add32(OPEN_THRESHOLDS.maxHouseholdIncome)
+      .add64(OPEN_BUDGET)
+      .encrypt();
+    await contract
+      .connect(programAdmin)
+      .createProgram(
+        "Read Access",
+        "Access matrix",
+        10,
+        criteriaCount,
+        nodes,
+        programInput.handles[0],
+        programInput.handles[1],
+        programInput.handles[2],
+        OPEN_SCHEDULE,
+        programInput.inputProof
+      );
+    await contract.connect(programAdmin).addReviewer(PROGRAM_ID, reviewer.address);
+
+    const applicationInput = await fhevm
+      .createEncryptedInput(contractAddress, applicant.address)
+      .addBool(true)
+      .add16(350)
+      .add32(40_000)
+      .encrypt();
+    await contract
+      .connect(applicant)
+      .submitApplication(
+        PROGRAM_ID,
+        [applicationInput.handles[0]],
+        applicationInput.handles[1],
+        applicationInput.handles[2],
+        applicationInput.inputProof
+      );
+
+    const reviewInput = await fhevm.createEncryptedInput(contractAddress, reviewer.address).add8(80).encrypt();
+    await contract.connect(reviewer).submitReview(APPLICATION_ID, reviewInput.handles[0], reviewInput.inputProof);
+
+    await contract.connect(programAdmin).startSelection(PROGRAM_ID, 1);
+    await contract.connect(programAdmin).advanceSelection(PROGRAM_ID, 16);
+
+    const decisionInput = await fhevm
+      .createEncryptedInput(contractAddress, programAdmin.address)
+      .addBool(true)
+      .add64(1_000)
+      .encrypt();
+    await contract
+      .connect(programAdmin)
+      .processApplication(APPLICATION_ID, decisionInput.handles[0], decisionInput.handles[1], decisionInput.inputProof);
+
+    await contract.connect(programAdmin).requestAwardPublication(PROGRAM_ID);
+    await new MockDecryptionOracle(contract, relayer).fulfilPending();
+  });
+
+  it("✅ should classify every external view", async function () {
+    const views = contract.interface.fragments
+      .filter((fragment): fragment is FunctionFragment => fragment.type === "function")
+      .filter((fragment) => fragment.constant)
+      .map((fragment) => fragment.name)
+      .sort();
+
+    expect(views).to.deep.equal(Object.keys(VIEWS).sort());
+  });
+
+  describe("Public", function () {
+    for (const name of viewsWith("public")) {
+      it(`✅ ${name}: anyone may call`, async function () {
+        await call(name, stranger);
+      });
+    }
+  });
+
+  describe("Applicant and Administrator", function () {
+    for (const name of viewsWith("participant")) {
+      it(`✅ ${name}: the applicant and the administrator may call`, async function () {
+        expect(await call(name, applicant)).to.deep.equal(await call(name, programAdmin));
+      });
+
+      it(`❌ ${name}: others may not`, async function () {
+        for (const signer of [stranger, reviewer]) {
+          await expect(call(name, signer)).to.be.revertedWith("Not authorized");
+        }
+      });
+    }
+  });
+
+  describe("Applicant Only", function () {
+    for (const name of viewsWith("applicant")) {
+      it(`✅ ${name}: the applicant may call`, async function () {
+        await call(name, applicant);
+      });
+
+      it(`❌ ${name}: the administrator and others may not`, async function () {
+        for (const signer of [programAdmin, stranger, reviewer]) {
+          await expect(call(name, signer)).to.be.revertedWith("Not authorized");
+        }
+      });
+    }
+  });
+
+  describe("Administrator Only", function () {
+    for (const name of viewsWith("administrator")) {
+      it(`✅ ${name}: the administrator may call`, async function () {
+        await call(name, programAdmin);
+      });
+
+      it(`❌ ${name}: the applicant and others may not`, async function () {
+        for (const signer of [applicant, stranger, reviewer]) {
+          await expect(call(name, signer)).to.be.revertedWith("Not authorized");
+        }
+      });
+    }
+  });
+
+  describe("Applicant and Delegate", function () {
+    for (const name of viewsWith("delegation")) {
+      it(`✅ ${name}: the applicant and the delegate may call`, async function () {
+        expect(await call(name, applicant)).to.deep.equal(await call(name, relayer));
+      });
+
+      it(`❌ ${name}: the administrator and others may not`, async function () {
+        for (const signer of [programAdmin, stranger]) {
+          await expect(call(name, signer)).to.be.revertedWith("Not authorized");
+        }
+      });
+    }
+  });
+
+  describe("Caller Scoped", function () {
+    // What each caller-scoped view returns for the applicant, and for everyone else
+    const RESULTS: Record<string, [unknown, unknown]> = {
+      getMyApplications: [[BigInt(APPLICATION_ID)], []],
+      getMyApplicationCount: [1n, 0n],
+      getMyApplicationsPage: [[BigInt(APPLICATION_ID)], []],
+    };
+
+    it("✅ should classify every caller-scoped view", async function () {
+      expect(viewsWith("caller")).to.deep.equal(Object.keys(RESULTS));
+    });
+
+    for (const [name, [own, others]] of Object.entries(RESULTS)) {
+      it(`✅ ${name}: returns only the caller's applications`, async function () {
+        expect(await call(name, applicant)).to.deep.equal(own);
+        for (const signer of [programAdmin, stranger, reviewer]) {
+          expect(await call(name, signer)).to.deep.equal(others);
+        }
+      });
+    }
+  });
+
+  describe("View Permits", function () {
+    let applicantClient: ScholarshipClient;
+    let strangerClient: ScholarshipClient;
+
+    before(function () {
+      applicantClient = ScholarshipClient.at(contractAddress, applicant, fhevm);
+      strangerClient = applicantClient.connect(stranger);
+    });
+
+    async function deadline(offset = HOUR) {
+      return (await time.latest()) + offset;
+    }
+
+    it("✅ should only take permits through the permit views", async function () {
+      expect(viewsWith("permit").sort()).to.deep.equal([
+        "getApplicationBasicInfoWithPermit",
+        "getMyApplicationsWithPermit",
+      ]);
+    });
+
+    it("✅ should let anyone holding a permit read the holder's applications", async function () {
+      const permit = await applicantClient.signViewPermit(await deadline());
+      const [application] = await strangerClient.listApplicationsWithPermit(permit);
+
+      expect(application.applicationId).to.equal(BigInt(APPLICATION_ID));
+      expect(application.applicant).to.equal(applicant.address);
+      expect(application.processed).to.be.true;
+    });
+
+    it("✅ should let an administrator permit read their program's applications", async function () {
+      const permit = await applicantClient.connect(programAdmin).signViewPermit(await deadline());
+      const { struct, signature } = toViewPermitArgs(permit);
+
+      const info = await contract
+        .connect(stranger)
+        .getApplicationBasicInfoWithPermit(APPLICATION_ID, struct, signature);
+      expect(info.applicant).to.equal(applicant.address);
+      expect(await contract.connect(stranger).getMyApplicationsWithPermit(struct, signature)).to.deep.equal([]);
+    });
+
+    it("❌ should not let a permit read applications its holder may not see", async function () {
+      const permit = await strangerClient.signViewPermit(await deadline());
+      const { struct, signature } = toViewPermitArgs(permit);
+
+      await expect(contract.getApplicationBasicInfoWithPermit(APPLICATION_ID, struct, signature)).to.be.revertedWith(
+        "Not authorized"
+      );
+    });
+
+    it("❌ should reject an expired permit", async function () {
+      const permit = await applicantClient.signViewPermit((await time.latest()) - 1);
+
+      try {
+        await strangerClient.listApplicationsWithPermit(permit);
+        expect.fail("Expected an expired permit to be rejected");
+      } catch (error) {
+        expect((error as ScholarshipClientError).code).to.equal("PERMIT_EXPIRED");
+      }
+    });
+
+    it("❌ should reject a permit signed by someone other than the holder", async function () {
+      const forged = await strangerClient.signViewPermit(await deadline());
+      const { struct, signature } = toViewPermitArgs({ ...forged, holder: applicant.address });
+
+      await expect(contract.getMyApplicationsWithPermit(struct, signature)).to.be.revertedWith("Invalid permit");
+    });
+
+    it("❌ should reject a permit for a different deadline", async function () {
+      const permit = await applicantClient.signViewPermit(await deadline());
+      const { struct, signature } = toViewPermitArgs({ ...permit, deadline: String(await deadline(2 * HOUR)) });
+
+      await expect(contract.getMyApplicationsWithPermit(struct, signature)).to.be.revertedWith("Invalid permit");
+    });
+
+    it("❌ should reject an unsigned permit for the zero address", async function () {
+      const struct = { holder: ethers.ZeroAddress, deadline: BigInt(await deadline()) };
+      const garbage = "0x" + "00".repeat(65);
+
+      await expect(contract.getMyApplicationsWithPermit(struct, garbage)).to.be.revertedWith("Invalid permit");
+    });
+  });
+});
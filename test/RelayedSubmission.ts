@@ -0,0 +1,370 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { EventFragment, type HDNodeWallet } from "ethers";
+import { AnonymousScholarshipApplication } from "../types";
+import { ApplicationRelayer } from "../relayer/ApplicationRelayer";
+import {
+  RELAY_DOMAIN_NAME,
+  RELAY_DOMAIN_VERSION,
+  RelayerClient,
+  Rule,
+  ScholarshipClient,
+  SignedRelayedApplication,
+  serializeRule,
+  toRelayedApplicationArgs,
+} from "../sdk";
+import {
+  APPLICATION,
+  OPEN_SCHEDULE,
+  expectClientError,
+  getScholarshipFactory,
+  skipUnlessMock,
+} from "./helpers/scholarship";
+
+/**
+ * @title Relayed Submission Tests
+ * @notice EIP-712 signed applications posted by a relayer on behalf of a one-time application key
+ * @dev Tests cover:
+ * - The application key, not the wallet or relayer, is recorded and emitted as the applicant
+ * - Signature, nonce and deadline checks against tampering and replay
+ * - The local HTTP relayer queueing and posting applications against the Hardhat network
+ * - Failed submissions may be sent again; unparseable receipts are reported, not dropped
+ */
+
+const OPEN_THRESHOLDS = { minGpa: 0, maxHouseholdIncome: 2 ** 32 - 1 };
+const OPEN_BUDGET = 2n ** 64n - 1n;
+const HOUR = 60 * 60;
+
+describe("Relayed Submission", function () {
+  let programAdmin: HardhatEthersSigner;
+  let relayerSigner: HardhatEthersSigner;
+  let otherRelayer: HardhatEthersSigner;
+  let contract: AnonymousScholarshipApplication;
+  let contractAddress: string;
+  let programId: number;
+  let applicationKey: HDNodeWallet;
+  let keyClient: ScholarshipClient;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    [programAdmin, relayerSigner, otherRelayer] = ethSigners;
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+
+    const factory = await getScholarshipFactory();
+    contract = (await factory.deploy()) as AnonymousScholarshipApplication;
+    contractAddress = await contract.getAddress();
+    programId = await createProgram();
+
+    // A fresh, unfunded key per application is what keeps submissions unlinkable
+    applicationKey = ethers.Wallet.createRandom().connect(ethers.provider);
+    keyClient = ScholarshipClient.at(contractAddress, applicationKey, fhevm);
+  });
+
+  async function createProgram() {
+    const { criteriaCount, nodes } = serializeRule(Rule.criterion(0));
+    const encryptedInput = await fhevm
+      .createEncryptedInput(contractAddress, programAdmin.address)
+      .add16(OPEN_THRESHOLDS.minGpa)
+      .add32(OPEN_THRESHOLDS.maxHouseholdIncome)
+      .add64(OPEN_BUDGET)
+      .encrypt();
+
+    await contract
+      .connect(programAdmin)
+      .createProgram(
+        "Relayed Program",
+        "Relay test",
+        100,
+        criteriaCount,
+        nodes,
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        OPEN_SCHEDULE,
+        encryptedInput.inputProof
+      );
+    return Number(await contract.programCount());
+  }
+
+  async function signApplication(client: ScholarshipClient = keyClient, relayer: string = relayerSigner.address) {
+    const deadline = (await time.latest()) + HOUR;
+    return client.signRelayedApplication({ programId, ...APPLICATION }, relayer, deadline);
+  }
+
+  function post(signed: SignedRelayedApplication, sender: HardhatEthersSigner = relayerSigner) {
+    const { struct, signature } = toRelayedApplicationArgs(signed);
+    return contract.connect(sender).submitRelayedApplication(struct, signature);
+  }
+
+  describe("Unlinkability", function () {
+    it("✅ should record and emit the application key as the applicant", async function () {
+      const signed = await signApplication();
+
+      await expect(post(signed))
+        .to.emit(contract, "ApplicationSubmitted")
+        .withArgs(1, programId, applicationKey.address);
+
+      const info = await contract.getApplicationBasicInfo(1);
+      expect(info.applicant).to.equal(applicationKey.address);
+      expect(await contract.connect(applicationKey).getMyApplications()).to.deep.equal([1n]);
+      expect(await contract.connect(relayerSigner).getMyApplications()).to.deep.equal([]);
+    });
+
+    it("✅ should let the application key decrypt its eligibility", async function () {
+      await post(await signApplication());
+
+      expect(await keyClient.decryptMyEligibility(1)).to.equal(true);
+    });
+
+    it("✅ should not need any funds on the application key", async function () {
+      await post(await signApplication());
+
+      expect(await ethers.provider.getBalance(applicationKey.address)).to.equal(0n);
+    });
+
+    it("✅ should keep separate application keys unlinked", async function () {
+      const secondKey = ethers.Wallet.createRandom().connect(ethers.provider);
+      await post(await signApplication());
+      await post(await signApplication(keyClient.connect(secondKey)));
+
+      expect((await contract.getApplicationBasicInfo(1)).applicant).to.equal(applicationKey.address);
+      expect((await contract.getApplicationBasicInfo(2)).applicant).to.equal(secondKey.address);
+    });
+
+    it("✅ should use the contract's EIP-712 domain", async function () {
+      const { chainId } = await ethers.provider.getNetwork();
+      const expected = ethers.TypedDataEncoder.hashDomain({
+        name: RELAY_DOMAIN_NAME,
+        version: RELAY_DOMAIN_VERSION,
+        chainId,
+        verifyingContract: contractAddress,
+      });
+
+      expect(await contract.domainSeparator()).to.equal(expected);
+    });
+  });
+
+  describe("Signature Checks", function () {
+    it("❌ should reject a tampered program id", async function () {
+      const other = await createProgram();
+      const signed = await signApplication();
+
+      await expect(post({ ...signed, programId: String(other) })).to.be.revertedWith("Invalid signature");
+    });
+
+    it("❌ should reject swapped ciphertexts", async function () {
+      const signed = await signApplication();
+
+      await expect(post({ ...signed, gpa: signed.householdIncome, householdIncome: signed.gpa })).to.be.revertedWith(
+        "Invalid signature"
+      );
+    });
+
+    it("❌ should reject a signature by another key", async function () {
+      const impostor = keyClient.connect(ethers.Wallet.createRandom().connect(ethers.provider));
+      const forged = await signApplication(impostor);
+
+      await expect(post({ ...forged, applicant: applicationKey.address })).to.be.revertedWith("Invalid signature");
+    });
+
+    it("❌ should reject an unsigned application for the zero address", async function () {
+      const signed = await signApplication();
+      // ecrecover returns the zero address for a malformed signature
+      const garbage = "0x" + "00".repeat(65);
+
+      await expect(post({ ...signed, applicant: ethers.ZeroAddress, signature: garbage })).to.be.revertedWith(
+        "Invalid signature"
+      );
+    });
+
+    it("❌ should reject a truncated signature", async function () {
+      const signed = await signApplication();
+
+      await expect(post({ ...signed, signature: signed.signature.slice(0, 130) })).to.be.revertedWith(
+        "Invalid signature"
+      );
+    });
+
+    it("❌ should reject a replayed submission", async function () {
+      const signed = await signApplication();
+      await post(signed);
+
+      await expect(post(signed)).to.be.revertedWith("Invalid nonce");
+      expect(await contract.applicationCount()).to.equal(1n);
+    });
+
+    it("✅ should accept a second application signed with the next nonce", async function () {
+      await post(await signApplication());
+      // One application per program and key, so the second one goes to another program
+      programId = await createProgram();
+      const second = await signApplication();
+
+      expect(second.nonce).to.equal("1");
+      await expect(post(second))
+        .to.emit(contract, "ApplicationSubmitted")
+        .withArgs(2, programId, applicationKey.address);
+    });
+
+    it("❌ should reject an expired signature", async function () {
+      const signed = await signApplication();
+      await time.increase(2 * HOUR);
+
+      await expect(post(signed)).to.be.revertedWith("Signature expired");
+    });
+
+    it("❌ should reject inputs encrypted for another relayer", async function () {
+      const signed = await signApplication(keyClient, otherRelayer.address);
+
+      await expect(post(signed, relayerSigner)).to.be.reverted;
+      await expect(post(signed, otherRelayer)).to.emit(contract, "ApplicationSubmitted");
+    });
+
+    it("❌ should still enforce the program's own checks", async function () {
+      await contract.connect(programAdmin).closeProgram(programId);
+
+      await expect(post(await signApplication())).to.be.revertedWith("Program not active");
+    });
+  });
+
+  describe("HTTP Relayer", function () {
+    let relayer: ApplicationRelayer;
+    let relayerClient: RelayerClient;
+    let url: string;
+
+    beforeEach(async function () {
+      relayer = new ApplicationRelayer(contract, relayerSigner);
+      url = await relayer.start();
+      relayerClient = new RelayerClient(url);
+    });
+
+    afterEach(async function () {
+      await relayer?.stop();
+    });
+
+    it("✅ should listen on localhost only", async function () {
+      expect(new URL(url).hostname).to.equal("127.0.0.1");
+    });
+
+    it("✅ should describe the relayer", async function () {
+      expect(await relayerClient.getInfo()).to.deep.equal({
+        relayer: relayerSigner.address,
+        contract: contractAddress,
+        chainId: "31337",
+      });
+    });
+
+    it("✅ should post an application end to end", async function () {
+      const deadline = (await time.latest()) + HOUR;
+      const result = await keyClient.submitApplicationViaRelayer(
+        relayerClient,
+        { programId, ...APPLICATION },
+        deadline
+      );
+
+      expect(result.applicationId).to.equal(1n);
+      expect((await keyClient.getApplication(result.applicationId)).applicant).to.equal(applicationKey.address);
+      expect(await keyClient.decryptMyEligibility(result.applicationId)).to.equal(true);
+    });
+
+    it("✅ should post queued applications in arrival order", async function () {
+      const keys = Array.from({ length: 3 }, () => ethers.Wallet.createRandom().connect(ethers.provider));
+      const queued = [];
+      for (const key of keys) {
+        queued.push(await relayerClient.submit(await signApplication(keyClient.connect(key))));
+      }
+      expect(queued.map((status) => status.state)).to.deep.equal(["queued", "queued", "queued"]);
+
+      await relayer.idle();
+      for (const [i, { id }] of queued.entries()) {
+        const status = await relayerClient.getStatus(id);
+        expect(status.state).to.equal("submitted");
+        expect(status.applicationId).to.equal(String(i + 1));
+        expect((await contract.getApplicationBasicInfo(i + 1)).applicant).to.equal(keys[i].address);
+      }
+    });
+
+    it("❌ should report a reverted submission and keep relaying", async function () {
+      const expired = await signApplication();
+      await time.increase(2 * HOUR);
+      const { id: failedId } = await relayerClient.submit(expired);
+      const { id: nextId } = await relayerClient.submit(await signApplication());
+
+      await expectClientError(relayerClient.waitForSubmission(failedId), "SIGNATURE_EXPIRED");
+      expect((await relayerClient.waitForSubmission(nextId)).applicationId).to.equal("1");
+    });
+
+    it("✅ should take an application again once its submission failed", async function () {
+      const signed = await signApplication();
+      await contract.connect(programAdmin).closeProgram(programId);
+      const { id: failedId } = await relayerClient.submit(signed);
+      await expectClientError(relayerClient.waitForSubmission(failedId), "PROGRAM_NOT_ACTIVE");
+
+      await contract.connect(programAdmin).reopenProgram(programId);
+      const { id } = await relayerClient.submit(signed);
+
+      expect((await relayerClient.waitForSubmission(id)).applicationId).to.equal("1");
+      const duplicate = await fetch(`${url}/applications`, { method: "POST", body: JSON.stringify(signed) });
+      expect(duplicate.status).to.equal(409);
+    });
+
+    it("❌ should report a mined submission whose event cannot be found", async function () {
+      // An ABI without ApplicationSubmitted stands in for a receipt the relayer cannot parse
+      const abi = contract.interface.fragments.filter(
+        (fragment) => !(fragment instanceof EventFragment && fragment.name === "ApplicationSubmitted")
+      );
+      const blind = new ethers.Contract(contractAddress, abi) as unknown as AnonymousScholarshipApplication;
+      const blindRelayer = new ApplicationRelayer(blind, relayerSigner);
+      const blindClient = new RelayerClient(await blindRelayer.start());
+
+      try {
+        const { id } = await blindClient.submit(await signApplication());
+        const error = await expectClientError(blindClient.waitForSubmission(id), "EVENT_NOT_FOUND");
+        const status = await blindClient.getStatus(id);
+        expect(error.message).to.include(status.transactionHash);
+        expect(await contract.applicationCount()).to.equal(1n);
+      } finally {
+        await blindRelayer.stop();
+      }
+    });
+
+    it("❌ should reject malformed and duplicate applications", async function () {
+      const malformed = await fetch(`${url}/applications`, { method: "POST", body: "{" });
+      expect(malformed.status).to.equal(400);
+
+      const { signature, ...unsigned } = await signApplication();
+      const missing = await fetch(`${url}/applications`, { method: "POST", body: JSON.stringify(unsigned) });
+      expect(missing.status).to.equal(400);
+
+      const signed = { ...unsigned, signature };
+      await relayerClient.submit(signed);
+      const duplicate = await fetch(`${url}/applications`, { method: "POST", body: JSON.stringify(signed) });
+      expect(duplicate.status).to.equal(409);
+    });
+
+    it("❌ should map relayer failures to RELAYER_ERROR", async function () {
+      await expectClientError(relayerClient.getStatus("42"), "RELAYER_ERROR");
+
+      await relayer.stop();
+      await expectClientError(relayerClient.getInfo(), "RELAYER_ERROR");
+    });
+
+    it("❌ should not report a relayed submission without an application id as successful", async function () {
+      const silent = {
+        getInfo: () => relayerClient.getInfo(),
+        submit: async () => ({ id: "1", state: "queued" }),
+        waitForSubmission: async () => ({ id: "1", state: "submitted" }),
+      } as unknown as RelayerClient;
+      const deadline = (await time.latest()) + HOUR;
+
+      await expectClientError(
+        keyClient.submitApplicationViaRelayer(silent, { programId, ...APPLICATION }, deadline),
+        "RELAYER_ERROR"
+      );
+    });
+  });
+});
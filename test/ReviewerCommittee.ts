@@ -0,0 +1,338 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect, use } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { AnonymousScholarshipApplication } from "../types";
+import { fhevmMatchers } from "./helpers/fhevmMatchers";
+import { Rule, serializeRule } from "../sdk";
+import { OPEN_SCHEDULE, getScholarshipFactory, skipUnlessMock } from "./helpers/scholarship";
+
+use(fhevmMatchers);
+
+/**
+ * @title Reviewer Committee Tests
+ * @notice Reviewer management and homomorphic aggregation of encrypted euint8 scores
+ * @dev Tests cover:
+ * - Adding and removing reviewers, review quorum
+ * - Three reviewers scoring, the administrator decrypting only the total
+ * - One review per reviewer and application
+ * - Processing gated on the quorum
+ */
+
+const OPEN_THRESHOLDS = { minGpa: 0, maxHouseholdIncome: 2 ** 32 - 1 };
+const OPEN_BUDGET = 2n ** 64n - 1n;
+
+describe("Reviewer Committee", function () {
+  let programAdmin: HardhatEthersSigner;
+  let reviewers: HardhatEthersSigner[];
+  let applicant: HardhatEthersSigner;
+  let outsider: HardhatEthersSigner;
+  let contract: AnonymousScholarshipApplication;
+  let contractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    programAdmin = ethSigners[0];
+    reviewers = ethSigners.slice(1, 4);
+    applicant = ethSigners[4];
+    outsider = ethSigners[5];
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+
+    const factory = await getScholarshipFactory();
+    contract = (await factory.deploy()) as AnonymousScholarshipApplication;
+    contractAddress = await contract.getAddress();
+  });
+
+  async function createProgram(admin: HardhatEthersSigner = programAdmin) {
+    const { criteriaCount, nodes } = serializeRule(Rule.criterion(0));
+    const encryptedInput = await fhevm
+      .createEncryptedInput(contractAddress, admin.address)
+      .add16(OPEN_THRESHOLDS.minGpa)
+      .add32(OPEN_THRESHOLDS.maxHouseholdIncome)
+      .add64(OPEN_BUDGET)
+      .encrypt();
+
+    await contract
+      .connect(admin)
+      .createProgram(
+        "Committee Program",
+        "Reviewer test",
+        100,
+        criteriaCount,
+        nodes,
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        OPEN_SCHEDULE,
+        encryptedInput.inputProof
+      );
+    return Number(await contract.programCount());
+  }
+
+  async function submitApplication(programId: number, from: HardhatEthersSigner = applicant) {
+    const encryptedInput = await fhevm
+      .createEncryptedInput(contractAddress, from.address)
+      .addBool(true)
+      .add16(0)
+      .add32(0)
+      .encrypt();
+
+    await contract
+      .connect(from)
+      .submitApplication(
+        programId,
+        [encryptedInput.handles[0]],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        encryptedInput.inputProof
+      );
+    return Number(await contract.applicationCount());
+  }
+
+  async function submitReview(reviewer: HardhatEthersSigner, applicationId: number, score: number) {
+    const encryptedInput = await fhevm.createEncryptedInput(contractAddress, reviewer.address).add8(score).encrypt();
+    return contract.connect(reviewer).submitReview(applicationId, encryptedInput.handles[0], encryptedInput.inputProof);
+  }
+
+  async function processApplication(applicationId: number) {
+    const encryptedInput = await fhevm
+      .createEncryptedInput(contractAddress, programAdmin.address)
+      .addBool(true)
+      .add64(1_000)
+      .encrypt();
+
+    return contract
+      .connect(programAdmin)
+      .processApplication(
+        applicationId,
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.inputProof
+      );
+  }
+
+  async function addReviewers(programId: number, committee: HardhatEthersSigner[] = reviewers) {
+    for (const reviewer of committee) {
+      await contract.connect(programAdmin).addReviewer(programId, reviewer.address);
+    }
+  }
+
+  async function expectTotalScore(applicationId: number, expected: number, reviewCount: number) {
+    const score = await contract.connect(programAdmin).getApplicationScore(applicationId);
+    expect(score.reviewCount).to.equal(BigInt(reviewCount));
+    await expect(score.totalScore).to.decryptAs(FhevmType.euint16, expected, contractAddress, programAdmin);
+  }
+
+  describe("Reviewer Management", function () {
+    let programId: number;
+
+    beforeEach(async function () {
+      programId = await createProgram();
+    });
+
+    it("✅ should register reviewers", async function () {
+      await expect(contract.connect(programAdmin).addReviewer(programId, reviewers[0].address))
+        .to.emit(contract, "ReviewerAdded")
+        .withArgs(programId, reviewers[0].address);
+      await addReviewers(programId, reviewers.slice(1));
+
+      const committee = await contract.getProgramReviewers(programId);
+      expect(committee.reviewers).to.deep.equal(reviewers.map((reviewer) => reviewer.address));
+      expect(committee.quorum).to.equal(0n);
+      expect(await contract.isProgramReviewer(programId, reviewers[1].address)).to.equal(true);
+    });
+
+    it("✅ should remove a reviewer", async function () {
+      await addReviewers(programId);
+
+      await expect(contract.connect(programAdmin).removeReviewer(programId, reviewers[0].address))
+        .to.emit(contract, "ReviewerRemoved")
+        .withArgs(programId, reviewers[0].address);
+
+      const committee = await contract.getProgramReviewers(programId);
+      expect([...committee.reviewers]).to.have.members([reviewers[1].address, reviewers[2].address]);
+      expect(await contract.isProgramReviewer(programId, reviewers[0].address)).to.equal(false);
+    });
+
+    it("✅ should update the quorum", async function () {
+      await addReviewers(programId);
+
+      await expect(contract.connect(programAdmin).setReviewQuorum(programId, 2))
+        .to.emit(contract, "ReviewQuorumUpdated")
+        .withArgs(programId, 2);
+      expect((await contract.getProgramReviewers(programId)).quorum).to.equal(2n);
+    });
+
+    it("❌ should only let the administrator manage reviewers", async function () {
+      await expect(contract.connect(outsider).addReviewer(programId, outsider.address)).to.be.revertedWith(
+        "Not program administrator"
+      );
+      await addReviewers(programId);
+      await expect(contract.connect(reviewers[0]).removeReviewer(programId, reviewers[1].address)).to.be.revertedWith(
+        "Not program administrator"
+      );
+      await expect(contract.connect(reviewers[0]).setReviewQuorum(programId, 1)).to.be.revertedWith(
+        "Not program administrator"
+      );
+    });
+
+    it("❌ should reject duplicate and zero-address reviewers", async function () {
+      await addReviewers(programId, [reviewers[0]]);
+
+      await expect(contract.connect(programAdmin).addReviewer(programId, reviewers[0].address)).to.be.revertedWith(
+        "Already a reviewer"
+      );
+      await expect(contract.connect(programAdmin).addReviewer(programId, ethers.ZeroAddress)).to.be.revertedWith(
+        "Invalid reviewer"
+      );
+    });
+
+    it("❌ should reject removing someone who is not a reviewer", async function () {
+      await expect(contract.connect(programAdmin).removeReviewer(programId, outsider.address)).to.be.revertedWith(
+        "Not a reviewer"
+      );
+    });
+
+    it("❌ should reject a quorum larger than the committee", async function () {
+      await addReviewers(programId, reviewers.slice(0, 2));
+      await expect(contract.connect(programAdmin).setReviewQuorum(programId, 3)).to.be.revertedWith(
+        "Quorum exceeds reviewers"
+      );
+    });
+
+    it("❌ should reject removing a reviewer the quorum depends on", async function () {
+      await addReviewers(programId, reviewers.slice(0, 2));
+      await contract.connect(programAdmin).setReviewQuorum(programId, 2);
+
+      await expect(contract.connect(programAdmin).removeReviewer(programId, reviewers[0].address)).to.be.revertedWith(
+        "Quorum exceeds reviewers"
+      );
+    });
+  });
+
+  describe("Score Aggregation", function () {
+    let programId: number;
+    let applicationId: number;
+
+    beforeEach(async function () {
+      programId = await createProgram();
+      await addReviewers(programId);
+      applicationId = await submitApplication(programId);
+    });
+
+    it("✅ should sum three encrypted reviewer scores for the administrator", async function () {
+      await expect(submitReview(reviewers[0], applicationId, 70))
+        .to.emit(contract, "ReviewSubmitted")
+        .withArgs(applicationId, reviewers[0].address);
+      await submitReview(reviewers[1], applicationId, 85);
+      await submitReview(reviewers[2], applicationId, 90);
+
+      await expectTotalScore(applicationId, 245, 3);
+    });
+
+    it("✅ should not overflow with maximum scores", async function () {
+      for (const reviewer of reviewers) {
+        await submitReview(reviewer, applicationId, 255);
+      }
+      await expectTotalScore(applicationId, 765, 3);
+    });
+
+    it("✅ should keep totals per application", async function () {
+      const secondApplicationId = await submitApplication(programId, outsider);
+      await submitReview(reviewers[0], applicationId, 10);
+      await submitReview(reviewers[0], secondApplicationId, 200);
+      await submitReview(reviewers[1], secondApplicationId, 50);
+
+      await expectTotalScore(applicationId, 10, 1);
+      await expectTotalScore(secondApplicationId, 250, 2);
+    });
+
+    it("✅ should keep the scores of a removed reviewer", async function () {
+      const secondApplicationId = await submitApplication(programId, outsider);
+      await submitReview(reviewers[0], applicationId, 40);
+      await contract.connect(programAdmin).removeReviewer(programId, reviewers[0].address);
+
+      await expect(submitReview(reviewers[0], secondApplicationId, 40)).to.be.revertedWith("Not a reviewer");
+      await expectTotalScore(applicationId, 40, 1);
+    });
+
+    it("❌ should expose the total to the administrator only", async function () {
+      await submitReview(reviewers[0], applicationId, 70);
+
+      await expect(contract.connect(applicant).getApplicationScore(applicationId)).to.be.revertedWith("Not authorized");
+      await expect(contract.connect(reviewers[0]).getApplicationScore(applicationId)).to.be.revertedWith(
+        "Not authorized"
+      );
+
+      // Even with the handle, only the administrator is on its ACL
+      const { totalScore } = await contract.connect(programAdmin).getApplicationScore(applicationId);
+      for (const signer of [applicant, reviewers[0]]) {
+        let decrypted = false;
+        try {
+          await fhevm.userDecryptEuint(FhevmType.euint16, totalScore, contractAddress, signer);
+          decrypted = true;
+        } catch {
+          // Expected: not allowed on the aggregate
+        }
+        expect(decrypted).to.equal(false);
+      }
+    });
+
+    it("❌ should reject a second review from the same reviewer", async function () {
+      await submitReview(reviewers[0], applicationId, 70);
+      await expect(submitReview(reviewers[0], applicationId, 90)).to.be.revertedWith("Already reviewed");
+      await expectTotalScore(applicationId, 70, 1);
+    });
+
+    it("❌ should reject reviews from non-reviewers", async function () {
+      await expect(submitReview(outsider, applicationId, 50)).to.be.revertedWith("Not a reviewer");
+      await expect(submitReview(programAdmin, applicationId, 50)).to.be.revertedWith("Not a reviewer");
+    });
+
+    it("❌ should reject reviewers of another program", async function () {
+      const otherProgramId = await createProgram(outsider);
+      await contract.connect(outsider).addReviewer(otherProgramId, outsider.address);
+
+      await expect(submitReview(outsider, applicationId, 50)).to.be.revertedWith("Not a reviewer");
+    });
+
+    it("❌ should reject reviews of processed applications", async function () {
+      await processApplication(applicationId);
+      await expect(submitReview(reviewers[0], applicationId, 50)).to.be.revertedWith("Already processed");
+    });
+  });
+
+  describe("Quorum", function () {
+    let programId: number;
+    let applicationId: number;
+
+    beforeEach(async function () {
+      programId = await createProgram();
+      await addReviewers(programId);
+      applicationId = await submitApplication(programId);
+    });
+
+    it("✅ should process without reviews when no quorum is set", async function () {
+      await expect(processApplication(applicationId)).to.emit(contract, "ApplicationProcessed");
+    });
+
+    it("❌ should reject processing before the quorum is reached", async function () {
+      await contract.connect(programAdmin).setReviewQuorum(programId, 2);
+      await submitReview(reviewers[0], applicationId, 80);
+
+      await expect(processApplication(applicationId)).to.be.revertedWith("Quorum not reached");
+    });
+
+    it("✅ should process once the quorum is reached", async function () {
+      await contract.connect(programAdmin).setReviewQuorum(programId, 2);
+      await submitReview(reviewers[0], applicationId, 80);
+      await submitReview(reviewers[1], applicationId, 60);
+
+      await expect(processApplication(applicationId)).to.emit(contract, "ApplicationProcessed").withArgs(applicationId);
+      await expectTotalScore(applicationId, 140, 2);
+    });
+  });
+});
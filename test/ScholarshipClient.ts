@@ -0,0 +1,599 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { AnonymousScholarshipApplication } from "../types";
+import { ApplicationSubmittedEventData, DEFAULT_RULE, ProgramStatus, Rule, ScholarshipClient } from "../sdk";
+import { OPEN_SCHEDULE, expectClientError, getScholarshipFactory, skipUnlessMock } from "./helpers/scholarship";
+
+/**
+ * @title ScholarshipClient Tests
+ * @notice Exercises the typed SDK against the Hardhat FHEVM mock
+ * @dev Tests cover:
+ * - Program creation and typed program info
+ * - Client-side encryption in createProgram and submitApplication
+ * - User decryption of the applicant's own eligibility
+ * - Application reads scoped to the applicant and the administrator
+ * - Top-K selection driven in batches
+ * - Award publication through public decryption
+ * - Typed errors mapped from contract reverts
+ * - Event subscriptions
+ */
+
+type Signers = {
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  programAdmin: HardhatEthersSigner;
+};
+
+/** Program thresholds used by every test program; GPA is scaled by 100. */
+const THRESHOLDS = { minGpa: 300, maxHouseholdIncome: 60000 };
+/** Applicant figures that clear THRESHOLDS. */
+const FIGURES = { gpa: 350, householdIncome: 40000 };
+/** Every test program can fund ten awards of AWARD. */
+const BUDGET = 10_000;
+const AWARD = 1_000;
+/** Open now and never closing; deadlines are covered in test/ProgramSchedule.ts. */
+
+async function deployFixture() {
+  const factory = await getScholarshipFactory();
+  const contract = (await factory.deploy()) as AnonymousScholarshipApplication;
+  const contractAddress = await contract.getAddress();
+
+  return { contract, contractAddress };
+}
+
+describe("ScholarshipClient", function () {
+  let signers: Signers;
+  let adminClient: ScholarshipClient;
+  let aliceClient: ScholarshipClient;
+  let bobClient: ScholarshipClient;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { alice: ethSigners[1], bob: ethSigners[2], programAdmin: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+
+    const { contractAddress } = await deployFixture();
+    adminClient = ScholarshipClient.at(contractAddress, signers.programAdmin, fhevm);
+    aliceClient = adminClient.connect(signers.alice);
+    bobClient = adminClient.connect(signers.bob);
+  });
+
+  describe("Programs", function () {
+    it("✅ should create a program and return its id", async function () {
+      const first = await adminClient.createProgram({
+        name: "Merit",
+        description: "Top students",
+        maxApplications: 10,
+        ...THRESHOLDS,
+        budget: BUDGET,
+        schedule: OPEN_SCHEDULE,
+        rule: DEFAULT_RULE,
+      });
+      const second = await adminClient.createProgram({
+        name: "Need",
+        description: "Low income",
+        maxApplications: 5,
+        ...THRESHOLDS,
+        budget: BUDGET,
+        schedule: OPEN_SCHEDULE,
+        rule: DEFAULT_RULE,
+      });
+
+      expect(first.programId).to.equal(1n);
+      expect(second.programId).to.equal(2n);
+
+      const program = await aliceClient.getProgram(second.programId);
+      expect(program).to.deep.equal({
+        programId: 2n,
+        name: "Need",
+        description: "Low income",
+        maxApplications: 5n,
+        currentApplications: 0n,
+        isActive: true,
+        status: ProgramStatus.Open,
+        resubmissionAllowed: false,
+      });
+    });
+
+    it("✅ should round-trip the eligibility rule", async function () {
+      const rule = Rule.allOf(
+        Rule.minGpa(),
+        Rule.atLeast(3, Rule.weighted(2, Rule.criterion(0)), Rule.criterion(1), Rule.criterion(2))
+      );
+      const { programId } = await adminClient.createProgram({
+        name: "Weighted",
+        description: "Need counts double",
+        maxApplications: 10,
+        ...THRESHOLDS,
+        budget: BUDGET,
+        schedule: OPEN_SCHEDULE,
+        rule,
+      });
+
+      expect(await aliceClient.getProgramRule(programId)).to.deep.equal({ criteriaCount: 3, rule });
+    });
+  });
+
+  describe("Applications", function () {
+    let programId: bigint;
+
+    beforeEach(async function () {
+      ({ programId } = await adminClient.createProgram({
+        name: "Merit",
+        description: "Top students",
+        maxApplications: 2,
+        ...THRESHOLDS,
+        budget: BUDGET,
+        schedule: OPEN_SCHEDULE,
+        rule: DEFAULT_RULE,
+      }));
+    });
+
+    it("✅ should encrypt criteria and decrypt the applicant's eligibility", async function () {
+      const eligible = await aliceClient.submitApplication({
+        programId,
+        criteria: [true, true],
+        ...FIGURES,
+      });
+      const ineligible = await bobClient.submitApplication({
+        programId,
+        criteria: [true, false],
+        ...FIGURES,
+      });
+
+      expect(eligible.applicationId).to.equal(1n);
+      expect(eligible.programId).to.equal(programId);
+      expect(ineligible.applicationId).to.equal(2n);
+
+      expect(await aliceClient.decryptMyEligibility(eligible.applicationId)).to.be.true;
+      expect(await bobClient.decryptMyEligibility(ineligible.applicationId)).to.be.false;
+    });
+
+    it("✅ should list program applications for the administrator", async function () {
+      await aliceClient.submitApplication({
+        programId,
+        criteria: [true, true],
+        ...FIGURES,
+      });
+      await bobClient.submitApplication({
+        programId,
+        criteria: [false, true],
+        ...FIGURES,
+      });
+
+      const applications = await adminClient.listProgramApplications(programId);
+      expect(applications.map((app) => app.applicationId)).to.deep.equal([1n, 2n]);
+      expect(applications.map((app) => app.applicant)).to.deep.equal([signers.alice.address, signers.bob.address]);
+      expect(applications.every((app) => app.programId === programId)).to.be.true;
+      expect(applications.every((app) => !app.processed)).to.be.true;
+    });
+
+    it("✅ should list only the signer's own applications", async function () {
+      await aliceClient.submitApplication({ programId, criteria: [true, true], ...FIGURES });
+      await bobClient.submitApplication({ programId, criteria: [false, true], ...FIGURES });
+
+      const applications = await aliceClient.listMyApplications();
+      expect(applications.map((app) => app.applicationId)).to.deep.equal([1n]);
+      expect(applications[0].applicant).to.equal(signers.alice.address);
+      expect(await adminClient.listMyApplications()).to.deep.equal([]);
+    });
+
+    it("✅ should process an application", async function () {
+      const { applicationId } = await aliceClient.submitApplication({
+        programId,
+        criteria: [true, true],
+        ...FIGURES,
+      });
+
+      const result = await adminClient.processApplication(applicationId, true, AWARD);
+      expect(result.applicationId).to.equal(applicationId);
+      expect((await adminClient.getApplication(applicationId)).processed).to.be.true;
+    });
+
+    it("✅ should let the applicant decrypt their own decision", async function () {
+      const approved = await aliceClient.submitApplication({ programId, criteria: [true, true], ...FIGURES });
+      const rejected = await bobClient.submitApplication({ programId, criteria: [true, true], ...FIGURES });
+
+      await adminClient.processApplication(approved.applicationId, true, AWARD);
+      await adminClient.processApplication(rejected.applicationId, false, AWARD);
+
+      expect(await aliceClient.decryptDecision(approved.applicationId)).to.be.true;
+      expect(await bobClient.decryptDecision(rejected.applicationId)).to.be.false;
+      expect(await adminClient.decryptDecision(approved.applicationId)).to.be.true;
+    });
+
+    it("✅ should decrypt awards and deduct them from the remaining budget", async function () {
+      const approved = await aliceClient.submitApplication({ programId, criteria: [true, true], ...FIGURES });
+      const rejected = await bobClient.submitApplication({ programId, criteria: [true, true], ...FIGURES });
+
+      await adminClient.processApplication(approved.applicationId, true, 2_500);
+      await adminClient.processApplication(rejected.applicationId, false, 2_500);
+
+      expect(await aliceClient.decryptAward(approved.applicationId)).to.equal(2_500n);
+      expect(await bobClient.decryptAward(rejected.applicationId)).to.equal(0n);
+      expect(await adminClient.decryptRemainingBudget(programId)).to.equal(BigInt(BUDGET - 2_500));
+    });
+  });
+
+  describe("Encrypted thresholds", function () {
+    let programId: bigint;
+
+    beforeEach(async function () {
+      ({ programId } = await adminClient.createProgram({
+        name: "Need-Based",
+        description: "GPA 3.00+, income up to 60k",
+        maxApplications: 10,
+        ...THRESHOLDS,
+        budget: BUDGET,
+        schedule: OPEN_SCHEDULE,
+        rule: DEFAULT_RULE,
+      }));
+    });
+
+    it("✅ should treat figures exactly at the thresholds as eligible", async function () {
+      const { applicationId } = await aliceClient.submitApplication({
+        programId,
+        criteria: [true, true],
+        gpa: THRESHOLDS.minGpa,
+        householdIncome: THRESHOLDS.maxHouseholdIncome,
+      });
+
+      expect(await aliceClient.decryptMyEligibility(applicationId)).to.be.true;
+    });
+
+    it("❌ should treat figures just outside the thresholds as ineligible", async function () {
+      const lowGpa = await aliceClient.submitApplication({
+        programId,
+        criteria: [true, true],
+        gpa: THRESHOLDS.minGpa - 1,
+        householdIncome: FIGURES.householdIncome,
+      });
+      const highIncome = await bobClient.submitApplication({
+        programId,
+        criteria: [true, true],
+        gpa: FIGURES.gpa,
+        householdIncome: THRESHOLDS.maxHouseholdIncome + 1,
+      });
+
+      expect(await aliceClient.decryptMyEligibility(lowGpa.applicationId)).to.be.false;
+      expect(await bobClient.decryptMyEligibility(highIncome.applicationId)).to.be.false;
+    });
+  });
+
+  describe("Typed errors", function () {
+    beforeEach(async function () {
+      await adminClient.createProgram({
+        name: "Tiny",
+        description: "One seat",
+        maxApplications: 1,
+        ...THRESHOLDS,
+        budget: BUDGET,
+        schedule: OPEN_SCHEDULE,
+        rule: DEFAULT_RULE,
+      });
+    });
+
+    it("❌ should map an invalid program to INVALID_PROGRAM", async function () {
+      await expectClientError(
+        aliceClient.submitApplication({
+          programId: 99,
+          criteria: [true, true],
+          ...FIGURES,
+        }),
+        "INVALID_PROGRAM"
+      );
+    });
+
+    it("❌ should map a submission after the deadline to APPLICATIONS_CLOSED", async function () {
+      const now = await time.latest();
+      const { programId } = await adminClient.createProgram({
+        name: "Closing",
+        description: "Closes in an hour",
+        maxApplications: 5,
+        ...THRESHOLDS,
+        budget: BUDGET,
+        schedule: { opensAt: now, closesAt: now + 3600, reviewDeadline: now + 7200 },
+        rule: DEFAULT_RULE,
+      });
+      expect(await aliceClient.getProgramSchedule(programId)).to.deep.equal({
+        opensAt: BigInt(now),
+        closesAt: BigInt(now + 3600),
+        reviewDeadline: BigInt(now + 7200),
+      });
+
+      await time.increase(3600);
+      await expectClientError(
+        aliceClient.submitApplication({ programId, criteria: [true, true], ...FIGURES }),
+        "APPLICATIONS_CLOSED"
+      );
+    });
+
+    it("❌ should map a wrong number of criteria to CRITERIA_MISMATCH", async function () {
+      await expectClientError(
+        aliceClient.submitApplication({ programId: 1, criteria: [true], ...FIGURES }),
+        "CRITERIA_MISMATCH"
+      );
+    });
+
+    it("❌ should reject an empty rule group with INVALID_RULE before sending", async function () {
+      await expectClientError(
+        adminClient.createProgram({
+          name: "Broken",
+          description: "Empty group",
+          maxApplications: 1,
+          ...THRESHOLDS,
+          budget: BUDGET,
+          schedule: OPEN_SCHEDULE,
+          rule: Rule.anyOf(),
+        }),
+        "INVALID_RULE"
+      );
+    });
+
+    it("❌ should map processing a waitlisted application to APPLICATION_WAITLISTED", async function () {
+      await aliceClient.submitApplication({
+        programId: 1,
+        criteria: [true, true],
+        ...FIGURES,
+      });
+      const { applicationId } = await bobClient.submitApplication({ programId: 1, criteria: [true, true], ...FIGURES });
+
+      await expectClientError(adminClient.processApplication(applicationId, true, 100), "APPLICATION_WAITLISTED");
+    });
+
+    it("❌ should map a foreign listing to NOT_AUTHORIZED", async function () {
+      await expectClientError(aliceClient.listProgramApplications(1), "NOT_AUTHORIZED");
+    });
+
+    it("❌ should map a foreign eligibility read to NOT_AUTHORIZED", async function () {
+      await aliceClient.submitApplication({
+        programId: 1,
+        criteria: [true, true],
+        ...FIGURES,
+      });
+
+      await expectClientError(bobClient.decryptMyEligibility(1), "NOT_AUTHORIZED");
+    });
+
+    it("❌ should map a foreign application read to NOT_AUTHORIZED", async function () {
+      await aliceClient.submitApplication({ programId: 1, criteria: [true, true], ...FIGURES });
+
+      await expectClientError(bobClient.getApplication(1), "NOT_AUTHORIZED");
+    });
+
+    it("❌ should map a foreign decision read to NOT_AUTHORIZED", async function () {
+      await aliceClient.submitApplication({ programId: 1, criteria: [true, true], ...FIGURES });
+      await adminClient.processApplication(1, true, AWARD);
+
+      await expectClientError(bobClient.decryptDecision(1), "NOT_AUTHORIZED");
+    });
+
+    it("❌ should map a foreign budget read to NOT_AUTHORIZED", async function () {
+      await expectClientError(aliceClient.decryptRemainingBudget(1), "NOT_AUTHORIZED");
+    });
+
+    it("❌ should map an unprocessed decision read to NOT_PROCESSED", async function () {
+      await aliceClient.submitApplication({ programId: 1, criteria: [true, true], ...FIGURES });
+
+      await expectClientError(aliceClient.decryptDecision(1), "NOT_PROCESSED");
+    });
+
+    it("❌ should map double processing to ALREADY_PROCESSED", async function () {
+      await aliceClient.submitApplication({
+        programId: 1,
+        criteria: [true, true],
+        ...FIGURES,
+      });
+      await adminClient.processApplication(1, true, AWARD);
+
+      await expectClientError(adminClient.processApplication(1, false, AWARD), "ALREADY_PROCESSED");
+    });
+
+    it("❌ should map a non-admin processing attempt to NOT_PROGRAM_ADMIN", async function () {
+      await aliceClient.submitApplication({
+        programId: 1,
+        criteria: [true, true],
+        ...FIGURES,
+      });
+
+      await expectClientError(aliceClient.processApplication(1, true, AWARD), "NOT_PROGRAM_ADMIN");
+    });
+
+    it("❌ should map processing another program's application to NOT_PROGRAM_ADMIN", async function () {
+      await bobClient.createProgram({
+        name: "Bob's Program",
+        description: "Different administrator",
+        maxApplications: 1,
+        ...THRESHOLDS,
+        budget: BUDGET,
+        schedule: OPEN_SCHEDULE,
+        rule: DEFAULT_RULE,
+      });
+      await aliceClient.submitApplication({
+        programId: 1,
+        criteria: [true, true],
+        ...FIGURES,
+      });
+
+      await expectClientError(bobClient.processApplication(1, true, AWARD), "NOT_PROGRAM_ADMIN");
+    });
+  });
+
+  describe("Reviewer committees", function () {
+    it("✅ should let three reviewers score and the administrator decrypt the total", async function () {
+      const ethSigners = await ethers.getSigners();
+      const reviewers = ethSigners.slice(4, 7);
+      const { programId } = await adminClient.createProgram({
+        name: "Committee",
+        description: "Three reviewers",
+        maxApplications: 5,
+        ...THRESHOLDS,
+        budget: BUDGET,
+        schedule: OPEN_SCHEDULE,
+        rule: DEFAULT_RULE,
+      });
+      for (const reviewer of reviewers) {
+        await adminClient.addReviewer(programId, reviewer.address);
+      }
+      await adminClient.setReviewQuorum(programId, 3);
+      expect(await adminClient.getReviewCommittee(programId)).to.deep.equal({
+        reviewers: reviewers.map((reviewer) => reviewer.address),
+        quorum: 3,
+      });
+
+      const { applicationId } = await aliceClient.submitApplication({ programId, criteria: [true, true], ...FIGURES });
+      await expectClientError(adminClient.processApplication(applicationId, true, AWARD), "QUORUM_NOT_REACHED");
+
+      for (const [i, reviewer] of reviewers.entries()) {
+        await adminClient.connect(reviewer).submitReview(applicationId, 60 + i * 10);
+      }
+      await expectClientError(adminClient.connect(reviewers[0]).submitReview(applicationId, 1), "ALREADY_REVIEWED");
+      await expectClientError(bobClient.submitReview(applicationId, 1), "NOT_REVIEWER");
+      await expectClientError(aliceClient.decryptApplicationScore(applicationId), "NOT_AUTHORIZED");
+
+      expect(await adminClient.decryptApplicationScore(applicationId)).to.deep.equal({
+        totalScore: 210n,
+        reviewCount: 3,
+      });
+      await adminClient.processApplication(applicationId, true, AWARD);
+    });
+  });
+
+  describe("Top-K selection", function () {
+    it("✅ should select the best-scored applicant and map selection errors", async function () {
+      const { programId } = await adminClient.createProgram({
+        name: "Oversubscribed",
+        description: "One award, two applicants",
+        maxApplications: 5,
+        ...THRESHOLDS,
+        budget: BUDGET,
+        schedule: OPEN_SCHEDULE,
+        rule: DEFAULT_RULE,
+      });
+      await adminClient.addReviewer(programId, signers.programAdmin.address);
+      const alice = await aliceClient.submitApplication({ programId, criteria: [true, true], ...FIGURES });
+      const bob = await bobClient.submitApplication({ programId, criteria: [true, true], ...FIGURES });
+      await adminClient.submitReview(alice.applicationId, 40);
+      await adminClient.submitReview(bob.applicationId, 75);
+
+      await expectClientError(aliceClient.runSelection(programId, 1), "NOT_PROGRAM_ADMIN");
+      await adminClient.startSelection(programId, 1);
+      await expectClientError(bobClient.decryptSelection(bob.applicationId), "SELECTION_NOT_COMPLETED");
+      await expectClientError(
+        adminClient.processApplication(alice.applicationId, true, AWARD),
+        "SELECTION_IN_PROGRESS"
+      );
+
+      await adminClient.runSelection(programId, 1, { batchSize: 2 });
+      expect(await aliceClient.decryptSelection(alice.applicationId)).to.equal(false);
+      expect(await bobClient.decryptSelection(bob.applicationId)).to.equal(true);
+      await expectClientError(adminClient.startSelection(programId, 1), "SELECTION_STARTED");
+    });
+  });
+
+  describe("Award publication", function () {
+    let programId: bigint;
+
+    beforeEach(async function () {
+      ({ programId } = await adminClient.createProgram({
+        name: "Merit",
+        description: "Top students",
+        maxApplications: 5,
+        ...THRESHOLDS,
+        budget: BUDGET,
+        schedule: OPEN_SCHEDULE,
+        rule: DEFAULT_RULE,
+      }));
+      const awarded = await aliceClient.submitApplication({ programId, criteria: [true, true], ...FIGURES });
+      const declined = await bobClient.submitApplication({ programId, criteria: [true, true], ...FIGURES });
+      await adminClient.processApplication(awarded.applicationId, true, AWARD);
+      await adminClient.processApplication(declined.applicationId, false, AWARD);
+    });
+
+    it("✅ should request, fulfil and read the published results", async function () {
+      const request = await adminClient.requestAwardPublication(programId);
+      expect(request.requestId).to.equal(1n);
+      expect(request.handles).to.have.length(2);
+
+      const published = await bobClient.fulfillAwardPublication(request.requestId);
+      expect(published).to.deep.include({ awardCount: 1n, awardedAmount: BigInt(AWARD) });
+      expect(await bobClient.getAwardResults(programId)).to.deep.equal({
+        awardCount: 1n,
+        awardedAmount: BigInt(AWARD),
+      });
+      expect((await bobClient.getAwardPublication(request.requestId)).fulfilled).to.be.true;
+    });
+
+    it("❌ should map a read before publication to AWARDS_NOT_PUBLISHED", async function () {
+      await expectClientError(aliceClient.getAwardResults(programId), "AWARDS_NOT_PUBLISHED");
+    });
+
+    it("❌ should map a second request to PUBLICATION_PENDING", async function () {
+      await adminClient.requestAwardPublication(programId);
+      await expectClientError(adminClient.requestAwardPublication(programId), "PUBLICATION_PENDING");
+    });
+
+    it("❌ should refuse to fulfil a request twice with REQUEST_FULFILLED", async function () {
+      const { requestId } = await adminClient.requestAwardPublication(programId);
+      await aliceClient.fulfillAwardPublication(requestId);
+      await expectClientError(aliceClient.fulfillAwardPublication(requestId), "REQUEST_FULFILLED");
+    });
+
+    it("❌ should map an unknown request to UNKNOWN_REQUEST", async function () {
+      await expectClientError(aliceClient.fulfillAwardPublication(3), "UNKNOWN_REQUEST");
+    });
+
+    it("❌ should map a forged proof to INVALID_DECRYPTION_PROOF", async function () {
+      const { requestId } = await adminClient.requestAwardPublication(programId);
+      const forging = ScholarshipClient.at(await adminClient.getAddress(), signers.bob, {
+        createEncryptedInput: fhevm.createEncryptedInput.bind(fhevm),
+        userDecryptEbool: fhevm.userDecryptEbool.bind(fhevm),
+        userDecryptEuint: fhevm.userDecryptEuint.bind(fhevm),
+        publicDecrypt: async (handles) => {
+          const { decryptionProof } = await fhevm.publicDecrypt(handles);
+          const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint32", "uint64"], [2, 2 * AWARD]);
+          return { abiEncodedClearValues: forged, decryptionProof };
+        },
+      });
+
+      await expectClientError(forging.fulfillAwardPublication(requestId), "INVALID_DECRYPTION_PROOF");
+    });
+  });
+
+  describe("Event subscriptions", function () {
+    it("✅ should deliver typed ApplicationSubmitted events until unsubscribed", async function () {
+      const { programId } = await adminClient.createProgram({
+        name: "Merit",
+        description: "Top",
+        maxApplications: 5,
+        ...THRESHOLDS,
+        budget: BUDGET,
+        schedule: OPEN_SCHEDULE,
+        rule: DEFAULT_RULE,
+      });
+
+      let onEvent: (event: ApplicationSubmittedEventData) => void = () => {};
+      const received = new Promise<ApplicationSubmittedEventData>((resolve) => (onEvent = resolve));
+      const unsubscribe = await adminClient.onApplicationSubmitted((event) => onEvent(event));
+
+      await aliceClient.submitApplication({
+        programId,
+        criteria: [true, false],
+        ...FIGURES,
+      });
+      const event = await received;
+      await unsubscribe();
+
+      expect(event).to.deep.equal({
+        applicationId: 1n,
+        programId,
+        applicant: signers.alice.address,
+      });
+    });
+  });
+});
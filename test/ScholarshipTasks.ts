@@ -0,0 +1,359 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import hre, { deployments, ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { ScholarshipClient, ScholarshipClientError } from "../sdk";
+import type { ProgramRow } from "../tasks/scholarship";
+import { AnonymousScholarshipApplication } from "../types";
+import { deployScholarship, getScholarshipFactory, skipUnlessMock } from "./helpers/scholarship";
+
+/**
+ * @title Scholarship Task Tests
+ * @notice Runs the scholarship:* Hardhat tasks against the in-process Hardhat network
+ * @dev Tests cover:
+ * - Address resolution from hardhat-deploy deployments and the --address override
+ * - create-program, list-programs, apply, process and the program lifecycle tasks end to end
+ * - Table and --json output
+ * - Argument validation and contract errors surfacing as ScholarshipClientError
+ */
+
+const CONTRACT_NAME = "AnonymousScholarshipApplication";
+const PROGRAM = {
+  name: "Merit",
+  description: "Top students",
+  maxApplications: "50",
+  minGpa: "300",
+  maxIncome: "60000",
+  budget: "100000",
+};
+
+/**
+ * Runs a task with console.log captured, returning what it printed and returned.
+ */
+async function runTask<T = unknown>(name: string, args: Record<string, unknown> = {}) {
+  const lines: string[] = [];
+  const log = console.log;
+  console.log = (...items: unknown[]) => lines.push(items.join(" "));
+  try {
+    const result = (await hre.run(name, args)) as T;
+    return { result, output: lines.join("\n") };
+  } finally {
+    console.log = log;
+  }
+}
+
+async function expectTaskError(promise: Promise<unknown>, message: string | RegExp) {
+  try {
+    await promise;
+  } catch (error) {
+    expect((error as Error).message).to.match(typeof message === "string" ? new RegExp(message) : message);
+    return error;
+  }
+  expect.fail(`Expected the task to fail with ${message}`);
+}
+
+describe("Scholarship Tasks", function () {
+  let deployer: HardhatEthersSigner;
+  let applicant: HardhatEthersSigner;
+  let contractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    [deployer, applicant] = ethSigners;
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+
+    // A fresh deployment per test; hardhat-deploy would otherwise reuse the previous one
+    ({ address: contractAddress } = await deployScholarship(deployer.address));
+  });
+
+  async function createProgram(overrides: Record<string, unknown> = {}) {
+    const { result } = await runTask<{ programId: string }[]>("scholarship:create-program", {
+      ...PROGRAM,
+      ...overrides,
+    });
+    return result[0].programId;
+  }
+
+  describe("Address Resolution", function () {
+    it("✅ should use the hardhat-deploy deployment", async function () {
+      const { result } = await runTask<{ programId: string }[]>("scholarship:create-program", PROGRAM);
+
+      expect(result[0].programId).to.equal("1");
+      const client = ScholarshipClient.at(contractAddress, deployer, fhevm);
+      expect((await client.getProgram(1)).name).to.equal("Merit");
+    });
+
+    it("✅ should prefer --address over the deployment", async function () {
+      const factory = await getScholarshipFactory(CONTRACT_NAME);
+      const other = (await factory.deploy()) as AnonymousScholarshipApplication;
+      const otherAddress = await other.getAddress();
+
+      await createProgram({ address: otherAddress });
+
+      expect(await other.programCount()).to.equal(1n);
+      expect(await ScholarshipClient.at(contractAddress, deployer, fhevm).contract.programCount()).to.equal(0n);
+    });
+
+    it("❌ should explain how to fix a missing deployment", async function () {
+      await deployments.delete(CONTRACT_NAME);
+
+      await expectTaskError(runTask("scholarship:list-programs"), /not in .*hardhat\.json.*--address/);
+    });
+  });
+
+  describe("Programs", function () {
+    it("✅ should list programs as a table", async function () {
+      await createProgram();
+      await createProgram({ name: "Need", closesAt: "4102444800", reviewDeadline: "4105036800" });
+
+      const { output } = await runTask("scholarship:list-programs");
+      const lines = output.split("\n");
+
+      expect(lines[0].split(/\s+/)).to.deep.equal([
+        "programId",
+        "name",
+        "applications",
+        "maxApplications",
+        "status",
+        "opensAt",
+        "closesAt",
+        "reviewDeadline",
+      ]);
+      expect(lines[1]).to.match(/^-+( +-+){7}$/);
+      expect(lines).to.have.length(4);
+      expect(lines[3]).to.match(/^2 +Need +0 +50 +open +\S+ +2100-01-01T00:00:00Z +2100-01-31T00:00:00Z$/);
+    });
+
+    it("✅ should print and return the same rows with --json", async function () {
+      await createProgram();
+
+      const { result, output } = await runTask<ProgramRow[]>("scholarship:list-programs", { json: true });
+
+      expect(JSON.parse(output)).to.deep.equal(result);
+      expect(result).to.have.length(1);
+      expect(result[0]).to.include({ programId: "1", name: "Merit", applications: "0", maxApplications: "50" });
+      expect(result[0].status).to.equal("open");
+    });
+
+    it("✅ should say so when there are no programs", async function () {
+      const { result, output } = await runTask("scholarship:list-programs");
+
+      expect(result).to.deep.equal([]);
+      expect(output).to.equal("(none)");
+    });
+
+    it("✅ should accept a custom eligibility rule", async function () {
+      const rule = JSON.stringify({ kind: "criterion", index: 0, weight: 1 });
+      await createProgram({ rule });
+
+      const client = ScholarshipClient.at(contractAddress, deployer, fhevm);
+      expect((await client.getProgramRule(1)).criteriaCount).to.equal(1);
+    });
+
+    it("✅ should update only the given fields of a program", async function () {
+      await createProgram();
+
+      await runTask("scholarship:update-program", { program: "1", maxApplications: "80" });
+
+      const { result } = await runTask<ProgramRow[]>("scholarship:list-programs", { json: true });
+      expect(result[0]).to.include({ name: "Merit", maxApplications: "80" });
+      const client = ScholarshipClient.at(contractAddress, deployer, fhevm);
+      expect((await client.getProgram(1)).description).to.equal("Top students");
+    });
+
+    it("✅ should close, reopen and archive a program", async function () {
+      await createProgram();
+      const status = async () =>
+        (await runTask<ProgramRow[]>("scholarship:list-programs", { json: true })).result[0].status;
+
+      for (const next of ["closed", "open", "closed", "archived"]) {
+        const { result } = await runTask<{ status: string }[]>("scholarship:set-status", {
+          program: "1",
+          status: next,
+        });
+        expect(result[0].status).to.equal(next);
+        expect(await status()).to.equal(next);
+      }
+    });
+
+    it("✅ should still toggle a program between open and closed", async function () {
+      await createProgram();
+
+      const closed = await runTask<{ active: boolean }[]>("scholarship:toggle", { program: "1" });
+      expect(closed.result[0].active).to.equal(false);
+
+      const reopened = await runTask<{ active: boolean }[]>("scholarship:toggle", { program: "1" });
+      expect(reopened.result[0].active).to.equal(true);
+    });
+
+    it("✅ should hand a program over once the nominee accepts", async function () {
+      await createProgram();
+
+      await runTask("scholarship:transfer-admin", { program: "1", to: applicant.address });
+      const { result } = await runTask<{ administrator: string; claimTransactions: number }[]>(
+        "scholarship:accept-admin",
+        { program: "1", signer: 1 }
+      );
+
+      expect(result[0].administrator).to.equal(applicant.address);
+      expect(result[0].claimTransactions).to.equal(0);
+      const { result: updated } = await runTask<{ name: string }[]>("scholarship:update-program", {
+        program: "1",
+        name: "Merit II",
+        signer: 1,
+      });
+      expect(updated[0].name).to.equal("Merit II");
+    });
+
+    it("❌ should reject lifecycle changes by another account", async function () {
+      await createProgram();
+
+      const error = await expectTaskError(
+        runTask("scholarship:set-status", { program: "1", status: "closed", signer: 1 }),
+        "Not program administrator"
+      );
+      expect((error as ScholarshipClientError).code).to.equal("NOT_PROGRAM_ADMIN");
+      await expectTaskError(
+        runTask("scholarship:accept-admin", { program: "1", signer: 1 }),
+        "Not pending administrator"
+      );
+    });
+
+    it("❌ should reject invalid transitions and arguments", async function () {
+      await createProgram();
+
+      const error = await expectTaskError(
+        runTask("scholarship:set-status", { program: "1", status: "archived" }),
+        "Invalid status transition"
+      );
+      expect((error as ScholarshipClientError).code).to.equal("INVALID_STATUS_TRANSITION");
+      await expectTaskError(runTask("scholarship:set-status", { program: "1", status: "paused" }), "--status must be");
+      await expectTaskError(runTask("scholarship:transfer-admin", { program: "1", to: "alice" }), "--to must be");
+      await expectTaskError(
+        runTask("scholarship:set-resubmission", { program: "1", policy: "sometimes" }),
+        "--policy must be"
+      );
+    });
+  });
+
+  describe("Applications", function () {
+    beforeEach(async function () {
+      await createProgram();
+    });
+
+    it("✅ should encrypt and submit an application from the chosen account", async function () {
+      const { result } = await runTask<{ applicationId: string; applicant: string }[]>("scholarship:apply", {
+        program: "1",
+        criteria: "true,true",
+        gpa: "372",
+        income: "41000",
+        signer: 1,
+      });
+
+      expect(result[0].applicationId).to.equal("1");
+      expect(result[0].applicant).to.equal(applicant.address);
+      const client = ScholarshipClient.at(contractAddress, applicant, fhevm);
+      expect(await client.decryptMyEligibility(1)).to.be.true;
+
+      const { result: programs } = await runTask<ProgramRow[]>("scholarship:list-programs", { json: true });
+      expect(programs[0].applications).to.equal("1");
+    });
+
+    it("✅ should keep failing criteria encrypted and ineligible", async function () {
+      await runTask("scholarship:apply", { program: "1", criteria: "1,0", gpa: "372", income: "41000", signer: 1 });
+
+      const client = ScholarshipClient.at(contractAddress, applicant, fhevm);
+      expect(await client.decryptMyEligibility(1)).to.be.false;
+    });
+
+    it("✅ should process an application with an encrypted decision", async function () {
+      await runTask("scholarship:apply", {
+        program: "1",
+        criteria: "true,true",
+        gpa: "372",
+        income: "41000",
+        signer: 1,
+      });
+
+      const { result } = await runTask<{ applicationId: string; decision: string }[]>("scholarship:process", {
+        application: "1",
+        decision: "approve",
+        amount: "2500",
+      });
+
+      expect(result[0]).to.include({ applicationId: "1", decision: "approve" });
+      const client = ScholarshipClient.at(contractAddress, applicant, fhevm);
+      expect(await client.decryptDecision(1)).to.be.true;
+      expect(await client.decryptAward(1)).to.equal(2500n);
+    });
+
+    it("✅ should withdraw an application and apply again once the program allows it", async function () {
+      const apply = { program: "1", criteria: "true,true", gpa: "372", income: "41000", signer: 1 };
+      await runTask("scholarship:apply", apply);
+
+      const { result } = await runTask<{ applicationId: string }[]>("scholarship:withdraw", {
+        application: "1",
+        signer: 1,
+      });
+      expect(result[0].applicationId).to.equal("1");
+      await expectTaskError(runTask("scholarship:apply", apply), "Resubmission not allowed");
+
+      await runTask("scholarship:set-resubmission", { program: "1", policy: "allow" });
+      const { result: resubmitted } = await runTask<{ applicationId: string }[]>("scholarship:apply", apply);
+      expect(resubmitted[0].applicationId).to.equal("2");
+
+      const { result: programs } = await runTask<ProgramRow[]>("scholarship:list-programs", { json: true });
+      expect(programs[0].applications).to.equal("1");
+    });
+
+    it("✅ should report waitlist positions and promote on disqualification", async function () {
+      await runTask("scholarship:update-program", { program: "1", maxApplications: "1" });
+      const apply = { program: "1", criteria: "true,true", gpa: "372", income: "41000" };
+      await runTask("scholarship:apply", apply);
+
+      const { result } = await runTask<{ waitlistPosition: string }[]>("scholarship:apply", { ...apply, signer: 1 });
+      expect(result[0].waitlistPosition).to.equal("1");
+
+      await runTask("scholarship:disqualify", { application: "1" });
+      const { result: position } = await runTask<{ waitlistPosition: string }[]>("scholarship:waitlist", {
+        application: "2",
+        signer: 1,
+      });
+      expect(position[0].waitlistPosition).to.equal("");
+    });
+
+    it("❌ should surface contract errors from apply", async function () {
+      await runTask("scholarship:set-status", { program: "1", status: "closed" });
+
+      const error = await expectTaskError(
+        runTask("scholarship:apply", { program: "1", criteria: "true,true", gpa: "372", income: "41000" }),
+        "Program not active"
+      );
+      expect(error).to.be.instanceOf(ScholarshipClientError);
+      expect((error as ScholarshipClientError).code).to.equal("PROGRAM_NOT_ACTIVE");
+    });
+
+    it("❌ should validate arguments before sending anything", async function () {
+      await expectTaskError(
+        runTask("scholarship:apply", { program: "1", criteria: "yes,no", gpa: "372", income: "41000" }),
+        "--criteria must be"
+      );
+      await expectTaskError(
+        runTask("scholarship:apply", { program: "1", criteria: "true,true", gpa: "3.72", income: "41000" }),
+        "--gpa must be a non-negative integer"
+      );
+      await expectTaskError(
+        runTask("scholarship:process", { application: "1", decision: "maybe" }),
+        "--decision must be"
+      );
+      await expectTaskError(
+        runTask("scholarship:set-status", { program: "1", status: "closed", signer: 99 }),
+        "No account at index 99"
+      );
+
+      expect(await ScholarshipClient.at(contractAddress, deployer, fhevm).contract.applicationCount()).to.equal(0n);
+    });
+  });
+});
@@ -0,0 +1,424 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect, use } from "chai";
+import { AnonymousScholarshipApplication } from "../types";
+import { fhevmMatchers } from "./helpers/fhevmMatchers";
+import { Rule, ScholarshipClient, SelectionPhase, SelectionProgress, serializeRule } from "../sdk";
+import { OPEN_SCHEDULE, getScholarshipFactory, skipUnlessMock } from "./helpers/scholarship";
+
+use(fhevmMatchers);
+
+/**
+ * @title Top-K Selection Tests
+ * @notice Ranks applications by encrypted review score with FHE.ge/FHE.select and marks the top K
+ * @dev Tests cover:
+ * - Selecting the K highest scores, ties broken by submission order
+ * - K larger than the pool, ineligible, unscored, withdrawn and disqualified applications
+ * - Identical results for every batch size, paged by ScholarshipClient.runSelection
+ * - Freezing the pool while selecting and gating processApplication on the result
+ * - Who may read the selection, and what the events reveal
+ */
+
+type Candidate = {
+  eligible?: boolean;
+  /** Review score; omitted for an application nobody reviewed. */
+  score?: number;
+};
+
+const OPEN_THRESHOLDS = { minGpa: 0, maxHouseholdIncome: 2 ** 32 - 1 };
+const OPEN_BUDGET = 2n ** 64n - 1n;
+
+describe("Top-K Selection", function () {
+  let programAdmin: HardhatEthersSigner;
+  let reviewer: HardhatEthersSigner;
+  let outsider: HardhatEthersSigner;
+  let applicants: HardhatEthersSigner[];
+  let contract: AnonymousScholarshipApplication;
+  let contractAddress: string;
+  let adminClient: ScholarshipClient;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    programAdmin = ethSigners[0];
+    reviewer = ethSigners[1];
+    outsider = ethSigners[2];
+    applicants = ethSigners.slice(3);
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+
+    const factory = await getScholarshipFactory();
+    contract = (await factory.deploy()) as AnonymousScholarshipApplication;
+    contractAddress = await contract.getAddress();
+    adminClient = ScholarshipClient.at(contractAddress, programAdmin, fhevm);
+  });
+
+  /** Creates a program whose only rule is criterion 0, with `reviewer` on its committee. */
+  async function createProgram() {
+    const { criteriaCount, nodes } = serializeRule(Rule.criterion(0));
+    const encryptedInput = await fhevm
+      .createEncryptedInput(contractAddress, programAdmin.address)
+      .add16(OPEN_THRESHOLDS.minGpa)
+      .add32(OPEN_THRESHOLDS.maxHouseholdIncome)
+      .add64(OPEN_BUDGET)
+      .encrypt();
+
+    await contract
+      .connect(programAdmin)
+      .createProgram(
+        "Oversubscribed Program",
+        "Selection test",
+        100,
+        criteriaCount,
+        nodes,
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        OPEN_SCHEDULE,
+        encryptedInput.inputProof
+      );
+    const programId = Number(await contract.programCount());
+    await contract.connect(programAdmin).addReviewer(programId, reviewer.address);
+    return programId;
+  }
+
+  async function submitApplication(applicant: HardhatEthersSigner, programId: number, eligible: boolean) {
+    const encryptedInput = await fhevm
+      .createEncryptedInput(contractAddress, applicant.address)
+      .addBool(eligible)
+      .add16(0)
+      .add32(0)
+      .encrypt();
+
+    return contract
+      .connect(applicant)
+      .submitApplication(
+        programId,
+        [encryptedInput.handles[0]],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        encryptedInput.inputProof
+      );
+  }
+
+  async function submitReview(applicationId: number, score: number) {
+    const encryptedInput = await fhevm.createEncryptedInput(contractAddress, reviewer.address).add8(score).encrypt();
+    return contract.connect(reviewer).submitReview(applicationId, encryptedInput.handles[0], encryptedInput.inputProof);
+  }
+
+  async function processApplication(applicationId: number) {
+    const encryptedInput = await fhevm
+      .createEncryptedInput(contractAddress, programAdmin.address)
+      .addBool(true)
+      .add64(1_000)
+      .encrypt();
+
+    return contract
+      .connect(programAdmin)
+      .processApplication(
+        applicationId,
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.inputProof
+      );
+  }
+
+  /** Submits and scores one application per candidate, in order, returning the program and application ids. */
+  async function seedProgram(candidates: Candidate[]) {
+    const programId = await createProgram();
+    const applicationIds: number[] = [];
+    for (const [i, { eligible = true, score }] of candidates.entries()) {
+      await submitApplication(applicants[i], programId, eligible);
+      const applicationId = Number(await contract.applicationCount());
+      if (score !== undefined) {
+        await submitReview(applicationId, score);
+      }
+      applicationIds.push(applicationId);
+    }
+    return { programId, applicationIds };
+  }
+
+  async function expectSelected(applicationIds: number[], expected: boolean[]) {
+    for (const [i, applicationId] of applicationIds.entries()) {
+      const handle = await contract.connect(programAdmin).getApplicationSelection(applicationId);
+      await expect(handle).to.decryptAsEbool(expected[i], contractAddress, programAdmin);
+    }
+  }
+
+  describe("Ranking", function () {
+    it("✅ should select the K highest scores", async function () {
+      const { programId, applicationIds } = await seedProgram([
+        { score: 40 },
+        { score: 90 },
+        { score: 10 },
+        { score: 70 },
+        { score: 55 },
+      ]);
+
+      await adminClient.runSelection(programId, 2);
+      await expectSelected(applicationIds, [false, true, false, true, false]);
+    });
+
+    it("✅ should break ties in favour of earlier applications", async function () {
+      const { programId, applicationIds } = await seedProgram([
+        { score: 50 },
+        { score: 80 },
+        { score: 80 },
+        { score: 80 },
+        { score: 20 },
+      ]);
+
+      await adminClient.runSelection(programId, 2);
+      await expectSelected(applicationIds, [false, true, true, false, false]);
+    });
+
+    it("✅ should select exactly K when every score ties", async function () {
+      const { programId, applicationIds } = await seedProgram([{ score: 60 }, { score: 60 }, { score: 60 }]);
+
+      await adminClient.runSelection(programId, 1);
+      await expectSelected(applicationIds, [true, false, false]);
+    });
+
+    it("✅ should select every eligible application when K exceeds the pool", async function () {
+      const { programId, applicationIds } = await seedProgram([
+        { score: 30 },
+        { eligible: false, score: 20 },
+        { score: 50 },
+      ]);
+
+      await adminClient.runSelection(programId, 10);
+      await expectSelected(applicationIds, [true, false, true]);
+    });
+
+    it("✅ should never select an ineligible application, whatever its score", async function () {
+      const { programId, applicationIds } = await seedProgram([
+        { eligible: false, score: 255 },
+        { score: 10 },
+        { score: 20 },
+      ]);
+
+      await adminClient.runSelection(programId, 2);
+      await expectSelected(applicationIds, [false, true, true]);
+    });
+
+    it("✅ should count an unscored application as scoring zero", async function () {
+      const { programId, applicationIds } = await seedProgram([{ score: 1 }, {}, { score: 0 }]);
+
+      await adminClient.runSelection(programId, 2);
+      await expectSelected(applicationIds, [true, true, false]);
+    });
+
+    it("✅ should handle a single application", async function () {
+      const { programId, applicationIds } = await seedProgram([{ score: 5 }]);
+
+      await adminClient.runSelection(programId, 1);
+      await expectSelected(applicationIds, [true]);
+    });
+
+    it("✅ should leave withdrawn and disqualified applications out of the ranking", async function () {
+      const { programId, applicationIds } = await seedProgram([
+        { score: 90 },
+        { score: 80 },
+        { score: 70 },
+        { score: 60 },
+      ]);
+      await contract.connect(applicants[0]).withdrawApplication(applicationIds[0]);
+      await contract.connect(programAdmin).disqualifyApplication(applicationIds[1]);
+
+      await adminClient.runSelection(programId, 1);
+      await expectSelected(applicationIds.slice(2), [true, false]);
+    });
+  });
+
+  describe("Batching", function () {
+    const candidates: Candidate[] = [{ score: 12 }, { score: 99 }, { eligible: false, score: 99 }, { score: 45 }];
+
+    it("✅ should report the steps of each phase", async function () {
+      const { programId } = await seedProgram(candidates);
+      await contract.connect(programAdmin).startSelection(programId, 2);
+
+      const selection = await contract.getSelection(programId);
+      expect(selection.phase).to.equal(SelectionPhase.Keys);
+      expect(selection.poolSize).to.equal(4n);
+      expect(selection.stepsDone).to.equal(0n);
+      // 4 keys + 6 pairs + 4 results
+      expect(selection.totalSteps).to.equal(14n);
+    });
+
+    it("✅ should page through batches until the selection completes", async function () {
+      const { programId, applicationIds } = await seedProgram(candidates);
+      const progress: SelectionProgress[] = [];
+
+      const { transactionHashes } = await adminClient.runSelection(programId, 2, {
+        batchSize: 3,
+        onProgress: (update) => progress.push(update),
+      });
+
+      expect(transactionHashes).to.have.length(1 + 5);
+      expect(progress.map((update) => update.stepsDone)).to.deep.equal([3n, 6n, 9n, 12n, 14n]);
+      expect(progress.map((update) => update.phase)).to.deep.equal([
+        SelectionPhase.Keys,
+        SelectionPhase.Compare,
+        SelectionPhase.Compare,
+        SelectionPhase.Finalize,
+        SelectionPhase.Completed,
+      ]);
+      await expectSelected(applicationIds, [false, true, false, true]);
+    });
+
+    it("✅ should select the same applications for every batch size", async function () {
+      for (const batchSize of [1, 5, 100]) {
+        const { programId, applicationIds } = await seedProgram(candidates);
+        await adminClient.runSelection(programId, 2, { batchSize });
+        await expectSelected(applicationIds, [false, true, false, true]);
+      }
+    });
+
+    it("✅ should resume a selection started elsewhere", async function () {
+      const { programId, applicationIds } = await seedProgram(candidates);
+      await contract.connect(programAdmin).startSelection(programId, 1);
+      await contract.connect(programAdmin).advanceSelection(programId, 5);
+
+      // The K of the running selection wins over the one passed to the driver
+      const { transactionHashes } = await adminClient.runSelection(programId, 3, { batchSize: 100 });
+      expect(transactionHashes).to.have.length(1);
+      await expectSelected(applicationIds, [false, true, false, false]);
+    });
+
+    it("✅ should cost more gas for larger batches", async function () {
+      const { programId } = await seedProgram(candidates);
+      await contract.connect(programAdmin).startSelection(programId, 2);
+      await contract.connect(programAdmin).advanceSelection(programId, 4);
+
+      const small = await (await contract.connect(programAdmin).advanceSelection(programId, 1)).wait();
+      const large = await (await contract.connect(programAdmin).advanceSelection(programId, 4)).wait();
+      expect(large!.gasUsed).to.be.greaterThan(small!.gasUsed * 2n);
+    });
+
+    it("❌ should reject an empty batch", async function () {
+      const { programId } = await seedProgram(candidates);
+      await contract.connect(programAdmin).startSelection(programId, 2);
+
+      await expect(contract.connect(programAdmin).advanceSelection(programId, 0)).to.be.revertedWith(
+        "Invalid batch size"
+      );
+    });
+
+    it("❌ should reject advancing a selection that has not started or has completed", async function () {
+      const { programId } = await seedProgram(candidates);
+      await expect(contract.connect(programAdmin).advanceSelection(programId, 1)).to.be.revertedWith(
+        "Selection not started"
+      );
+
+      await adminClient.runSelection(programId, 2);
+      await expect(contract.connect(programAdmin).advanceSelection(programId, 1)).to.be.revertedWith(
+        "Selection completed"
+      );
+    });
+  });
+
+  describe("Pool and Processing", function () {
+    it("❌ should reject applications and reviews once a selection has started", async function () {
+      const { programId, applicationIds } = await seedProgram([{ score: 10 }, {}]);
+      await contract.connect(programAdmin).startSelection(programId, 1);
+
+      await expect(submitApplication(applicants[5], programId, true)).to.be.revertedWith("Selection started");
+      await expect(submitReview(applicationIds[1], 90)).to.be.revertedWith("Selection started");
+    });
+
+    it("❌ should reject processing while the selection is running", async function () {
+      const { programId, applicationIds } = await seedProgram([{ score: 10 }, { score: 20 }]);
+      await contract.connect(programAdmin).startSelection(programId, 1);
+
+      await expect(processApplication(applicationIds[0])).to.be.revertedWith("Selection in progress");
+    });
+
+    it("✅ should only approve selected applications once the selection completes", async function () {
+      const { programId, applicationIds } = await seedProgram([{ score: 10 }, { score: 20 }]);
+      await adminClient.runSelection(programId, 1);
+
+      for (const applicationId of applicationIds) {
+        await processApplication(applicationId);
+      }
+      expect(await adminClient.decryptDecision(applicationIds[0])).to.equal(false);
+      expect(await adminClient.decryptDecision(applicationIds[1])).to.equal(true);
+    });
+
+    it("✅ should leave programs without a selection untouched", async function () {
+      const { applicationIds } = await seedProgram([{ score: 10 }]);
+      const selected = await seedProgram([{ score: 10 }, { score: 20 }]);
+      await adminClient.runSelection(selected.programId, 1);
+
+      await processApplication(applicationIds[0]);
+      expect(await adminClient.decryptDecision(applicationIds[0])).to.equal(true);
+    });
+  });
+
+  describe("Access Control", function () {
+    it("❌ should only let the program administrator start and advance a selection", async function () {
+      const { programId } = await seedProgram([{ score: 10 }]);
+      await expect(contract.connect(outsider).startSelection(programId, 1)).to.be.revertedWith(
+        "Not program administrator"
+      );
+
+      await contract.connect(programAdmin).startSelection(programId, 1);
+      await expect(contract.connect(outsider).advanceSelection(programId, 1)).to.be.revertedWith(
+        "Not program administrator"
+      );
+    });
+
+    it("❌ should validate the start of a selection", async function () {
+      const empty = await createProgram();
+      await expect(contract.connect(programAdmin).startSelection(empty, 1)).to.be.revertedWith("No applications");
+
+      const { programId } = await seedProgram([{ score: 10 }]);
+      await expect(contract.connect(programAdmin).startSelection(programId, 0)).to.be.revertedWith("Invalid K");
+
+      await contract.connect(programAdmin).startSelection(programId, 1);
+      await expect(contract.connect(programAdmin).startSelection(programId, 1)).to.be.revertedWith("Selection started");
+    });
+
+    it("✅ should let applicants decrypt only their own selection", async function () {
+      const { programId, applicationIds } = await seedProgram([{ score: 10 }, { score: 20 }]);
+      await adminClient.runSelection(programId, 1);
+
+      const client = adminClient.connect(applicants[1]);
+      expect(await client.decryptSelection(applicationIds[1])).to.equal(true);
+      await expect(contract.connect(applicants[1]).getApplicationSelection(applicationIds[0])).to.be.revertedWith(
+        "Not authorized"
+      );
+
+      const handle = await contract.connect(applicants[0]).getApplicationSelection(applicationIds[0]);
+      let decrypted = false;
+      try {
+        await fhevm.userDecryptEbool(handle, contractAddress, applicants[1]);
+        decrypted = true;
+      } catch {
+        // Expected: only the applicant and the administrator are allowed on the result
+      }
+      expect(decrypted).to.equal(false);
+    });
+
+    it("❌ should not expose a selection before it completes", async function () {
+      const { programId, applicationIds } = await seedProgram([{ score: 10 }, { score: 20 }]);
+      await contract.connect(programAdmin).startSelection(programId, 1);
+      await contract.connect(programAdmin).advanceSelection(programId, 2);
+
+      await expect(contract.connect(applicants[0]).getApplicationSelection(applicationIds[0])).to.be.revertedWith(
+        "Selection not completed"
+      );
+    });
+
+    it("✅ should emit no scores, ranks or winners", async function () {
+      const { programId } = await seedProgram([{ score: 10 }, { score: 20 }, { score: 30 }]);
+
+      await expect(contract.connect(programAdmin).startSelection(programId, 2))
+        .to.emit(contract, "SelectionStarted")
+        .withArgs(programId, 2, 3);
+      await expect(contract.connect(programAdmin).advanceSelection(programId, 100))
+        .to.emit(contract, "SelectionCompleted")
+        .withArgs(programId);
+    });
+  });
+});
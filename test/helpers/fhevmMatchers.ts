@@ -0,0 +1,73 @@
+import type { Signer } from "ethers";
+import { fhevm } from "hardhat";
+import { FhevmType, FhevmTypeEuint } from "@fhevm/hardhat-plugin";
+
+/**
+ * @title FHEVM Chai Matchers
+ * @notice Assertions that user-decrypt an encrypted handle and compare the plaintext
+ * @dev Register once per test file with `chai.use(fhevmMatchers)`, then:
+ *
+ *   await expect(handle).to.decryptAsEbool(true, contractAddress, signer);
+ *   await expect(handle).to.decryptAs(FhevmType.euint16, 350, contractAddress, signer);
+ *
+ * Decryption goes through `fhevm.userDecryptEbool` / `fhevm.userDecryptEuint`, so the
+ * assertion also fails when `signer` has no ACL permission on the handle.
+ */
+
+type DecryptedValue = boolean | bigint | number;
+
+declare global {
+  namespace Chai {
+    interface Assertion {
+      decryptAs(fhevmType: FhevmType, expected: DecryptedValue, contractAddress: string, signer: Signer): Promise<void>;
+      decryptAsEbool(expected: boolean, contractAddress: string, signer: Signer): Promise<void>;
+    }
+  }
+}
+
+async function userDecrypt(
+  fhevmType: FhevmType,
+  handle: string,
+  contractAddress: string,
+  signer: Signer
+): Promise<boolean | bigint> {
+  if (fhevmType === FhevmType.ebool) {
+    return fhevm.userDecryptEbool(handle, contractAddress, signer);
+  }
+  if (fhevmType === FhevmType.eaddress) {
+    throw new Error("decryptAs does not support eaddress handles");
+  }
+  return fhevm.userDecryptEuint(fhevmType as FhevmTypeEuint, handle, contractAddress, signer);
+}
+
+export function fhevmMatchers(chai: Chai.ChaiStatic, utils: Chai.ChaiUtils): void {
+  async function decryptAs(
+    this: Chai.AssertionStatic,
+    fhevmType: FhevmType,
+    expected: DecryptedValue,
+    contractAddress: string,
+    signer: Signer
+  ): Promise<void> {
+    const handle = utils.flag(this, "object") as string;
+    const actual = await userDecrypt(fhevmType, handle, contractAddress, signer);
+    const normalizedExpected = typeof expected === "number" ? BigInt(expected) : expected;
+    const signerAddress = await signer.getAddress();
+
+    this.assert(
+      actual === normalizedExpected,
+      `expected handle ${handle} to decrypt to ${normalizedExpected} for ${signerAddress}, but got ${actual}`,
+      `expected handle ${handle} not to decrypt to ${normalizedExpected} for ${signerAddress}`,
+      normalizedExpected,
+      actual
+    );
+  }
+
+  utils.addMethod(chai.Assertion.prototype, "decryptAs", decryptAs);
+  utils.addMethod(
+    chai.Assertion.prototype,
+    "decryptAsEbool",
+    function (this: Chai.AssertionStatic, expected: boolean, contractAddress: string, signer: Signer) {
+      return decryptAs.call(this, FhevmType.ebool, expected, contractAddress, signer);
+    }
+  );
+}
@@ -0,0 +1,82 @@
+import type { Signer } from "ethers";
+import { fhevm } from "hardhat";
+import { AnonymousScholarshipApplication } from "../../types";
+
+/**
+ * @title Mock Decryption Oracle
+ * @notice Plays the off-chain decryption relayer for award publication in Hardhat tests
+ * @dev Watches `AwardPublicationRequested`, asks the mock KMS for a public decryption
+ * of the requested handles and submits the result to `fulfillAwardPublication`:
+ *
+ *   const oracle = new MockDecryptionOracle(contract, relayer);
+ *   await contract.requestAwardPublication(programId);
+ *   await oracle.fulfilPending();
+ *
+ * `fulfil` accepts overrides so tests can submit tampered cleartexts or proofs.
+ */
+
+export type PendingAwardRequest = {
+  requestId: bigint;
+  programId: bigint;
+  handles: string[];
+};
+
+export type FulfilOverrides = {
+  abiEncodedClearValues?: string;
+  decryptionProof?: string;
+};
+
+export class MockDecryptionOracle {
+  private readonly contract: AnonymousScholarshipApplication;
+
+  constructor(contract: AnonymousScholarshipApplication, relayer: Signer) {
+    this.contract = contract.connect(relayer) as AnonymousScholarshipApplication;
+  }
+
+  /**
+   * Requests emitted so far that have not been fulfilled yet.
+   */
+  async pendingRequests(): Promise<PendingAwardRequest[]> {
+    const events = await this.contract.queryFilter(this.contract.filters.AwardPublicationRequested());
+    const pending: PendingAwardRequest[] = [];
+
+    for (const event of events) {
+      const { requestId, programId, handles } = event.args;
+      const publication = await this.contract.getAwardPublication(requestId);
+      if (!publication.fulfilled) {
+        pending.push({ requestId, programId, handles: [...handles] });
+      }
+    }
+    return pending;
+  }
+
+  /**
+   * Decrypts the handles of a request through the mock KMS and returns the signed result.
+   */
+  async decrypt(requestId: bigint | number) {
+    const publication = await this.contract.getAwardPublication(requestId);
+    return fhevm.publicDecrypt([...publication.handles]);
+  }
+
+  async fulfil(requestId: bigint | number, overrides: FulfilOverrides = {}) {
+    const { abiEncodedClearValues, decryptionProof } = await this.decrypt(requestId);
+
+    return this.contract.fulfillAwardPublication(
+      requestId,
+      overrides.abiEncodedClearValues ?? abiEncodedClearValues,
+      overrides.decryptionProof ?? decryptionProof
+    );
+  }
+
+  /**
+   * Fulfils every pending request in emission order and returns their ids.
+   */
+  async fulfilPending(): Promise<bigint[]> {
+    const fulfilled: bigint[] = [];
+    for (const { requestId } of await this.pendingRequests()) {
+      await (await this.fulfil(requestId)).wait();
+      fulfilled.push(requestId);
+    }
+    return fulfilled;
+  }
+}
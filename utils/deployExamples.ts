@@ -0,0 +1,72 @@
+import type { DeployFunction } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * Shared pieces of the hardhat-deploy scripts in deploy/. Each chapter of examples has
+ * its own script tagged with the chapter, so one chapter or all of them can be deployed:
+ *
+ *   npx hardhat deploy --network localhost --tags decryption
+ *   npx hardhat deploy --network localhost --tags examples
+ *
+ * After deploying, every contract gets a smoke check that calls one of its views.
+ */
+
+export interface ExampleContract {
+  name: string;
+  /** View called by the smoke check; contracts with only pure functions get a code check instead. */
+  view?: string;
+  args?: unknown[];
+}
+
+/** Deploy function for a chapter, carrying the examples it deploys and smoke-checks. */
+export type ExampleDeployFunction = DeployFunction & { examples: ExampleContract[] };
+
+/**
+ * Calls `view` on the deployed `name` and describes the result, or checks that code exists
+ * at its address when there is no view to call. Throws when the call fails so a broken
+ * deployment stops the run.
+ */
+export async function smokeCheck(
+  hre: HardhatRuntimeEnvironment,
+  name: string,
+  view?: string,
+  args: unknown[] = []
+): Promise<string> {
+  const { address } = await hre.deployments.get(name);
+
+  if (!view) {
+    const code = await hre.ethers.provider.getCode(address);
+    if (code === "0x") {
+      throw new Error(`Smoke check failed: no code for ${name} at ${address}`);
+    }
+    return `${name} at ${address}: ${(code.length - 2) / 2} bytes of code`;
+  }
+
+  const contract = await hre.ethers.getContractAt(name, address);
+  try {
+    const result = await contract.getFunction(view)(...args);
+    return `${name} at ${address}: ${view}() = ${String(result)}`;
+  } catch (error) {
+    throw new Error(`Smoke check failed: ${name}.${view}() at ${address}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Deploy function for one chapter: deploys each example without constructor arguments,
+ * then smoke-checks them all.
+ */
+export function deployExamples(chapter: string, examples: ExampleContract[]): ExampleDeployFunction {
+  const func = async function (hre: HardhatRuntimeEnvironment) {
+    const { deployer } = await hre.getNamedAccounts();
+    const { deploy, log } = hre.deployments;
+
+    log(`\nDeploying ${chapter} examples to ${hre.network.name}`);
+    for (const { name } of examples) {
+      await deploy(name, { from: deployer, args: [], log: true });
+    }
+    for (const { name, view, args } of examples) {
+      log(`✅ ${await smokeCheck(hre, name, view, args)}`);
+    }
+  };
+  return Object.assign(func, { examples });
+}